@@ -2,12 +2,15 @@ import { useState, useRef, useEffect } from 'react';
 import Header from './components/Header';
 import ChatInterface, { ChatInterfaceHandle } from './components/ChatInterface';
 import CrosstabList from './components/CrosstabList';
+import ConversationList from './components/ConversationList';
 import PromptLibrary from './components/PromptLibrary';
 import type { PromptMetadata } from './lib/types';
 import './index.css';
 
 function App() {
   const [selectedCrosstab, setSelectedCrosstab] = useState<string | null>(null);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [sessionsVersion, setSessionsVersion] = useState(0);
   const [showSidebar, setShowSidebar] = useState(true);
   const [showPromptLibrary, setShowPromptLibrary] = useState(false);
   const [darkMode, setDarkMode] = useState(() => {
@@ -35,6 +38,18 @@ function App() {
     setSelectedCrosstab(null);
   };
 
+  // Refresh the conversation list whenever a reply is saved to a session
+  const handleSessionChange = (sessionId: string | null) => {
+    setActiveSessionId(sessionId);
+    setSessionsVersion(v => v + 1);
+  };
+
+  const handleDeleteSession = (sessionId: string) => {
+    if (sessionId === activeSessionId) {
+      handleNewChat();
+    }
+  };
+
   const handleSelectPrompt = (prompt: string, metadata?: PromptMetadata) => {
     chatRef.current?.sendPrompt(prompt, metadata);
   };
@@ -67,6 +82,19 @@ function App() {
               onSelectCrosstab={setSelectedCrosstab}
               selectedId={selectedCrosstab}
             />
+            <div className="max-h-64 flex flex-col border-t border-slate-200 dark:border-slate-700">
+              <div className="px-4 py-3">
+                <h2 className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                  Conversations
+                </h2>
+              </div>
+              <ConversationList
+                activeSessionId={activeSessionId}
+                refreshKey={sessionsVersion}
+                onSelectSession={(id) => chatRef.current?.loadSession(id)}
+                onDeleteSession={handleDeleteSession}
+              />
+            </div>
           </div>
         )}
 
@@ -76,6 +104,7 @@ function App() {
           selectedCrosstabId={selectedCrosstab}
           onOpenPromptLibrary={() => setShowPromptLibrary(true)}
           onSelectCrosstab={setSelectedCrosstab}
+          onSessionChange={handleSessionChange}
         />
       </div>
 
@@ -0,0 +1,49 @@
+import { resolveSlice, applySlice, isEmptySlice, describeSlice } from '../../lib/entity-resolver';
+import type { Crosstab, IntentEntities } from '../../lib/types';
+
+// Build context object from crosstab definition
+export function buildCrosstabContext(crosstab: any): {
+  markets: string[];
+  waves: string[];
+  audiences: string[];
+  rows: string[];
+  columns: string[];
+} {
+  const markets = crosstab.country_codes || [];
+  const waves = crosstab.wave_codes || [];
+  const audiences = (crosstab.bases || []).map((b: any) => b.name || b.full_name).filter(Boolean);
+  const rows = (crosstab.rows || []).map((r: any) => r.name || r.full_name).filter(Boolean);
+  const columns = (crosstab.columns || []).map((c: any) => c.name || c.full_name).filter(Boolean);
+
+  return { markets, waves, audiences, rows, columns };
+}
+
+/**
+ * Narrow a fetched crosstab to the markets, waves and audiences a message names.
+ * The note says what the answer covers and what the crosstab does not have;
+ * a slice with no data falls back to the whole crosstab.
+ */
+export function focusCrosstab(crosstab: Crosstab, message: string, entities?: IntentEntities): { crosstab: Crosstab; note: string } {
+  const slice = resolveSlice(message, crosstab, entities);
+  let note = '';
+  let focused = crosstab;
+
+  if (!isEmptySlice(slice)) {
+    const sliced = applySlice(crosstab, slice);
+    if (sliced.data && sliced.data.length > 0) {
+      focused = sliced;
+      note += `*Focused on ${describeSlice(slice, crosstab)}*\n\n`;
+    } else {
+      note += `*No data for ${describeSlice(slice, crosstab)}, so this covers the whole crosstab.*\n\n`;
+    }
+  }
+
+  if (slice.unmatched.length > 0) {
+    note += `*Not in this crosstab: ${slice.unmatched.join(', ')}*\n\n`;
+  }
+
+  if (focused !== crosstab) {
+    console.log(`Focused crosstab on ${describeSlice(slice, crosstab)}: ${focused.data?.length || 0} of ${crosstab.data?.length || 0} data points`);
+  }
+  return { crosstab: focused, note };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { createStubServices, sendChatMessage } from '../../../test/chat';
+import { makeCrosstab } from '../../../test/fixtures';
+
+const XT_ID = '0b6f3a52-4c1e-4d8a-9f2b-7e5c1d3a9b10';
+const crosstab = { ...makeCrosstab({ markets: ['de', 'gb'], waves: ['q2_2024', 'q3_2024'] }), id: XT_ID, uuid: XT_ID };
+
+describe('analyze handler', () => {
+  it('analyzes a crosstab named by ID', async () => {
+    const { services, calls } = createStubServices({ crosstabs: [crosstab] });
+
+    const { handler, result, stages } = await sendChatMessage(services, `Analyze ${XT_ID}`);
+
+    expect(handler).toBe('analyze');
+    expect(calls.getCrosstab).toEqual([XT_ID]);
+    expect(result.response).toContain(`## ${crosstab.name}`);
+    expect(result.suggestedActions?.length).toBeGreaterThan(0);
+    expect(stages).toEqual(expect.arrayContaining(['fetching', 'analyzing', 'formatting']));
+  });
+
+  it('focuses the selected crosstab on the markets and waves the message names', async () => {
+    const { services } = createStubServices({ crosstabs: [crosstab] });
+
+    const { result } = await sendChatMessage(services, 'What are the key insights in Germany for Q3 2024?', { crosstabId: XT_ID });
+
+    expect(result.response).toContain('*Focused on Germany · Q3 2024*');
+  });
+
+  it('notes what the crosstab does not cover', async () => {
+    const { services } = createStubServices({ crosstabs: [crosstab] });
+
+    const { result } = await sendChatMessage(services, 'Give me insights in France', { crosstabId: XT_ID });
+
+    expect(result.response).toContain('*Not in this crosstab: France*');
+  });
+});
+
+describe('search-and-analyze handler', () => {
+  const other = { ...makeCrosstab(), id: 'xt-2', uuid: 'xt-2', name: 'Travel intenders' };
+
+  it('analyzes the single crosstab a search finds', async () => {
+    const { services, calls } = createStubServices({ crosstabs: [crosstab, other] });
+
+    const { handler, result } = await sendChatMessage(services, 'Analyze travel intenders');
+
+    expect(handler).toBe('search-and-analyze');
+    expect(calls.searchCrosstabs).toEqual(['travel intenders']);
+    expect(calls.getCrosstab).toEqual(['xt-2']);
+    expect(result.response).toContain('## Travel intenders');
+  });
+
+  it('asks Spark when no crosstab matches', async () => {
+    const { services, calls } = createStubServices({ crosstabs: [crosstab] });
+
+    const { result } = await sendChatMessage(services, 'Analyze sustainability attitudes');
+
+    expect(calls.spark.map(q => q.prompt)).toEqual(['Tell me about sustainability attitudes']);
+    expect(result.response).toBe('Spark answer to: Tell me about sustainability attitudes');
+  });
+});
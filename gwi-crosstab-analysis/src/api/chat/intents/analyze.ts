@@ -0,0 +1,241 @@
+import { z } from 'zod';
+import { intentEntitiesSchema } from '../../../lib/intent-classifier';
+import type { AnalysisConfig, ChatSession, IntentEntities, SuggestedAction, VisualizationData } from '../../../lib/types';
+import { buildCrosstabContext, focusCrosstab } from '../crosstab-context';
+import { defineIntentHandler } from '../registry';
+import { generateVisualizations, generateSuggestedActions } from '../visualizations';
+import { ignoreStage, type AnalysisResult, type ChatServices, type StageReporter } from '../types';
+import { handleSparkQuery } from './spark';
+
+/**
+ * Analyze the crosstab the message names by ID, or the selected one
+ */
+export const analyzeHandler = defineIntentHandler({
+  name: 'analyze',
+  intents: ['analyze_crosstab'],
+  input: z.object({
+    message: z.string(),
+    crosstabId: z.string().min(1),
+    wantsChart: z.boolean(),
+    entities: intentEntitiesSchema.default({}),
+  }),
+  async handle({ message, crosstabId, wantsChart, entities }, { services, config, onStage }) {
+    return handleAnalyzeIntent(services, crosstabId, wantsChart, config, onStage, message, entities);
+  },
+});
+
+/**
+ * "Analyze social media" with no crosstab selected: find the crosstab by name first
+ */
+export const searchAndAnalyzeHandler = defineIntentHandler({
+  name: 'search-and-analyze',
+  intents: ['search_and_analyze'],
+  input: z.object({
+    searchTerm: z.string().min(1),
+    selectedCrosstabId: z.null(),
+  }),
+  async handle({ searchTerm }, { services, config, onStage, session }) {
+    return { response: await handleSearchAndAnalyzeIntent(services, searchTerm, config, onStage, session) };
+  },
+});
+
+export async function handleAnalyzeIntent(
+  services: ChatServices,
+  crosstabId: string,
+  includeChart: boolean = false,
+  config?: AnalysisConfig,
+  onStage: StageReporter = ignoreStage,
+  message: string = '',
+  entities?: IntentEntities
+): Promise<AnalysisResult> {
+  const { orchestrator } = services;
+  if (!orchestrator) {
+    return { response: 'The crosstab feature is not configured. Please add the GWI_API_KEY environment variable.' };
+  }
+
+  if (!crosstabId) {
+    return { response: 'Please select a crosstab from the sidebar or specify which one you want to analyze.' };
+  }
+
+  console.log(`Attempting to fetch crosstab: ${crosstabId}`);
+
+  onStage('fetching', 'Fetching crosstab data...');
+  let crosstab;
+  try {
+    // Fetch crosstab WITH data for comprehensive local analysis
+    crosstab = await orchestrator.client.getCrosstab(crosstabId, true);
+    console.log(`Fetched crosstab with ${crosstab.data?.length || 0} data points`);
+  } catch (error) {
+    console.error(`Failed to fetch crosstab ${crosstabId}:`, error);
+    return { response: `Failed to fetch crosstab with ID: ${crosstabId}\n\nError: ${error instanceof Error ? error.message : 'Unknown error'}\n\nPlease check:\n- The crosstab ID is correct\n- Your API key has access to this crosstab` };
+  }
+
+  if (!crosstab) {
+    return { response: `Crosstab not found with ID: ${crosstabId}` };
+  }
+
+  // Only the markets, waves and audiences the message names
+  const focus = focusCrosstab(crosstab, message, entities);
+
+  // Use local analyzer for analysis with visualizations
+  return await analyzeWithLocalAnalyzer(services, focus.crosstab, includeChart, config, onStage, focus.note);
+}
+
+// Analyze crosstab using local analyzer with visualizations and suggested actions
+async function analyzeWithLocalAnalyzer(
+  services: ChatServices,
+  crosstab: any,
+  includeChart: boolean = false,
+  config?: AnalysisConfig,
+  onStage: StageReporter = ignoreStage,
+  focusNote: string = ''
+): Promise<AnalysisResult> {
+  const { analyzer, templateEngine, formatter } = services;
+  console.log('=== analyzeWithLocalAnalyzer called ===');
+  console.log('Crosstab name:', crosstab.name);
+  console.log('Data length:', crosstab.data?.length || 0);
+  console.log('Include chart:', includeChart);
+
+  const context = buildCrosstabContext(crosstab);
+
+  // Build formatted result header
+  let result = `## ${crosstab.name}\n\n`;
+
+  // Add context header
+  const contextParts: string[] = [];
+  if (context.markets.length > 0) {
+    const mkts = context.markets.slice(0, 5).join(', ');
+    contextParts.push(`**Markets:** ${mkts}${context.markets.length > 5 ? ` +${context.markets.length - 5} more` : ''}`);
+  }
+  if (context.waves.length > 0) {
+    contextParts.push(`**Period:** ${context.waves.join(', ')}`);
+  }
+  if (context.audiences.length > 0) {
+    contextParts.push(`**Audience:** ${context.audiences.join(', ')}`);
+  }
+
+  if (contextParts.length > 0) {
+    result += contextParts.join(' | ') + '\n\n';
+  }
+  result += focusNote;
+  if (contextParts.length > 0 || focusNote) {
+    result += '---\n\n';
+  }
+
+  let visualizations: VisualizationData[] = [];
+  let suggestedActions: SuggestedAction[] = [];
+
+  // Check if we have actual crosstab data to analyze
+  if (crosstab.data && crosstab.data.length > 0) {
+    console.log(`*** USING LOCAL ANALYZER with ${crosstab.data.length} data points ***`);
+
+    try {
+      // Use local analyzer for comprehensive insights from actual data
+      onStage('analyzing', `Analyzing ${crosstab.data.length} data points...`);
+      const analysis = analyzer.analyze(crosstab, config);
+      console.log('Local analysis completed successfully');
+      onStage('formatting', 'Formatting results...');
+      console.log('Analysis insights count:', analysis.insights?.length || 0);
+      console.log('Analysis top indexes count:', analysis.statistics?.topIndexes?.length || 0);
+
+      // Format the full analysis (but shorter if we're showing charts)
+      if (includeChart) {
+        // Abbreviated text response when showing charts
+        result += `### Summary\n\n`;
+        result += `Analyzed **${crosstab.data.length}** data points.\n\n`;
+
+        if (analysis.statistics.overIndexed.length > 0) {
+          result += `Found **${analysis.statistics.overIndexed.length}** over-indexed behaviors and **${analysis.statistics.underIndexed.length}** under-indexed behaviors.\n\n`;
+        }
+
+        // Show top 5 in text as well
+        if (analysis.statistics.topIndexes.length > 0) {
+          result += `#### Top 5 Over-Indexed Behaviors\n\n`;
+          analysis.statistics.topIndexes.slice(0, 5).forEach((item, i) => {
+            result += `${i + 1}. **${item.label}** - Index: ${item.index}\n`;
+          });
+        }
+      } else {
+        // Full text analysis
+        result += formatter.formatAnalysis(crosstab, analysis);
+
+        // Apply specialized templates for additional insights
+        const templateResults = templateEngine.analyzeWithTemplates(crosstab, analysis);
+
+        if (Object.keys(templateResults).length > 0) {
+          result += '\n---\n\n## Specialized Analyses\n\n';
+          Object.entries(templateResults).forEach(([name, templateAnalysis]) => {
+            result += templateEngine.formatTemplateAnalysis(name, templateAnalysis);
+            result += '\n';
+          });
+        }
+      }
+
+      // Generate visualizations (always if there's data)
+      visualizations = generateVisualizations(analysis, crosstab);
+
+      // Generate suggested actions
+      const hasMultipleMarkets = (crosstab.country_codes?.length || 0) > 1;
+      suggestedActions = generateSuggestedActions(analysis, crosstab.name, hasMultipleMarkets, crosstab.id);
+
+      // Remove the "Show Chart" action if we're already showing a chart
+      if (includeChart) {
+        suggestedActions = suggestedActions.filter(a => a.id !== 'show-chart');
+      }
+
+      console.log('*** Generated', visualizations.length, 'visualizations and', suggestedActions.length, 'suggested actions ***');
+
+      return {
+        response: result,
+        visualizations: visualizations.length > 0 ? visualizations : undefined,
+        suggestedActions: suggestedActions.length > 0 ? suggestedActions : undefined,
+      };
+    } catch (error) {
+      console.error('*** LOCAL ANALYSIS ERROR ***:', error);
+      console.error('Error stack:', error instanceof Error ? error.stack : 'N/A');
+      result += `\n*Analysis error: ${error instanceof Error ? error.message : 'Unknown error'}*`;
+    }
+  } else {
+    result += '*No data available for this crosstab. The crosstab configuration was loaded but no data points were returned.*\n';
+  }
+
+  return { response: result };
+}
+
+async function handleSearchAndAnalyzeIntent(
+  services: ChatServices,
+  searchTerm: string,
+  config?: AnalysisConfig,
+  onStage: StageReporter = ignoreStage,
+  session: ChatSession | null = null
+): Promise<string> {
+  const { orchestrator, sparkClient } = services;
+  if (!orchestrator) {
+    return 'The crosstab feature is not configured. Please add the GWI_API_KEY environment variable.';
+  }
+
+  onStage('fetching', `Searching crosstabs for "${searchTerm}"...`);
+  const results = await orchestrator.client.searchCrosstabs(searchTerm);
+
+  if (results.length === 0) {
+    // No crosstabs found - try Spark API if available
+    if (sparkClient) {
+      return handleSparkQuery(sparkClient, `Tell me about ${searchTerm}`, onStage, session);
+    }
+    return `No crosstabs found matching "${searchTerm}". Try a different search term.`;
+  }
+
+  if (results.length > 1) {
+    let response = `Found ${results.length} crosstabs matching "${searchTerm}". Which one would you like me to analyze?\n\n`;
+
+    results.slice(0, 5).forEach((ct, i) => {
+      response += `${i + 1}. **${ct.name}**\n`;
+    });
+
+    return response;
+  }
+
+  // Single result - analyze it
+  const result = await handleAnalyzeIntent(services, results[0].id, false, config, onStage);
+  return result.response;
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { createStubServices, sendChatMessage } from '../../../test/chat';
+import { makeCrosstab } from '../../../test/fixtures';
+
+const markets = { ...makeCrosstab({ markets: ['de', 'gb', 'us'], waves: ['q2_2024', 'q3_2024'] }), id: 'xt-markets', uuid: 'xt-markets', name: 'Social by market' };
+const gamers = { ...makeCrosstab(), id: 'xt-gamers', uuid: 'xt-gamers', name: 'Gen Z gamers' };
+const boomers = { ...makeCrosstab(), id: 'xt-boomers', uuid: 'xt-boomers', name: 'Boomer gamers' };
+
+describe('compare handler', () => {
+  it('compares the crosstabs the message names', async () => {
+    const { services, calls } = createStubServices({ crosstabs: [markets, gamers, boomers] });
+
+    const { handler, result } = await sendChatMessage(services, 'Compare Gen Z gamers with Boomer gamers');
+
+    expect(handler).toBe('compare');
+    expect(calls.searchCrosstabs).toEqual(['Gen Z gamers', 'Boomer gamers']);
+    expect(result.response).toContain('## Crosstab Comparison');
+    expect(result.visualizations?.[0].id).toBe('crosstab-comparison-chart');
+  });
+
+  it('compares the selected crosstab with "this"', async () => {
+    const { services } = createStubServices({ crosstabs: [markets, gamers, boomers] });
+
+    const { result } = await sendChatMessage(services, 'Compare this with Boomer gamers', { crosstabId: 'xt-gamers' });
+
+    expect(result.response).toMatch(/1\. \*\*Gen Z gamers\*\* \(reference\)/);
+    expect(result.response).toContain('2. **Boomer gamers**');
+  });
+
+  it('analyzes the selected crosstab when both sides are markets or waves', async () => {
+    const { services, calls } = createStubServices({ crosstabs: [markets, gamers, boomers] });
+
+    const { result } = await sendChatMessage(services, 'how does this look in Germany vs UK in Q3 2024?', { crosstabId: 'xt-markets' });
+
+    expect(calls.searchCrosstabs).toEqual([]);
+    expect(result.response).toContain('*Focused on Germany, UK · Q3 2024*');
+    expect(result.response).not.toContain('Crosstab Comparison');
+  });
+
+  it('focuses the market comparison on what the message names', async () => {
+    const { services } = createStubServices({ crosstabs: [markets] });
+
+    const { result } = await sendChatMessage(services, 'Compare markets in Q3 2024', { crosstabId: 'xt-markets' });
+
+    expect(result.response).toContain('## Market Comparison: Social by market');
+    expect(result.response).toContain('*Focused on Q3 2024*');
+    expect(result.response).toContain('| Behavior | DE | GB | US | Spread |');
+  });
+
+  it('lists crosstabs when there is nothing to compare', async () => {
+    const { services } = createStubServices({ crosstabs: [markets, gamers] });
+
+    const { result } = await sendChatMessage(services, 'Compare markets');
+
+    expect(result.response).toContain('first select a crosstab that contains multiple countries');
+    expect(result.crosstabs).toHaveLength(2);
+  });
+});
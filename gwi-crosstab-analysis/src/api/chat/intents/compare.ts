@@ -0,0 +1,249 @@
+import { z } from 'zod';
+import { resolveAnalysisConfig } from '../../../lib/analysis-config';
+import { compareCrosstabs, toComparisonBars } from '../../../lib/crosstab-comparison';
+import { isEntityName } from '../../../lib/entity-resolver';
+import { intentEntitiesSchema } from '../../../lib/intent-classifier';
+import type { AnalysisConfig, Crosstab, Intent, IntentEntities, SuggestedAction, VisualizationData } from '../../../lib/types';
+import { focusCrosstab } from '../crosstab-context';
+import { defineIntentHandler } from '../registry';
+import { generateVisualizations } from '../visualizations';
+import { ignoreStage, type AnalysisResult, type ChatServices, type IntentResult, type StageReporter } from '../types';
+import { handleListIntentWithData } from './list';
+import { handleAnalyzeIntent } from './analyze';
+
+// Words that lead into a market, wave or audience: "how does this look in Germany"
+const ENTITY_LEAD_PATTERN = /\s+(?:in|for|among|across|between|during)\s+/i;
+
+/**
+ * Compare two or more crosstabs the message names, or the selected crosstab's
+ * markets. "Germany vs UK" names parts of the selected crosstab rather than
+ * crosstabs, so it gets the focused analysis of that crosstab instead.
+ */
+export const compareHandler = defineIntentHandler({
+  name: 'compare',
+  intents: ['compare_crosstabs'],
+  input: z.object({
+    message: z.string(),
+    selectedCrosstabId: z.string().min(1).nullable(),
+    crosstabIds: z.array(z.string().min(1)).optional(),
+    compareTerms: z.array(z.string().min(1)).optional(),
+    wantsChart: z.boolean(),
+    entities: intentEntitiesSchema.default({}),
+  }),
+  async handle({ message, selectedCrosstabId, crosstabIds, compareTerms, wantsChart, entities }, { services, config, onStage }) {
+    return handleCompareIntent(services, selectedCrosstabId, config, onStage, { crosstabIds, compareTerms }, message, entities, wantsChart);
+  },
+});
+
+async function handleCompareIntent(
+  services: ChatServices,
+  crosstabId?: string | null,
+  config?: AnalysisConfig,
+  onStage: StageReporter = ignoreStage,
+  intent: Pick<Intent, 'crosstabIds' | 'compareTerms'> = {},
+  message: string = '',
+  entities?: IntentEntities,
+  includeChart: boolean = false
+): Promise<IntentResult> {
+  const { orchestrator, analyzer, formatter } = services;
+  if (!orchestrator) {
+    return { response: 'The crosstab feature is not configured. Please add the GWI_API_KEY environment variable.' };
+  }
+
+  // Markets, waves or audiences on both sides: analyze the selected crosstab focused on them
+  if (crosstabId && !intent.crosstabIds && intent.compareTerms) {
+    try {
+      const selected = await orchestrator.client.getCrosstab(crosstabId, true);
+      if (namesOnlySlices(intent.compareTerms, selected)) {
+        console.log(`Comparison terms ${JSON.stringify(intent.compareTerms)} name parts of the selected crosstab`);
+        return handleAnalyzeIntent(services, crosstabId, includeChart, config, onStage, message, entities);
+      }
+    } catch (error) {
+      // Reported below, where the selected crosstab is fetched for the market comparison
+      console.warn('Could not check comparison terms against the selected crosstab:', error);
+    }
+  }
+
+  // Two or more crosstabs named: compare them against each other
+  const compareIds = intent.crosstabIds ?? await resolveComparisonTerms(services, intent.compareTerms, crosstabId, onStage);
+  if (compareIds && compareIds.length >= 2) {
+    return handleCrosstabComparison(services, compareIds, config, onStage);
+  }
+
+  // If a crosstab is selected and it has multiple markets, we can do a market comparison
+  if (crosstabId) {
+    try {
+      onStage('fetching', 'Fetching crosstab data...');
+      const focus = focusCrosstab(await orchestrator.client.getCrosstab(crosstabId, true), message, entities);
+      const crosstab = focus.crosstab;
+
+      if (crosstab.country_codes && crosstab.country_codes.length > 1) {
+        // Has multiple markets - provide market comparison analysis
+        onStage('analyzing', `Comparing ${crosstab.country_codes.length} markets...`);
+        const analysis = analyzer.analyze(crosstab, config);
+        onStage('formatting', 'Formatting results...');
+
+        let response = `## Market Comparison: ${crosstab.name}\n\n${focus.note}`;
+        response += `This crosstab includes data from **${crosstab.country_codes.length} markets**: ${crosstab.country_codes.join(', ')}\n\n`;
+
+        if (analysis.markets) {
+          const { variations } = analysis.markets;
+
+          response += `### Biggest Differences Between Markets\n\n`;
+          response += formatter.formatMarketComparison(analysis.markets, 15);
+
+          response += `\n### What Stands Out\n\n`;
+          if (variations.length > 0) {
+            response += `**${variations.length}** behaviors vary by more than ${analysis.config.marketSpread} index points across markets:\n\n`;
+            variations.slice(0, 5).forEach(row => {
+              const high = row.cells[row.highMarket!]!;
+              const low = row.cells[row.lowMarket!]!;
+              response += `- **${row.label}**: ${row.highMarket!.toUpperCase()} indexes ${high.index} vs ${low.index} in ${row.lowMarket!.toUpperCase()}\n`;
+            });
+          } else {
+            response += `No behavior varies by more than ${analysis.config.marketSpread} index points - this audience looks consistent across markets, so a single global strategy is reasonable.\n`;
+          }
+        } else {
+          response += `### Key Behaviors Across Markets\n\n`;
+          response += `Market-level data was not returned for this crosstab, so here are the top behaviors across all markets combined:\n\n`;
+
+          analysis.statistics.topIndexes.slice(0, 10).forEach((item, i) => {
+            response += `${i + 1}. **${item.label}** - Index: ${item.index}, Reach: ${item.percentage}%\n`;
+          });
+        }
+
+        const visualizations = generateVisualizations(analysis, crosstab);
+        const suggestedActions: SuggestedAction[] = [
+          {
+            id: 'marketing-strategy',
+            label: 'Marketing Strategy',
+            description: 'Get recommendations for targeting across markets',
+            prompt: 'What marketing strategy would you recommend based on this market comparison?',
+            icon: 'target',
+            category: 'analysis',
+          },
+          {
+            id: 'targeting-opportunities',
+            label: 'Targeting Opportunities',
+            description: 'Find the best segments to target',
+            prompt: 'What are the best targeting opportunities based on this data?',
+            icon: 'target',
+            category: 'drill-down',
+          }
+        ];
+
+        return { response, visualizations, suggestedActions };
+      } else {
+        // Single market crosstab
+        return {
+          response: `## Market Comparison\n\n${focus.note}The selected crosstab **${crosstab.name}** only contains data for ${crosstab.country_codes?.[0] || 'one market'}.\n\nTo compare markets, you need a crosstab that includes multiple countries. You can:\n\n1. **Create a new crosstab** in the GWI platform with multiple markets selected\n2. **Select a different crosstab** that includes multiple countries\n3. **Ask a general question** like "How do millennials in the UK differ from Germany?" to query GWI data directly`
+        };
+      }
+    } catch (error) {
+      console.error('Compare intent error:', error);
+      return { response: `Failed to load crosstab for comparison: ${error instanceof Error ? error.message : 'Unknown error'}` };
+    }
+  }
+
+  // No crosstab selected - list available crosstabs
+  const result = await handleListIntentWithData(orchestrator, undefined, 0, 10, onStage);
+  return {
+    response: `## Market Comparison\n\nTo compare markets, first select a crosstab that contains multiple countries.\n\n${result.response}`,
+    crosstabs: result.crosstabs,
+  };
+}
+
+/**
+ * True when every comparison term is a market, wave or audience, read from
+ * after the last "in"/"for"/… so "how does this look in Germany" counts as Germany
+ */
+function namesOnlySlices(terms: string[], crosstab: Crosstab): boolean {
+  return terms.length >= 2 && terms.every(term => isEntityName(term.split(ENTITY_LEAD_PATTERN).pop()!, crosstab));
+}
+
+/**
+ * Turn comparison terms into crosstab IDs: 'this' is the selected crosstab,
+ * anything else is the first crosstab whose name contains it.
+ *
+ * @returns undefined unless at least two distinct crosstabs were found
+ */
+async function resolveComparisonTerms(
+  services: ChatServices,
+  terms: string[] | undefined,
+  crosstabId: string | null | undefined,
+  onStage: StageReporter
+): Promise<string[] | undefined> {
+  const { orchestrator } = services;
+  if (!terms || !orchestrator) return undefined;
+
+  onStage('fetching', 'Finding crosstabs to compare...');
+  const ids: string[] = [];
+  for (const term of terms) {
+    if (term === 'this') {
+      if (crosstabId) ids.push(crosstabId);
+      continue;
+    }
+    const [match] = await orchestrator.client.searchCrosstabs(term);
+    if (match) ids.push(match.uuid || match.id);
+  }
+
+  const distinct = Array.from(new Set(ids));
+  return distinct.length >= 2 ? distinct : undefined;
+}
+
+/**
+ * Fetch two or more crosstabs and compare them datapoint by datapoint
+ */
+async function handleCrosstabComparison(
+  services: ChatServices,
+  crosstabIds: string[],
+  config?: AnalysisConfig,
+  onStage: StageReporter = ignoreStage
+): Promise<AnalysisResult> {
+  const { orchestrator, formatter } = services;
+  const resolvedConfig = config ?? resolveAnalysisConfig();
+
+  try {
+    onStage('fetching', `Fetching ${crosstabIds.length} crosstabs...`);
+    const crosstabs = await Promise.all(crosstabIds.map(id => orchestrator!.client.getCrosstab(id, true)));
+
+    onStage('analyzing', 'Matching datapoints across crosstabs...');
+    const comparison = compareCrosstabs(crosstabs, resolvedConfig);
+
+    onStage('formatting', 'Formatting results...');
+    const response = formatter.formatCrosstabComparison(comparison);
+
+    const visualizations: VisualizationData[] = [];
+    if (comparison.rows.length > 0) {
+      visualizations.push({
+        id: 'crosstab-comparison-chart',
+        type: 'groupedBar',
+        title: 'Biggest Differences',
+        subtitle: `Index side by side, largest differences vs. ${comparison.crosstabs[0].name} first`,
+        data: [],
+        groups: toComparisonBars(comparison),
+        config: {
+          xAxisLabel: 'Index',
+          yAxisLabel: 'Behavior',
+          referenceValue: 100,
+        },
+      });
+    }
+
+    const suggestedActions: SuggestedAction[] = [
+      {
+        id: 'explain-differences',
+        label: 'Explain the Differences',
+        description: 'What the biggest gaps mean for targeting',
+        prompt: `What do the differences between ${comparison.crosstabs.map(c => c.name).join(' and ')} mean for targeting and messaging?`,
+        icon: 'compare',
+        category: 'analysis',
+      },
+    ];
+
+    return { response, visualizations, suggestedActions };
+  } catch (error) {
+    console.error('Crosstab comparison error:', error);
+    return { response: `Failed to compare crosstabs: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  }
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { createStubServices, sendChatMessage } from '../../../test/chat';
+import { makeCrosstab } from '../../../test/fixtures';
+
+const crosstab = { ...makeCrosstab({ markets: ['gb', 'us'] }), id: 'xt-1', uuid: 'xt-1' };
+
+describe('crosstab-query handler', () => {
+  it('answers questions about the selected crosstab from its data, not Spark', async () => {
+    const { services, calls } = createStubServices({ crosstabs: [crosstab] });
+
+    const { handler, result } = await sendChatMessage(services, 'Which platforms are most popular in the US?', { crosstabId: 'xt-1' });
+
+    expect(handler).toBe('crosstab-query');
+    expect(result.analysisType).toBe('crosstab_query');
+    expect(result.response).toContain('*Focused on USA*');
+    expect(calls.spark).toEqual([]);
+  });
+
+  it('reports a crosstab that cannot be fetched', async () => {
+    const { services } = createStubServices({ crosstabs: [] });
+
+    const { result } = await sendChatMessage(services, 'Which platforms are most popular?', { crosstabId: 'missing' });
+
+    expect(result.response).toContain('Failed to fetch crosstab data');
+  });
+});
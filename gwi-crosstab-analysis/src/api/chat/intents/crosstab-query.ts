@@ -0,0 +1,181 @@
+import { z } from 'zod';
+import { intentEntitiesSchema } from '../../../lib/intent-classifier';
+import type { AnalysisConfig, IntentEntities, SuggestedAction, VisualizationData } from '../../../lib/types';
+import { focusCrosstab } from '../crosstab-context';
+import { defineIntentHandler } from '../registry';
+import { generateVisualizations, generateSuggestedActions } from '../visualizations';
+import { ignoreStage, type AnalysisResult, type ChatServices, type StageReporter } from '../types';
+
+/**
+ * Any other question about the selected crosstab, answered from its data
+ */
+export const crosstabQueryHandler = defineIntentHandler({
+  name: 'crosstab-query',
+  intents: ['spark_query', 'unknown'],
+  input: z.object({
+    message: z.string(),
+    selectedCrosstabId: z.string().min(1),
+    wantsChart: z.boolean(),
+    entities: intentEntitiesSchema.default({}),
+  }),
+  async handle({ message, selectedCrosstabId, wantsChart, entities }, { services, config, onStage }) {
+    const result = await handleCrosstabAwareSparkQuery(services, message, selectedCrosstabId, wantsChart, config, onStage, entities);
+    return { ...result, analysisType: 'crosstab_query' };
+  },
+});
+
+// Crosstab-aware query handler - uses local analyzer with actual crosstab data
+async function handleCrosstabAwareSparkQuery(
+  services: ChatServices,
+  message: string,
+  crosstabId: string,
+  includeChart: boolean = false,
+  config?: AnalysisConfig,
+  onStage: StageReporter = ignoreStage,
+  entities?: IntentEntities
+): Promise<AnalysisResult> {
+  const { orchestrator, analyzer, formatter } = services;
+  if (!orchestrator) {
+    return { response: 'The crosstab feature is not configured. Please add the GWI_API_KEY environment variable.' };
+  }
+
+  console.log(`handleCrosstabAwareSparkQuery called with crosstabId: ${crosstabId}, message: "${message}"`);
+
+  try {
+    // Fetch crosstab WITH full data for accurate analysis
+    onStage('fetching', 'Fetching crosstab data...');
+    let crosstab;
+    try {
+      crosstab = await orchestrator.client.getCrosstab(crosstabId, true);
+      console.log(`Fetched crosstab "${crosstab.name}" with ${crosstab.data?.length || 0} data points`);
+    } catch (error) {
+      console.error('Failed to fetch crosstab:', error);
+      return { response: `Failed to fetch crosstab data: ${error instanceof Error ? error.message : 'Unknown error'}` };
+    }
+
+    // Only the markets, waves and audiences the question names
+    const focus = focusCrosstab(crosstab, message, entities);
+    crosstab = focus.crosstab;
+
+    // Build context for response header
+    const context = {
+      name: crosstab.name,
+      markets: crosstab.country_codes || [],
+      waves: crosstab.wave_codes || [],
+      audience: crosstab.bases?.[0]?.name,
+    };
+
+    // Build response header
+    let response = `## ${crosstab.name}\n\n`;
+
+    const contextParts: string[] = [];
+    if (context.markets.length > 0) {
+      contextParts.push(`**Markets:** ${context.markets.slice(0, 5).join(', ')}${context.markets.length > 5 ? ` +${context.markets.length - 5} more` : ''}`);
+    }
+    if (context.waves.length > 0) {
+      contextParts.push(`**Period:** ${context.waves.join(', ')}`);
+    }
+    if (context.audience) {
+      contextParts.push(`**Audience:** ${context.audience}`);
+    }
+    if (contextParts.length > 0) {
+      response += contextParts.join(' | ') + '\n\n';
+    }
+    response += focus.note;
+    if (contextParts.length > 0 || focus.note) {
+      response += '---\n\n';
+    }
+
+    // Analyze the question type to provide relevant insights
+    const lowerMessage = message.toLowerCase();
+    const isMarketingQuestion = lowerMessage.includes('marketing') || lowerMessage.includes('strategy') || lowerMessage.includes('campaign');
+    const isTargetingQuestion = lowerMessage.includes('target') || lowerMessage.includes('reach') || lowerMessage.includes('audience');
+
+    let visualizations: VisualizationData[] = [];
+    let suggestedActions: SuggestedAction[] = [];
+
+    // Use local analyzer if we have data
+    if (crosstab.data && crosstab.data.length > 0) {
+      console.log(`Using local analyzer for question: "${message}"`);
+
+      try {
+        onStage('analyzing', `Analyzing ${crosstab.data.length} data points...`);
+        const analysis = analyzer.analyze(crosstab, config);
+        onStage('formatting', 'Formatting results...');
+
+        if (isMarketingQuestion) {
+          // Focus on actionable marketing insights
+          response += `### Marketing Strategy Insights\n\n`;
+          response += `Based on the analysis of **${crosstab.name}**, here are key insights for your marketing strategy:\n\n`;
+
+          // Top affinities for targeting
+          if (analysis.statistics.overIndexed.length > 0) {
+            response += `#### Top Audience Affinities (High Index = Strong Fit)\n\n`;
+            analysis.statistics.overIndexed.slice(0, 10).forEach((item, i) => {
+              response += `${i + 1}. **${item.label}** - Index: ${item.index}, Reach: ${item.percentage}%\n`;
+            });
+            response += '\n';
+          }
+
+          // Recommendations
+          if (analysis.recommendations.length > 0) {
+            response += `#### Strategic Recommendations\n\n`;
+            analysis.recommendations.forEach((rec, i) => {
+              response += `${i + 1}. **${rec.title}** (${rec.priority} priority)\n   ${rec.description}\n\n`;
+            });
+          }
+
+          // Key insights
+          const highInsights = analysis.insights.filter(i => i.significance === 'high');
+          if (highInsights.length > 0) {
+            response += `#### Key Findings\n\n`;
+            highInsights.slice(0, 5).forEach(insight => {
+              response += `- **${insight.title}**: ${insight.description}\n`;
+            });
+          }
+        } else if (isTargetingQuestion) {
+          // Focus on targeting opportunities
+          response += `### Targeting Opportunities\n\n`;
+
+          if (analysis.statistics.overIndexed.length > 0) {
+            response += `#### High-Index Behaviors (Best for Targeting)\n\n`;
+            analysis.statistics.overIndexed.slice(0, 15).forEach((item, i) => {
+              response += `${i + 1}. **${item.label}**\n   - Index: ${item.index} | Reach: ${item.percentage}% | Sample: ${item.sample}\n`;
+            });
+          }
+        } else {
+          // General analysis
+          response += formatter.formatAnalysis(crosstab, analysis);
+        }
+
+        // Generate visualizations
+        visualizations = generateVisualizations(analysis, crosstab);
+
+        // Generate suggested actions
+        const hasMultipleMarkets = (crosstab.country_codes?.length || 0) > 1;
+        suggestedActions = generateSuggestedActions(analysis, crosstab.name, hasMultipleMarkets, crosstab.id);
+
+        // Remove "Show Chart" if already showing or if user asked for one
+        if (includeChart) {
+          suggestedActions = suggestedActions.filter(a => a.id !== 'show-chart');
+        }
+
+        return {
+          response,
+          visualizations: visualizations.length > 0 ? visualizations : undefined,
+          suggestedActions: suggestedActions.length > 0 ? suggestedActions : undefined,
+        };
+      } catch (analysisError) {
+        console.error('Local analysis failed:', analysisError);
+        response += `*Analysis error: ${analysisError instanceof Error ? analysisError.message : 'Unknown error'}*\n`;
+      }
+    } else {
+      response += '*No data available for this crosstab. The crosstab configuration was loaded but no data points were returned.*\n';
+    }
+
+    return { response };
+  } catch (error) {
+    console.error('Crosstab-aware query error:', error);
+    return { response: `I encountered an error analyzing the crosstab: ${error instanceof Error ? error.message : 'Unknown error'}. Please try rephrasing your question.` };
+  }
+}
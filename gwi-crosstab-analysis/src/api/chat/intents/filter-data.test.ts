@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { createStubServices, sendChatMessage } from '../../../test/chat';
+import { makeCrosstab } from '../../../test/fixtures';
+import { createSession } from '../../../lib/session-store';
+
+const crosstab = { ...makeCrosstab({ markets: ['gb', 'us'] }), id: 'xt-1', uuid: 'xt-1' };
+
+describe('filter-data handler', () => {
+  it('filters the selected crosstab and keeps the query on the session', async () => {
+    const { services } = createStubServices({ crosstabs: [crosstab] });
+    const session = createSession('test-owner');
+
+    const { handler, result } = await sendChatMessage(services, 'Show rows with index above 120', { crosstabId: 'xt-1', session });
+
+    expect(handler).toBe('filter-data');
+    expect(result.response).toContain(`## ${crosstab.name}: Filtered Data`);
+    expect(session.dataQuery).toEqual({ crosstabId: 'xt-1', query: { thresholds: { minIndex: 120 } } });
+  });
+
+  it('refines the open query with an "only …" follow-up', async () => {
+    const { services } = createStubServices({ crosstabs: [crosstab] });
+    const session = createSession('test-owner');
+
+    await sendChatMessage(services, 'Show rows with index above 120', { crosstabId: 'xt-1', session });
+    const { handler } = await sendChatMessage(services, 'only in the US', { crosstabId: 'xt-1', session });
+
+    expect(handler).toBe('filter-data');
+    expect(session.dataQuery?.query).toMatchObject({ thresholds: { minIndex: 120 }, slice: { markets: ['us'] } });
+  });
+
+  it('starts over on "clear filters"', async () => {
+    const { services } = createStubServices({ crosstabs: [crosstab] });
+    const session = createSession('test-owner');
+
+    await sendChatMessage(services, 'Show rows with index above 120', { crosstabId: 'xt-1', session });
+    const { result } = await sendChatMessage(services, 'clear filters', { crosstabId: 'xt-1', session });
+
+    expect(result.response).toContain('Filters Cleared');
+    expect(session.dataQuery?.query.thresholds).toBeUndefined();
+  });
+});
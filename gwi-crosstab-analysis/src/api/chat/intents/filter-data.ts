@@ -0,0 +1,190 @@
+import { z } from 'zod';
+import { intentEntitiesSchema } from '../../../lib/intent-classifier';
+import { resolveAnalysisConfig } from '../../../lib/analysis-config';
+import { parseDataQuery, mergeDataQuery, runDataQuery, describeDataQuery, getMetric, isClearFiltersRequest } from '../../../lib/data-query';
+import type { AnalysisConfig, Crosstab, ChatSession, DataQueryResult, IntentEntities, SuggestedAction, VisualizationData } from '../../../lib/types';
+import { defineIntentHandler } from '../registry';
+import { truncateLabel } from '../visualizations';
+import { ignoreStage, type AnalysisResult, type ChatServices, type StageReporter } from '../types';
+
+export const filterDataHandler = defineIntentHandler({
+  name: 'filter-data',
+  intents: ['filter_data'],
+  input: z.object({
+    message: z.string(),
+    crosstabId: z.string().min(1),
+    entities: intentEntitiesSchema.default({}),
+  }),
+  async handle({ message, crosstabId, entities }, { services, config, onStage, session }) {
+    return handleDataQueryIntent(services, message, crosstabId, config, onStage, session, entities);
+  },
+});
+
+/**
+ * Filter and rank the selected crosstab's cells ("index above 150 with reach
+ * over 20%", "bottom 10 in the US"). The query is kept on the session, so the
+ * next "only …" follow-up narrows these results instead of starting over.
+ */
+async function handleDataQueryIntent(
+  services: ChatServices,
+  message: string,
+  crosstabId: string,
+  config?: AnalysisConfig,
+  onStage: StageReporter = ignoreStage,
+  session: ChatSession | null = null,
+  entities?: IntentEntities
+): Promise<AnalysisResult> {
+  const { orchestrator, analyzer, formatter } = services;
+  if (!orchestrator) {
+    return { response: 'The crosstab feature is not configured. Please add the GWI_API_KEY environment variable.' };
+  }
+
+  onStage('fetching', 'Fetching crosstab data...');
+  let crosstab;
+  try {
+    crosstab = await orchestrator.client.getCrosstab(crosstabId, true);
+  } catch (error) {
+    console.error('Failed to fetch crosstab:', error);
+    return { response: `Failed to fetch crosstab data: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  }
+
+  if (!crosstab.data || crosstab.data.length === 0) {
+    return { response: '*No data available for this crosstab. The crosstab configuration was loaded but no data points were returned.*\n' };
+  }
+
+  const cleared = isClearFiltersRequest(message);
+  const previous = !cleared && session?.dataQuery?.crosstabId === crosstabId ? session.dataQuery.query : undefined;
+  const parsed = parseDataQuery(message, crosstab, entities);
+  const query = previous ? mergeDataQuery(previous, parsed) : parsed;
+  console.log(`Data query${previous ? ' (refined)' : ''}: ${describeDataQuery(query, crosstab)}`);
+
+  onStage('analyzing', `Filtering ${crosstab.data.length} data points...`);
+  // Significance feeds "only significant" and the table
+  const resolvedConfig = config ?? resolveAnalysisConfig();
+  analyzer.annotateSignificance(crosstab, resolvedConfig);
+  const result = runDataQuery(crosstab, query, resolvedConfig);
+  if (session) {
+    session.dataQuery = { crosstabId, query };
+  }
+
+  onStage('formatting', 'Formatting results...');
+  let response = `## ${crosstab.name}: ${cleared ? 'Filters Cleared' : 'Filtered Data'}\n\n`;
+  response += formatter.formatDataQueryResult(crosstab, result);
+  if (result.matched > 0) {
+    response += `\n*Follow up with "only …" to narrow these results, or "clear filters" to start over.*\n`;
+  }
+
+  const visualizations = generateDataQueryVisualizations(crosstab, result);
+  return {
+    response,
+    visualizations: visualizations.length > 0 ? visualizations : undefined,
+    suggestedActions: generateDataQueryActions(result),
+  };
+}
+
+/**
+ * Bar chart of the first matches on the metric they are ranked by, plus the
+ * matching cells as a table
+ */
+function generateDataQueryVisualizations(crosstab: Crosstab, result: DataQueryResult): VisualizationData[] {
+  if (result.rows.length === 0) return [];
+
+  const metric = result.query.sortBy ?? 'index';
+  const filters = describeDataQuery(result.query, crosstab);
+  const spans = (values: (string | undefined)[]) => new Set(values).size > 1;
+  const showAudience = spans(result.rows.map(r => r.audience));
+  const showMarket = spans(result.rows.map(r => r.location));
+  const chartRows = result.rows.slice(0, 15);
+
+  return [
+    {
+      id: 'data-query-chart',
+      type: 'horizontalBar',
+      title: result.query.order === 'bottom' ? 'Lowest Matches' : 'Top Matches',
+      subtitle: filters,
+      data: chartRows.map(row => ({
+        label: truncateLabel([
+          row.label,
+          showAudience ? row.audienceLabel : undefined,
+          showMarket ? row.location?.toUpperCase() : undefined,
+        ].filter(Boolean).join(' · '), 35),
+        value: Math.round(getMetric(row, metric) * 10) / 10,
+        percentage: row.metrics.audience_percentage,
+        sample: row.metrics.positive_sample,
+      })),
+      config: {
+        xAxisLabel: metric === 'index' ? 'Index' : metric === 'reach' ? 'Audience %' : 'Sample',
+        yAxisLabel: 'Behavior',
+        referenceValue: metric === 'index' ? 100 : undefined,
+        showPercentage: metric === 'reach',
+        maxItems: chartRows.length,
+        colorScheme: result.query.order === 'bottom' ? 'red' : 'blue',
+      },
+    },
+    {
+      id: 'data-query-table',
+      type: 'table',
+      title: 'Matching Cells',
+      subtitle: filters,
+      data: [],
+      table: {
+        rows: result.rows,
+        minSample: result.minSample,
+        markets: Array.from(new Set(result.rows.map(r => r.location).filter((l): l is string => !!l))),
+        waves: crosstab.wave_codes.filter(wave => result.rows.some(r => r.wave === wave)),
+      },
+    },
+  ];
+}
+
+/**
+ * Follow-ups that refine the open query
+ */
+function generateDataQueryActions(result: DataQueryResult): SuggestedAction[] {
+  const { query } = result;
+  const actions: SuggestedAction[] = [];
+
+  if (result.matched > 0 && !query.significantOnly) {
+    actions.push({
+      id: 'query-significant',
+      label: 'Only Significant',
+      description: 'Keep the matches whose index is statistically significant',
+      prompt: 'Only significant ones',
+      icon: 'filter',
+      category: 'drill-down',
+    });
+  }
+
+  if (result.matched > 0 && query.sortBy !== 'reach') {
+    actions.push({
+      id: 'query-by-reach',
+      label: 'Top 10 by Reach',
+      description: 'Rank these matches by audience %',
+      prompt: 'Top 10 by reach',
+      icon: 'chart',
+      category: 'drill-down',
+    });
+  }
+
+  if (result.matched > 0 && query.order !== 'bottom') {
+    actions.push({
+      id: 'query-bottom',
+      label: 'Bottom 10',
+      description: 'The lowest-indexing matches',
+      prompt: 'Bottom 10 by index',
+      icon: 'filter',
+      category: 'drill-down',
+    });
+  }
+
+  actions.push({
+    id: 'query-clear',
+    label: 'Clear Filters',
+    description: 'Start again from every cell',
+    prompt: 'Clear filters',
+    icon: 'filter',
+    category: 'drill-down',
+  });
+
+  return actions;
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { createStubServices, sendChatMessage } from '../../../test/chat';
+
+describe('help handler', () => {
+  it('describes the features that are configured', async () => {
+    const { services } = createStubServices({ spark: false });
+
+    const { handler, result } = await sendChatMessage(services, 'help');
+
+    expect(handler).toBe('help');
+    expect(result.response).toContain('## Crosstab Analysis');
+    expect(result.response).not.toContain('## AI-Powered GWI Queries');
+  });
+
+  it('points at the missing keys when nothing is configured', async () => {
+    const { services } = createStubServices({ gwi: false, spark: false });
+
+    const { result } = await sendChatMessage(services, 'What can you do?');
+
+    expect(result.response).toContain('No API keys are configured');
+  });
+});
@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { defineIntentHandler } from '../registry';
+import type { ChatServices } from '../types';
+
+export const helpHandler = defineIntentHandler({
+  name: 'help',
+  intents: ['help'],
+  input: z.object({}),
+  async handle(_input, { services }) {
+    return { response: getHelpResponse(services) };
+  },
+});
+
+function getHelpResponse({ orchestrator, sparkClient }: ChatServices): string {
+  const hasSparkAPI = !!sparkClient;
+  const hasCrosstabAPI = !!orchestrator;
+
+  let response = `# How to Use GWI Crosstab Analysis
+
+I can help you with GWI data in multiple ways:\n\n`;
+
+  if (hasCrosstabAPI) {
+    response += `## Crosstab Analysis
+- "What crosstabs do I have?"
+- "Show me social media crosstabs"
+- "Analyze [crosstab name]"
+- "What are the key insights?"
+- Click a crosstab in the sidebar to set context\n\n`;
+  }
+
+  if (hasSparkAPI) {
+    response += `## AI-Powered GWI Queries
+Ask questions about GWI data in natural language:
+- "What percentage of Gen Z use TikTok daily?"
+- "How do millennials in the UK differ from Germany?"
+- "What are the top social platforms for gamers?"
+- "Compare attitudes toward sustainability by age group"
+- "What drives purchase decisions for luxury brands?"\n\n`;
+  }
+
+  response += `## Tips
+- I'll automatically route your question to the right data source
+- For crosstab analysis, select one from the sidebar first
+- For general GWI questions, just ask naturally\n\n`;
+
+  if (!hasCrosstabAPI && !hasSparkAPI) {
+    response += `**Note**: No API keys are configured. Please add GWI_API_KEY and/or GWI_MCP_KEY environment variables.\n`;
+  }
+
+  response += `What would you like to explore?`;
+
+  return response;
+}
@@ -0,0 +1,41 @@
+import { IntentRegistry } from '../registry';
+import { listHandler, showMoreHandler } from './list';
+import { analyzeHandler, searchAndAnalyzeHandler } from './analyze';
+import { compareHandler } from './compare';
+import { filterDataHandler } from './filter-data';
+import { helpHandler } from './help';
+import { crosstabQueryHandler } from './crosstab-query';
+import { sparkHandler } from './spark';
+import { discoveryPromptHandler } from './prompts/discovery';
+import { audiencePromptHandler } from './prompts/audience';
+import { strategyPromptHandler } from './prompts/strategy';
+import { trendsPromptHandler } from './prompts/trends';
+import { marketsPromptHandler } from './prompts/markets';
+import { sparkPromptHandler } from './prompts/spark';
+import { analysisPromptHandler } from './prompts/analysis';
+
+/**
+ * The chat's intent handlers. Order matters where handlers share an intent:
+ * category prompts before the catch-all analysis prompt, and questions about
+ * the selected crosstab before Spark, which takes whatever is left.
+ */
+export function createChatIntentRegistry(): IntentRegistry {
+  return new IntentRegistry().register(
+    discoveryPromptHandler,
+    audiencePromptHandler,
+    strategyPromptHandler,
+    trendsPromptHandler,
+    marketsPromptHandler,
+    sparkPromptHandler,
+    analysisPromptHandler,
+    listHandler,
+    showMoreHandler,
+    analyzeHandler,
+    searchAndAnalyzeHandler,
+    compareHandler,
+    filterDataHandler,
+    helpHandler,
+    crosstabQueryHandler,
+    sparkHandler,
+  );
+}
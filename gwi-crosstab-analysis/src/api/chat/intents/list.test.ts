@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { createStubServices, sendChatMessage } from '../../../test/chat';
+import { makeCrosstab } from '../../../test/fixtures';
+
+const crosstabs = Array.from({ length: 25 }, (_, i) => ({
+  ...makeCrosstab({ rows: 1 }),
+  id: `xt-${i + 1}`,
+  uuid: `xt-${i + 1}`,
+  name: i % 2 === 0 ? `Gaming wave ${i + 1}` : `Travel wave ${i + 1}`,
+}));
+
+describe('list handler', () => {
+  it('lists the first page of crosstabs with paging actions', async () => {
+    const { services } = createStubServices({ crosstabs });
+
+    const { handler, result } = await sendChatMessage(services, 'What crosstabs do I have?');
+
+    expect(handler).toBe('list');
+    expect(result.crosstabs).toHaveLength(10);
+    expect(result.crosstabs?.[0]).toEqual({ id: 'xt-1', name: 'Gaming wave 1' });
+    expect(result.suggestedActions?.map(a => a.id)).toEqual(expect.arrayContaining(['show-more-crosstabs', 'show-all-crosstabs']));
+  });
+
+  it('searches by the term the message names', async () => {
+    const { services, calls } = createStubServices({ crosstabs });
+
+    const { result } = await sendChatMessage(services, 'List crosstabs about travel');
+
+    expect(calls.searchCrosstabs).toEqual(['travel']);
+    expect(result.response).toContain('Found 12 crosstabs matching "travel"');
+  });
+
+  it('explains when nothing is configured', async () => {
+    const { services } = createStubServices({ gwi: false });
+
+    const { result } = await sendChatMessage(services, 'List my crosstabs');
+
+    expect(result.response).toContain('GWI_API_KEY');
+  });
+});
+
+describe('show-more handler', () => {
+  it('pages from the offset in the message', async () => {
+    const { services } = createStubServices({ crosstabs });
+
+    const { handler, result } = await sendChatMessage(services, 'Show more crosstabs from 10');
+
+    expect(handler).toBe('show-more');
+    expect(result.response).toContain('Showing crosstabs 11-20 of 25');
+    expect(result.crosstabs?.map(c => c.id)).toEqual(crosstabs.slice(10, 20).map(c => c.id));
+  });
+});
@@ -0,0 +1,168 @@
+import { z } from 'zod';
+import type { CrosstabAnalysisOrchestrator } from '../../../lib/orchestrator';
+import type { SuggestedAction } from '../../../lib/types';
+import { defineIntentHandler } from '../registry';
+import { ignoreStage, type StageReporter } from '../types';
+
+export const listHandler = defineIntentHandler({
+  name: 'list',
+  intents: ['list_crosstabs'],
+  input: z.object({ searchTerm: z.string().optional() }),
+  async handle({ searchTerm }, { services, onStage }) {
+    return handleListIntentWithData(services.orchestrator, searchTerm, 0, 10, onStage);
+  },
+});
+
+export const showMoreHandler = defineIntentHandler({
+  name: 'show-more',
+  intents: ['show_more_crosstabs'],
+  input: z.object({
+    message: z.string(),
+    offset: z.number().int().min(0).optional(),
+  }),
+  async handle({ message, offset }, { services, onStage }) {
+    // Check if "show all" was requested
+    const showAll = message.toLowerCase().includes('show all');
+    const limit = showAll ? 100 : 10;
+    return handleListIntentWithData(services.orchestrator, undefined, offset || 10, limit, onStage);
+  },
+});
+
+// Returns both response text and crosstabs data for UI rendering
+export async function handleListIntentWithData(
+  orchestrator: CrosstabAnalysisOrchestrator | null,
+  searchTerm?: string,
+  offset: number = 0,
+  limit: number = 10,
+  onStage: StageReporter = ignoreStage
+): Promise<{
+  response: string;
+  crosstabs: Array<{ id: string; name: string }> | null;
+  suggestedActions?: SuggestedAction[];
+  totalCount?: number;
+  hasMore?: boolean;
+}> {
+  if (!orchestrator) {
+    return {
+      response: 'The crosstab feature is not configured. Please add the GWI_API_KEY environment variable.',
+      crosstabs: null
+    };
+  }
+
+  onStage('fetching', searchTerm ? `Searching crosstabs for "${searchTerm}"...` : 'Loading your crosstabs...');
+  const crosstabs = searchTerm
+    ? await orchestrator.client.searchCrosstabs(searchTerm)
+    : await orchestrator.client.listCrosstabs();
+
+  if (crosstabs.length === 0) {
+    const baseMessage = searchTerm
+      ? `No crosstabs found matching "${searchTerm}".`
+      : 'No saved crosstabs found in your account.';
+
+    return {
+      response: `${baseMessage}\n\nThis could mean:\n- The API key doesn't have access to any saved crosstabs\n- No crosstabs have been created in this account\n- The API key may need different permissions\n\nYou can try using the **GWI Data Queries** prompts to ask questions about GWI data directly.`,
+      crosstabs: null
+    };
+  }
+
+  const totalCount = crosstabs.length;
+  const endIndex = Math.min(offset + limit, totalCount);
+  const hasMore = endIndex < totalCount;
+
+  // Return crosstabs data for UI to render as buttons (with pagination)
+  const crosstabsData = crosstabs.slice(offset, endIndex).map(ct => ({
+    id: ct.id,
+    name: ct.name
+  }));
+
+  let response = '';
+  if (offset === 0) {
+    response = searchTerm
+      ? `Found ${totalCount} crosstab${totalCount > 1 ? 's' : ''} matching "${searchTerm}":\n\n`
+      : `You have ${totalCount} crosstab${totalCount > 1 ? 's' : ''}. Click one below to select it for analysis:\n\n`;
+  } else {
+    response = `Showing crosstabs ${offset + 1}-${endIndex} of ${totalCount}:\n\n`;
+  }
+
+  // Debug: Log the crosstabs data being returned
+  console.log('handleListIntentWithData - crosstabs fetched:', crosstabs.length);
+  console.log('handleListIntentWithData - offset:', offset, 'limit:', limit, 'hasMore:', hasMore);
+
+  if (hasMore) {
+    response += `\n*Showing ${offset + 1}-${endIndex} of ${totalCount} crosstabs*\n`;
+  }
+
+  // Add suggested action to show more if there are more crosstabs
+  const suggestedActions: SuggestedAction[] = [];
+
+  // Add guidance actions on first page
+  if (offset === 0) {
+    suggestedActions.push({
+      id: 'search-crosstabs',
+      label: 'Search Crosstabs',
+      description: 'Find a specific crosstab by name',
+      prompt: 'Search for crosstabs about ',
+      icon: 'filter',
+      category: 'analysis',
+    });
+
+    suggestedActions.push({
+      id: 'gwi-data-query',
+      label: 'Ask GWI Data Question',
+      description: 'Query GWI data directly without a crosstab',
+      prompt: 'What percentage of Gen Z use TikTok daily?',
+      icon: 'chart',
+      category: 'analysis',
+    });
+
+    suggestedActions.push({
+      id: 'compare-audiences',
+      label: 'Compare Audiences',
+      description: 'Learn how to compare different segments',
+      prompt: 'How can I compare different audience segments?',
+      icon: 'compare',
+      category: 'analysis',
+    });
+
+    suggestedActions.push({
+      id: 'get-help',
+      label: 'What Can I Do?',
+      description: 'Learn about available features',
+      prompt: 'What can you help me with?',
+      icon: 'target',
+      category: 'drill-down',
+    });
+  }
+
+  // Pagination: Show more
+  if (hasMore) {
+    suggestedActions.push({
+      id: 'show-more-crosstabs',
+      label: `Show More (${endIndex + 1}-${Math.min(endIndex + limit, totalCount)})`,
+      description: `View the next ${Math.min(limit, totalCount - endIndex)} crosstabs`,
+      prompt: `Show more crosstabs from ${endIndex}`,
+      icon: 'chart',
+      category: 'drill-down',
+    });
+  }
+
+  // Add "Show all" option if there are many crosstabs
+  if (totalCount > 20 && offset === 0) {
+    suggestedActions.push({
+      id: 'show-all-crosstabs',
+      label: `Show All ${totalCount} Crosstabs`,
+      description: 'View the complete list',
+      prompt: 'Show all crosstabs',
+      icon: 'export',
+      category: 'export',
+    });
+  }
+
+  return {
+    response,
+    crosstabs: crosstabsData,
+    suggestedActions: suggestedActions.length > 0 ? suggestedActions : undefined,
+    totalCount,
+    hasMore,
+  };
+}
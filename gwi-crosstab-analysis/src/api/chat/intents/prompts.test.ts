@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { createStubServices, sendChatMessage } from '../../../test/chat';
+import { makeCrosstab } from '../../../test/fixtures';
+import type { PromptMetadata } from '../../../lib/types';
+
+const crosstab = { ...makeCrosstab({ markets: ['gb', 'us'], waves: ['q2_2024', 'q3_2024'], audiences: ['Gen Z', 'Millennials'] }), id: 'xt-1', uuid: 'xt-1' };
+
+const prompt = (promptCategory: PromptMetadata['promptCategory']): PromptMetadata => ({
+  promptId: `${promptCategory}-1`,
+  promptTitle: `${promptCategory} prompt`,
+  promptCategory,
+});
+
+describe('prompt library handlers', () => {
+  it.each([
+    ['discovery', 'prompt-discovery'],
+    ['audience', 'prompt-audience'],
+    ['strategy', 'prompt-strategy'],
+    ['trends', 'prompt-trends'],
+    ['markets', 'prompt-markets'],
+    ['spark', 'prompt-spark'],
+    ['analysis', 'prompt-analysis'],
+    ['suggested', 'prompt-analysis'],
+  ] as const)('routes %s prompts to %s', async (category, name) => {
+    const { services } = createStubServices({ crosstabs: [crosstab] });
+
+    const { handler, result } = await sendChatMessage(services, 'Tell me about this audience', { crosstabId: 'xt-1', promptMetadata: prompt(category) });
+
+    expect(handler).toBe(name);
+    expect(result.analysisType).toBe(`prompt_${category}`);
+    expect(result.response.length).toBeGreaterThan(0);
+  });
+
+  it('focuses the crosstab on what the prompt names', async () => {
+    const { services } = createStubServices({ crosstabs: [crosstab] });
+
+    const { result } = await sendChatMessage(services, 'What stands out in the UK?', { crosstabId: 'xt-1', promptMetadata: prompt('discovery') });
+
+    expect(result.response).toContain('*Focused on UK*');
+  });
+
+  it('needs a selected crosstab', async () => {
+    const { services } = createStubServices({ crosstabs: [crosstab] });
+
+    const { handler } = await sendChatMessage(services, 'Tell me about this audience', { promptMetadata: prompt('audience') });
+
+    expect(handler).not.toMatch(/^prompt-/);
+  });
+});
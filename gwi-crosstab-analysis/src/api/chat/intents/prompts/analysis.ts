@@ -0,0 +1,43 @@
+import { generateVisualizations, generateSuggestedActions } from '../../visualizations';
+import type { AnalysisResult, ChatServices } from '../../types';
+import { definePromptHandler, type PromptAnalysis } from './shared';
+
+/**
+ * Analysis prompts, and prompts of any category without a handler of its own
+ */
+export const analysisPromptHandler = definePromptHandler('prompt-analysis', undefined, (prompt, { services }) => formatDefaultAnalysis(prompt, services));
+
+/**
+ * Default analysis format (fallback)
+ */
+export function formatDefaultAnalysis({ crosstab, analysis, context, includeChart, hasMultipleMarkets }: PromptAnalysis, { formatter }: ChatServices): AnalysisResult {
+  let response = `## ${crosstab.name}\n\n`;
+
+  // Add context header
+  const contextParts: string[] = [];
+  if (context.markets.length > 0) {
+    contextParts.push(`**Markets:** ${context.markets.slice(0, 5).join(', ')}${context.markets.length > 5 ? ` +${context.markets.length - 5} more` : ''}`);
+  }
+  if (context.waves.length > 0) {
+    contextParts.push(`**Period:** ${context.waves.join(', ')}`);
+  }
+  if (context.audiences.length > 0) {
+    contextParts.push(`**Audience:** ${context.audiences.join(', ')}`);
+  }
+  if (contextParts.length > 0) {
+    response += contextParts.join(' | ') + '\n\n---\n\n';
+  }
+
+  // Use the formatter for full analysis
+  response += formatter.formatAnalysis(crosstab, analysis);
+
+  const visualizations = generateVisualizations(analysis, crosstab);
+  const suggestedActions = generateSuggestedActions(analysis, crosstab.name, hasMultipleMarkets, crosstab.id);
+
+  // Remove "Show Chart" if already showing
+  const filteredActions = includeChart
+    ? suggestedActions.filter(a => a.id !== 'show-chart')
+    : suggestedActions;
+
+  return { response, visualizations, suggestedActions: filteredActions };
+}
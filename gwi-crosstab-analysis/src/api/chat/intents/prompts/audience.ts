@@ -0,0 +1,116 @@
+import type { SuggestedAction } from '../../../../lib/types';
+import { generateVisualizations } from '../../visualizations';
+import type { AnalysisResult } from '../../types';
+import { categorizeBehaviors } from './behaviors';
+import { definePromptHandler, type PromptAnalysis } from './shared';
+
+export const audiencePromptHandler = definePromptHandler('prompt-audience', 'audience', prompt => formatAudienceAnalysis(prompt));
+
+/**
+ * Format audience-focused analysis (personas, segments, profiles)
+ */
+function formatAudienceAnalysis({ crosstab, analysis, context }: PromptAnalysis): AnalysisResult {
+  let response = `## Audience Analysis: ${crosstab.name}\n\n`;
+
+  // Add context header
+  const contextParts: string[] = [];
+  if (context.markets.length > 0) {
+    contextParts.push(`**Markets:** ${context.markets.slice(0, 3).join(', ')}`);
+  }
+  if (context.audiences.length > 0) {
+    contextParts.push(`**Target Audience:** ${context.audiences.join(', ')}`);
+  }
+  if (contextParts.length > 0) {
+    response += contextParts.join(' | ') + '\n\n---\n\n';
+  }
+
+  // Audience profile
+  response += `### 👥 Audience Profile\n\n`;
+
+  // Demographics/attitudes from high-index items
+  const topBehaviors = analysis.statistics.topIndexes.slice(0, 15);
+  const categories = categorizeBehaviors(topBehaviors);
+
+  if (categories.lifestyle.length > 0) {
+    response += `**Lifestyle & Interests:**\n`;
+    categories.lifestyle.slice(0, 5).forEach(item => {
+      response += `- ${item.label} (Index: ${item.index})\n`;
+    });
+    response += '\n';
+  }
+
+  if (categories.media.length > 0) {
+    response += `**Media Consumption:**\n`;
+    categories.media.slice(0, 5).forEach(item => {
+      response += `- ${item.label} (Index: ${item.index})\n`;
+    });
+    response += '\n';
+  }
+
+  if (categories.shopping.length > 0) {
+    response += `**Shopping Behavior:**\n`;
+    categories.shopping.slice(0, 5).forEach(item => {
+      response += `- ${item.label} (Index: ${item.index})\n`;
+    });
+    response += '\n';
+  }
+
+  // Key differentiators
+  if (analysis.statistics.overIndexed.length > 0 && analysis.statistics.underIndexed.length > 0) {
+    response += `### 🎯 Key Differentiators\n\n`;
+    response += `**What sets this audience apart:**\n`;
+    analysis.statistics.overIndexed.slice(0, 5).forEach(item => {
+      response += `- ✅ ${item.label} (${item.index - 100}% above average)\n`;
+    });
+    response += '\n';
+    response += `**What they're less likely to do:**\n`;
+    analysis.statistics.underIndexed.slice(0, 3).forEach(item => {
+      response += `- ❌ ${item.label} (${100 - item.index}% below average)\n`;
+    });
+    response += '\n';
+  }
+
+  // Engagement recommendations
+  response += `### 💡 Engagement Recommendations\n\n`;
+  if (analysis.recommendations.length > 0) {
+    analysis.recommendations.slice(0, 3).forEach((rec, i) => {
+      response += `${i + 1}. **${rec.title}**: ${rec.description}\n`;
+    });
+  } else {
+    response += `Based on the audience profile, consider:\n`;
+    response += `- Targeting through their top media channels\n`;
+    response += `- Aligning messaging with their key interests\n`;
+    response += `- Avoiding messaging that doesn't resonate\n`;
+  }
+
+  const visualizations = generateVisualizations(analysis, crosstab);
+
+  const suggestedActions: SuggestedAction[] = [
+    {
+      id: 'social-strategy',
+      label: 'Social Media Strategy',
+      description: 'Platform-specific recommendations',
+      prompt: 'Which social media platforms should I prioritize for this audience and what content would resonate?',
+      icon: 'chart',
+      category: 'analysis',
+    },
+    {
+      id: 'content-themes',
+      label: 'Content Themes',
+      description: 'Topics that resonate',
+      prompt: 'What content themes and messaging would resonate most with this audience?',
+      icon: 'chart',
+      category: 'analysis',
+    },
+    {
+      id: 'campaign-ideas',
+      label: 'Campaign Ideas',
+      description: 'Creative concepts',
+      prompt: 'Based on this audience data, give me 3 creative campaign ideas that would resonate with them',
+      icon: 'target',
+      category: 'analysis',
+    },
+  ];
+
+  return { response, visualizations, suggestedActions };
+}
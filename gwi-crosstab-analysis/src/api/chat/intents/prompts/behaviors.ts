@@ -0,0 +1,58 @@
+import { categorize } from '../../../../lib/taxonomy';
+import type { IndexedItem } from '../../../../lib/types';
+
+/**
+ * Categorize behaviors into groups for better analysis
+ */
+export function categorizeBehaviors(behaviors: IndexedItem[]): {
+  social: IndexedItem[];
+  media: IndexedItem[];
+  shopping: IndexedItem[];
+  lifestyle: IndexedItem[];
+  other: IndexedItem[];
+} {
+  const result = {
+    social: [] as IndexedItem[],
+    media: [] as IndexedItem[],
+    shopping: [] as IndexedItem[],
+    lifestyle: [] as IndexedItem[],
+    other: [] as IndexedItem[],
+  };
+
+  behaviors.forEach(item => {
+    // Items from the analyzer carry their category; anything else is matched on its label
+    const match = item.category
+      ? { category: item.category, subcategory: item.subcategory }
+      : categorize({ name: item.label });
+
+    if (match?.category === 'media' && match.subcategory === 'social') {
+      result.social.push(item);
+    } else if (match?.category === 'media') {
+      result.media.push(item);
+    } else if (match?.category === 'purchase' || match?.category === 'brands') {
+      result.shopping.push(item);
+    } else if (match?.category === 'interests') {
+      result.lifestyle.push(item);
+    } else {
+      result.other.push(item);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Format content recommendation based on media type
+ */
+export function formatContentRecommendation(label: string): string {
+  const lower = label.toLowerCase();
+
+  if (/video|youtube|stream/i.test(lower)) return 'video content and tutorials';
+  if (/podcast/i.test(lower)) return 'podcast sponsorships or audio content';
+  if (/music|spotify/i.test(lower)) return 'audio branding and playlists';
+  if (/gaming/i.test(lower)) return 'gaming integrations and influencer partnerships';
+  if (/news/i.test(lower)) return 'news-style content and timely updates';
+  if (/tv/i.test(lower)) return 'longer-form video or TV-style content';
+
+  return 'content aligned with their media preferences';
+}
@@ -0,0 +1,90 @@
+import type { SuggestedAction } from '../../../../lib/types';
+import { generateVisualizations } from '../../visualizations';
+import type { AnalysisResult } from '../../types';
+import { definePromptHandler, type PromptAnalysis } from './shared';
+
+export const discoveryPromptHandler = definePromptHandler('prompt-discovery', 'discovery', prompt => formatDiscoveryAnalysis(prompt));
+
+/**
+ * Format discovery-focused analysis (overview, structure, content types)
+ */
+function formatDiscoveryAnalysis({ crosstab, analysis, context }: PromptAnalysis): AnalysisResult {
+  let response = `## ${crosstab.name}\n\n`;
+
+  // Add context header
+  const contextParts: string[] = [];
+  if (context.markets.length > 0) {
+    contextParts.push(`**Markets:** ${context.markets.slice(0, 5).join(', ')}${context.markets.length > 5 ? ` +${context.markets.length - 5} more` : ''}`);
+  }
+  if (context.waves.length > 0) {
+    contextParts.push(`**Period:** ${context.waves.join(', ')}`);
+  }
+  if (context.audiences.length > 0) {
+    contextParts.push(`**Audience:** ${context.audiences.join(', ')}`);
+  }
+  if (contextParts.length > 0) {
+    response += contextParts.join(' | ') + '\n\n---\n\n';
+  }
+
+  response += `### 📊 Overview\n\n`;
+  response += `This crosstab contains **${crosstab.data?.length || 0}** data points analyzing audience behaviors and attitudes.\n\n`;
+
+  // Structure overview
+  if (context.rows.length > 0 || context.columns.length > 0) {
+    response += `### 📋 Structure\n\n`;
+    if (context.rows.length > 0) {
+      response += `**Rows (Questions):** ${context.rows.slice(0, 5).join(', ')}${context.rows.length > 5 ? `... +${context.rows.length - 5} more` : ''}\n\n`;
+    }
+    if (context.columns.length > 0) {
+      response += `**Columns (Segments):** ${context.columns.slice(0, 5).join(', ')}${context.columns.length > 5 ? `... +${context.columns.length - 5} more` : ''}\n\n`;
+    }
+  }
+
+  // Key findings summary
+  response += `### 🔍 Key Findings Summary\n\n`;
+  response += `- **Over-indexed behaviors:** ${analysis.statistics.overIndexed.length} (index ≥ ${analysis.config.overIndex})\n`;
+  response += `- **Under-indexed behaviors:** ${analysis.statistics.underIndexed.length} (index ≤ ${analysis.config.underIndex})\n`;
+  response += `- **High significance insights:** ${analysis.insights.filter(i => i.significance === 'high').length}\n\n`;
+
+  // Top 5 standout findings
+  if (analysis.statistics.topIndexes.length > 0) {
+    response += `### ⭐ Top Standout Behaviors\n\n`;
+    analysis.statistics.topIndexes.slice(0, 5).forEach((item, i) => {
+      response += `${i + 1}. **${item.label}** — Index: ${item.index}, Reach: ${item.percentage}%\n`;
+    });
+    response += '\n';
+  }
+
+  // Generate visualizations
+  const visualizations = generateVisualizations(analysis, crosstab);
+
+  // Suggested actions for discovery
+  const suggestedActions: SuggestedAction[] = [
+    {
+      id: 'audience-profile',
+      label: 'Create Audience Profile',
+      description: 'Generate a detailed persona',
+      prompt: 'Create a detailed audience persona based on this data, including demographics, interests, and behaviors',
+      icon: 'target',
+      category: 'analysis',
+    },
+    {
+      id: 'marketing-strategy',
+      label: 'Marketing Strategy',
+      description: 'Get actionable recommendations',
+      prompt: 'Based on this analysis, what marketing strategy would you recommend?',
+      icon: 'target',
+      category: 'analysis',
+    },
+    {
+      id: 'targeting-opportunities',
+      label: 'Targeting Opportunities',
+      description: 'Find the best segments',
+      prompt: 'What are the best targeting opportunities based on this data?',
+      icon: 'filter',
+      category: 'drill-down',
+    },
+  ];
+
+  return { response, visualizations, suggestedActions };
+}
@@ -0,0 +1,68 @@
+import type { SuggestedAction } from '../../../../lib/types';
+import { generateVisualizations } from '../../visualizations';
+import type { AnalysisResult, ChatServices } from '../../types';
+import { definePromptHandler, type PromptAnalysis } from './shared';
+
+export const marketsPromptHandler = definePromptHandler('prompt-markets', 'markets', (prompt, { services }) => formatMarketsAnalysis(prompt, services));
+
+/**
+ * Format markets-focused analysis
+ */
+function formatMarketsAnalysis({ crosstab, analysis, context, hasMultipleMarkets }: PromptAnalysis, { formatter }: ChatServices): AnalysisResult {
+  let response = `## Market Analysis: ${crosstab.name}\n\n`;
+
+  if (!hasMultipleMarkets) {
+    response += `*This crosstab contains data for a single market: ${context.markets[0] || 'Unknown'}*\n\n`;
+    response += `For cross-market comparison, create a crosstab with multiple countries in the GWI platform.\n\n`;
+  } else {
+    response += `**Markets included:** ${context.markets.join(', ')}\n\n---\n\n`;
+  }
+
+  if (analysis.markets) {
+    response += `### 🌍 Biggest Differences Between Markets\n\n`;
+    response += formatter.formatMarketComparison(analysis.markets, 12);
+    response += '\n';
+  } else {
+    response += `### 🌍 Key Behaviors Across Markets\n\n`;
+    response += `Top behaviors by index value:\n\n`;
+
+    analysis.statistics.topIndexes.slice(0, 12).forEach((item, i) => {
+      response += `${i + 1}. **${item.label}** — Index: ${item.index}, Reach: ${item.percentage}%\n`;
+    });
+    response += '\n';
+  }
+
+  // Recommendations
+  response += `### 💡 Market Strategy Recommendations\n\n`;
+  if (hasMultipleMarkets) {
+    response += `- **Global campaigns:** Focus on behaviors with consistent high indexes across markets\n`;
+    response += `- **Localized campaigns:** Adapt messaging for market-specific high-index behaviors\n`;
+    response += `- **Test markets:** Use markets with highest indexes as test markets for new concepts\n`;
+  } else {
+    response += `- Consider expanding analysis to compare with other key markets\n`;
+    response += `- Use these insights to benchmark against regional competitors\n`;
+  }
+
+  const visualizations = generateVisualizations(analysis, crosstab);
+
+  const suggestedActions: SuggestedAction[] = [
+    {
+      id: 'targeting-opportunities',
+      label: 'Targeting Opportunities',
+      description: 'Best segments per market',
+      prompt: 'What are the best targeting opportunities based on this data?',
+      icon: 'target',
+      category: 'drill-down',
+    },
+    {
+      id: 'marketing-strategy',
+      label: 'Marketing Strategy',
+      description: 'Cross-market recommendations',
+      prompt: 'Based on this analysis, what marketing strategy would you recommend?',
+      icon: 'target',
+      category: 'analysis',
+    },
+  ];
+
+  return { response, visualizations, suggestedActions };
+}
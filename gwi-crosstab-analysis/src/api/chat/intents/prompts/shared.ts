@@ -0,0 +1,107 @@
+import { z } from 'zod';
+import { intentEntitiesSchema } from '../../../../lib/intent-classifier';
+import type { Analysis, IntentEntities, PromptMetadata } from '../../../../lib/types';
+import { buildCrosstabContext, focusCrosstab } from '../../crosstab-context';
+import { defineIntentHandler } from '../../registry';
+import type { AnalysisResult, ChatContext } from '../../types';
+
+// A prompt's crosstab, fetched, focused on what the prompt names and analyzed
+export interface PromptAnalysis {
+  message: string;
+  crosstab: any;
+  analysis: Analysis;
+  context: ReturnType<typeof buildCrosstabContext>;
+  includeChart: boolean;
+  hasMultipleMarkets: boolean;
+}
+
+export type PromptFormatter = (prompt: PromptAnalysis, context: ChatContext) => AnalysisResult | Promise<AnalysisResult>;
+
+const promptInput = z.object({
+  message: z.string(),
+  crosstabId: z.string().min(1),
+  promptMetadata: z.object({
+    promptTitle: z.string().optional(),
+    promptCategory: z.string(),
+  }),
+  wantsChart: z.boolean(),
+  entities: intentEntitiesSchema.default({}),
+});
+
+/**
+ * A prompt library handler: takes the selected crosstab's prompts of one
+ * category (any category when none is given), analyzes the crosstab and
+ * formats the analysis for that category
+ */
+export function definePromptHandler(name: string, category: PromptMetadata['promptCategory'] | undefined, format: PromptFormatter) {
+  return defineIntentHandler({
+    name,
+    intents: ['prompt_library'],
+    input: promptInput.refine(input => !category || input.promptMetadata.promptCategory === category),
+    async handle({ message, crosstabId, promptMetadata, wantsChart, entities }, context) {
+      const analysisType = `prompt_${promptMetadata.promptCategory}`;
+
+      console.log(`=== ${name} ===`);
+      console.log(`Category: ${promptMetadata.promptCategory}`);
+      console.log(`Title: ${promptMetadata.promptTitle}`);
+      console.log(`Message: ${message.substring(0, 100)}`);
+
+      const loaded = await analyzePromptCrosstab(message, crosstabId, wantsChart, entities, context);
+      if ('response' in loaded) {
+        return { ...loaded, analysisType };
+      }
+
+      const result = await format(loaded.prompt, context);
+      return { ...result, response: loaded.note + result.response, analysisType };
+    },
+  });
+}
+
+/**
+ * Fetch the crosstab a prompt is about, focus it on the markets, waves and
+ * audiences the prompt names, and analyze it
+ */
+async function analyzePromptCrosstab(
+  message: string,
+  crosstabId: string,
+  includeChart: boolean,
+  entities: IntentEntities,
+  { services, config, onStage }: ChatContext
+): Promise<{ prompt: PromptAnalysis; note: string } | AnalysisResult> {
+  const { orchestrator, analyzer } = services;
+  if (!orchestrator) {
+    return { response: 'The crosstab feature is not configured. Please add the GWI_API_KEY environment variable.' };
+  }
+
+  // Fetch crosstab data
+  onStage('fetching', 'Fetching crosstab data...');
+  let crosstab;
+  try {
+    crosstab = await orchestrator.client.getCrosstab(crosstabId, true);
+    console.log(`Fetched crosstab "${crosstab.name}" with ${crosstab.data?.length || 0} data points`);
+  } catch (error) {
+    console.error('Failed to fetch crosstab:', error);
+    return { response: `Failed to fetch crosstab data: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  }
+
+  // Only the markets, waves and audiences the prompt names
+  const focus = focusCrosstab(crosstab, message, entities);
+  crosstab = focus.crosstab;
+
+  // Run base analysis
+  onStage('analyzing', `Analyzing ${crosstab.data?.length || 0} data points...`);
+  const analysis = analyzer.analyze(crosstab, config);
+  onStage('formatting', 'Formatting results...');
+
+  return {
+    prompt: {
+      message,
+      crosstab,
+      analysis,
+      context: buildCrosstabContext(crosstab),
+      includeChart,
+      hasMultipleMarkets: (crosstab.country_codes?.length || 0) > 1,
+    },
+    note: focus.note,
+  };
+}
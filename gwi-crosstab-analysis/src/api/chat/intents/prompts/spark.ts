@@ -0,0 +1,46 @@
+import { formatSparkResponse, type SparkAPIClient } from '../../../../lib/spark-client';
+import type { ChatSession } from '../../../../lib/types';
+import { generateVisualizations, generateSuggestedActions } from '../../visualizations';
+import type { AnalysisResult, ChatServices } from '../../types';
+import { querySparkInSession } from '../spark';
+import { formatDefaultAnalysis } from './analysis';
+import { definePromptHandler, type PromptAnalysis } from './shared';
+
+/**
+ * Spark prompts go to the Spark API with the crosstab as context, when it is configured
+ */
+export const sparkPromptHandler = definePromptHandler('prompt-spark', 'spark', (prompt, { services, onStage, session }) => {
+  if (!services.sparkClient) {
+    return formatDefaultAnalysis(prompt, services);
+  }
+  onStage('querying', 'Asking GWI Spark...');
+  return handleSparkQueryWithCrosstabContext(prompt, services, services.sparkClient, session);
+});
+
+/**
+ * Handle Spark query with crosstab context
+ */
+async function handleSparkQueryWithCrosstabContext(
+  prompt: PromptAnalysis,
+  services: ChatServices,
+  sparkClient: SparkAPIClient,
+  session: ChatSession | null = null
+): Promise<AnalysisResult> {
+  const { message, crosstab, analysis } = prompt;
+
+  try {
+    // Enhance the query with crosstab context
+    const contextualQuery = `Based on the crosstab "${crosstab.name}" which analyzes ${crosstab.bases?.[0]?.name || 'an audience'} in ${(crosstab.country_codes || []).join(', ')}: ${message}`;
+    const sparkResponse = await querySparkInSession(sparkClient, contextualQuery, session);
+    const response = formatSparkResponse(sparkResponse);
+
+    return {
+      response,
+      visualizations: generateVisualizations(analysis, crosstab),
+      suggestedActions: generateSuggestedActions(analysis, crosstab.name, (crosstab.country_codes?.length || 0) > 1, crosstab.id),
+    };
+  } catch (error) {
+    console.error('Spark query error:', error);
+    return formatDefaultAnalysis({ ...prompt, includeChart: false, hasMultipleMarkets: false }, services);
+  }
+}
@@ -0,0 +1,166 @@
+import type { SuggestedAction } from '../../../../lib/types';
+import { generateVisualizations, truncateLabel } from '../../visualizations';
+import type { AnalysisResult } from '../../types';
+import { categorizeBehaviors, formatContentRecommendation } from './behaviors';
+import { definePromptHandler, type PromptAnalysis } from './shared';
+
+export const strategyPromptHandler = definePromptHandler('prompt-strategy', 'strategy', prompt => formatStrategyAnalysis(prompt));
+
+/**
+ * Format strategy-focused analysis (marketing, targeting, campaigns)
+ */
+function formatStrategyAnalysis({ message, crosstab, analysis, context }: PromptAnalysis): AnalysisResult {
+  let response = `## Strategic Analysis: ${crosstab.name}\n\n`;
+
+  // Add context
+  const contextParts: string[] = [];
+  if (context.markets.length > 0) {
+    contextParts.push(`**Markets:** ${context.markets.slice(0, 3).join(', ')}`);
+  }
+  if (context.audiences.length > 0) {
+    contextParts.push(`**Audience:** ${context.audiences.join(', ')}`);
+  }
+  if (contextParts.length > 0) {
+    response += contextParts.join(' | ') + '\n\n---\n\n';
+  }
+
+  // Check what type of strategy is being asked
+  const lowerMessage = message.toLowerCase();
+  const isSocialMedia = /social|instagram|tiktok|facebook|twitter|youtube|platform/i.test(lowerMessage);
+  const isContent = /content|messaging|creative|theme/i.test(lowerMessage);
+  const isTargeting = /target|reach|segment|audience/i.test(lowerMessage);
+
+  // Categorize behaviors for better recommendations
+  const topBehaviors = analysis.statistics.topIndexes.slice(0, 20);
+  const categories = categorizeBehaviors(topBehaviors);
+
+  if (isSocialMedia) {
+    response += `### 📱 Social Media Strategy\n\n`;
+
+    if (categories.social.length > 0) {
+      response += `**Platform Prioritization (by Index):**\n\n`;
+      categories.social.slice(0, 6).forEach((item, i) => {
+        const priority = i < 2 ? '🥇 Primary' : i < 4 ? '🥈 Secondary' : '🥉 Tertiary';
+        response += `${priority}: **${item.label}** — Index: ${item.index}, Reach: ${item.percentage}%\n`;
+      });
+      response += '\n';
+    }
+
+    response += `**Recommended Approach:**\n`;
+    if (categories.social.some(s => /tiktok|reels|shorts/i.test(s.label))) {
+      response += `- Focus on short-form video content\n`;
+    }
+    if (categories.social.some(s => /instagram|pinterest/i.test(s.label))) {
+      response += `- Invest in visual storytelling\n`;
+    }
+    if (categories.social.some(s => /youtube|video/i.test(s.label))) {
+      response += `- Create longer-form educational/entertainment content\n`;
+    }
+    if (categories.social.some(s => /twitter|x\./i.test(s.label))) {
+      response += `- Engage in real-time conversations and trends\n`;
+    }
+    response += '\n';
+
+  } else if (isContent) {
+    response += `### 📝 Content Strategy\n\n`;
+
+    response += `**Content Themes That Resonate:**\n`;
+    if (categories.lifestyle.length > 0) {
+      response += `- **Lifestyle:** ${categories.lifestyle.slice(0, 3).map(i => i.label).join(', ')}\n`;
+    }
+    if (categories.media.length > 0) {
+      response += `- **Entertainment:** ${categories.media.slice(0, 3).map(i => i.label).join(', ')}\n`;
+    }
+    if (categories.shopping.length > 0) {
+      response += `- **Shopping/Products:** ${categories.shopping.slice(0, 3).map(i => i.label).join(', ')}\n`;
+    }
+    response += '\n';
+
+    response += `**Content Format Recommendations:**\n`;
+    response += `Based on the audience's media consumption patterns:\n`;
+    categories.media.slice(0, 5).forEach(item => {
+      response += `- Consider ${formatContentRecommendation(item.label)}\n`;
+    });
+    response += '\n';
+
+  } else if (isTargeting) {
+    response += `### 🎯 Targeting Strategy\n\n`;
+
+    response += `**High-Value Targeting Opportunities:**\n\n`;
+    response += `| Behavior | Index | Reach | Targeting Value |\n`;
+    response += `|----------|-------|-------|----------------|\n`;
+    analysis.statistics.topIndexes.slice(0, 10).forEach(item => {
+      const value = item.index > 150 && item.percentage > 20 ? '⭐ High' :
+                    item.index > 120 && item.percentage > 15 ? '✓ Medium' : '○ Niche';
+      response += `| ${truncateLabel(item.label, 30)} | ${item.index} | ${item.percentage}% | ${value} |\n`;
+    });
+    response += '\n';
+
+    response += `**Targeting Recommendations:**\n`;
+    const highValue = analysis.statistics.topIndexes.filter(i => i.index > 130 && i.percentage > 20);
+    if (highValue.length > 0) {
+      response += `- **Broad reach + affinity:** Target users interested in ${highValue.slice(0, 2).map(i => i.label).join(' or ')}\n`;
+    }
+    const niche = analysis.statistics.topIndexes.filter(i => i.index > 180);
+    if (niche.length > 0) {
+      response += `- **Precision targeting:** Use ${niche.slice(0, 2).map(i => i.label).join(' or ')} for highly targeted campaigns\n`;
+    }
+    response += '\n';
+
+  } else {
+    // General marketing strategy
+    response += `### 🚀 Marketing Strategy Overview\n\n`;
+
+    response += `**Key Audience Insights:**\n`;
+    response += `- ${analysis.statistics.overIndexed.length} behaviors with strong affinity (index ≥ ${analysis.config.overIndex})\n`;
+    response += `- ${analysis.statistics.underIndexed.length} behaviors to avoid (index ≤ ${analysis.config.underIndex})\n\n`;
+
+    response += `**Strategic Recommendations:**\n\n`;
+    if (analysis.recommendations.length > 0) {
+      analysis.recommendations.slice(0, 4).forEach((rec, i) => {
+        response += `${i + 1}. **${rec.title}** (${rec.priority} priority)\n`;
+        response += `   ${rec.description}\n\n`;
+      });
+    }
+
+    // Channel mix
+    response += `**Suggested Channel Mix:**\n`;
+    if (categories.social.length > 0) {
+      response += `- **Social:** ${categories.social.slice(0, 3).map(i => i.label).join(', ')}\n`;
+    }
+    if (categories.media.length > 0) {
+      response += `- **Media:** ${categories.media.slice(0, 3).map(i => i.label).join(', ')}\n`;
+    }
+  }
+
+  const visualizations = generateVisualizations(analysis, crosstab);
+
+  const suggestedActions: SuggestedAction[] = [
+    {
+      id: 'campaign-ideas',
+      label: 'Campaign Ideas',
+      description: 'Creative concepts',
+      prompt: 'Based on this audience data, give me 3 creative campaign ideas that would resonate with them',
+      icon: 'chart',
+      category: 'analysis',
+    },
+    {
+      id: 'audience-persona',
+      label: 'Audience Persona',
+      description: 'Detailed profile',
+      prompt: 'Create a detailed audience persona based on this data, including demographics, interests, and behaviors',
+      icon: 'target',
+      category: 'analysis',
+    },
+    {
+      id: 'key-differentiators',
+      label: 'Key Differentiators',
+      description: 'What makes them unique',
+      prompt: 'What are the key differentiators that make this audience unique compared to the general population?',
+      icon: 'compare',
+      category: 'drill-down',
+    },
+  ];
+
+  return { response, visualizations, suggestedActions };
+}
@@ -0,0 +1,101 @@
+import type { SuggestedAction } from '../../../../lib/types';
+import { generateVisualizations } from '../../visualizations';
+import type { AnalysisResult, ChatServices } from '../../types';
+import { definePromptHandler, type PromptAnalysis } from './shared';
+
+export const trendsPromptHandler = definePromptHandler('prompt-trends', 'trends', (prompt, { services }) => formatTrendsAnalysis(prompt, services));
+
+/**
+ * Format trends-focused analysis
+ */
+function formatTrendsAnalysis({ crosstab, analysis, context }: PromptAnalysis, { formatter }: ChatServices): AnalysisResult {
+  let response = `## Trends Analysis: ${crosstab.name}\n\n`;
+
+  // Add context
+  const contextParts: string[] = [];
+  if (context.markets.length > 0) {
+    contextParts.push(`**Markets:** ${context.markets.slice(0, 3).join(', ')}`);
+  }
+  if (context.waves.length > 0) {
+    contextParts.push(`**Period:** ${context.waves.join(', ')}`);
+  }
+  if (contextParts.length > 0) {
+    response += contextParts.join(' | ') + '\n\n---\n\n';
+  }
+
+  response += `### 📈 Behavioral Trends\n\n`;
+
+  if (analysis.trends) {
+    response += formatter.formatTrends(analysis.trends, 8);
+    response += '\n';
+
+    if (analysis.trends.reversals.length > 0) {
+      response += `**🔄 Reversals:** ${analysis.trends.reversals.slice(0, 5).map(t => `${t.label} (turned at ${t.reversalWave})`).join(', ')}\n\n`;
+    }
+    if (analysis.trends.accelerating.length > 0) {
+      response += `**⚡ Accelerating:** ${analysis.trends.accelerating.slice(0, 5).map(t => t.label).join(', ')}\n\n`;
+    }
+  } else {
+    response += `*Note: Trend analysis is most effective with multiple time periods. This analysis shows current state.*\n\n`;
+  }
+
+  // High-index behaviors (potential growth areas)
+  response += `**High Affinity Behaviors (Potential Growth Areas):**\n\n`;
+  analysis.statistics.overIndexed.slice(0, 8).forEach((item, i) => {
+    const strength = item.index > 150 ? '🔥 Strong' : item.index > 130 ? '📈 Growing' : '✓ Above avg';
+    response += `${i + 1}. **${item.label}** — ${strength} (Index: ${item.index})\n`;
+  });
+  response += '\n';
+
+  // Emerging vs established (by reach)
+  const emerging = analysis.statistics.topIndexes.filter(i => i.index > 140 && i.percentage < 30);
+  const established = analysis.statistics.topIndexes.filter(i => i.index > 110 && i.percentage > 40);
+
+  if (emerging.length > 0) {
+    response += `**🌱 Emerging Behaviors (High index, lower reach):**\n`;
+    emerging.slice(0, 5).forEach(item => {
+      response += `- ${item.label} — Index: ${item.index}, Reach: ${item.percentage}%\n`;
+    });
+    response += '\n';
+  }
+
+  if (established.length > 0) {
+    response += `**📊 Established Behaviors (High index, high reach):**\n`;
+    established.slice(0, 5).forEach(item => {
+      response += `- ${item.label} — Index: ${item.index}, Reach: ${item.percentage}%\n`;
+    });
+    response += '\n';
+  }
+
+  // Declining/avoid
+  if (analysis.statistics.underIndexed.length > 0) {
+    response += `**📉 Declining Interest (Under-indexed):**\n`;
+    analysis.statistics.underIndexed.slice(0, 5).forEach(item => {
+      response += `- ${item.label} — Index: ${item.index}\n`;
+    });
+    response += '\n';
+  }
+
+  const visualizations = generateVisualizations(analysis, crosstab);
+
+  const suggestedActions: SuggestedAction[] = [
+    {
+      id: 'marketing-strategy',
+      label: 'Marketing Strategy',
+      description: 'Act on these trends',
+      prompt: 'Based on these trends, what marketing strategy would you recommend?',
+      icon: 'target',
+      category: 'analysis',
+    },
+    {
+      id: 'high-reach',
+      label: 'High Reach Behaviors',
+      description: 'Broad campaign targeting',
+      prompt: 'What behaviors have high reach that I could use for broad campaigns?',
+      icon: 'chart',
+      category: 'drill-down',
+    },
+  ];
+
+  return { response, visualizations, suggestedActions };
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { createStubServices, sendChatMessage } from '../../../test/chat';
+import { createSession } from '../../../lib/session-store';
+
+describe('spark handler', () => {
+  it('sends questions without a selected crosstab to Spark and keeps its chat', async () => {
+    const { services, calls } = createStubServices();
+    const session = createSession('test-owner');
+
+    const first = await sendChatMessage(services, 'What percentage of Gen Z use TikTok daily?', { session });
+    await sendChatMessage(services, 'And millennials?', { session });
+
+    expect(first.handler).toBe('spark');
+    expect(first.result).toMatchObject({ analysisType: 'spark_query', response: 'Spark answer to: What percentage of Gen Z use TikTok daily?' });
+    expect(session.sparkChatId).toBe('spark-chat-1');
+    expect(calls.spark.map(q => q.options)).toEqual([undefined, { chat_id: 'spark-chat-1' }]);
+  });
+
+  it('asks for something more specific without Spark', async () => {
+    const { services } = createStubServices({ spark: false });
+
+    const { handler, result } = await sendChatMessage(services, 'hmm');
+
+    expect(handler).toBe('spark');
+    expect(result.response).toContain('Could you be more specific?');
+  });
+});
@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { formatSparkResponse, type SparkAPIClient } from '../../../lib/spark-client';
+import type { ChatSession } from '../../../lib/types';
+import { defineIntentHandler } from '../registry';
+import { ignoreStage, type StageReporter } from '../types';
+
+/**
+ * Questions about GWI data with no crosstab selected go to Spark; also the
+ * fallback for messages no other handler accepts
+ */
+export const sparkHandler = defineIntentHandler({
+  name: 'spark',
+  intents: ['spark_query', 'unknown'],
+  input: z.object({ message: z.string() }),
+  async handle({ message }, { services, onStage, session }) {
+    // Use Spark API for general queries
+    if (services.sparkClient) {
+      return {
+        response: await handleSparkQuery(services.sparkClient, message, onStage, session),
+        analysisType: 'spark_query',
+      };
+    }
+    return { response: 'I understand you want to analyze data. Could you be more specific? For example:\n- "List my crosstabs"\n- "Analyze [crosstab name]"\n- "What percentage of Gen Z use TikTok daily?"' };
+  },
+});
+
+// Spark API query handler (for general queries without crosstab)
+export async function handleSparkQuery(
+  sparkClient: SparkAPIClient | null,
+  message: string,
+  onStage: StageReporter = ignoreStage,
+  session: ChatSession | null = null
+): Promise<string> {
+  if (!sparkClient) {
+    return 'The Spark AI feature is not configured. Please add the GWI_MCP_KEY environment variable to enable AI-powered queries about GWI data.';
+  }
+
+  try {
+    onStage('querying', 'Asking GWI Spark...');
+    const sparkResponse = await querySparkInSession(sparkClient, message, session);
+    return formatSparkResponse(sparkResponse);
+  } catch (error) {
+    console.error('Spark API error:', error);
+    return `I encountered an error querying GWI data: ${error instanceof Error ? error.message : 'Unknown error'}. Please try rephrasing your question.`;
+  }
+}
+
+/**
+ * Query Spark within the session's Spark conversation, recording the chat_id it returns
+ */
+export async function querySparkInSession(sparkClient: SparkAPIClient, prompt: string, session: ChatSession | null) {
+  const sparkResponse = await sparkClient.query(
+    prompt,
+    session?.sparkChatId ? { chat_id: session.sparkChatId } : undefined
+  );
+
+  if (session && sparkResponse.chatId) {
+    session.sparkChatId = sparkResponse.chatId;
+  }
+
+  return sparkResponse;
+}
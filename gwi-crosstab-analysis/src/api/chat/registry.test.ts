@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { IntentRegistry, defineIntentHandler, toHandlerInput } from './registry';
+import { ignoreStage, type ChatRequest } from './types';
+import { createStubServices } from '../../test/chat';
+import { resolveAnalysisConfig } from '../../lib/analysis-config';
+import { createSession } from '../../lib/session-store';
+import type { Intent } from '../../lib/types';
+
+const context = {
+  services: createStubServices().services,
+  config: resolveAnalysisConfig(),
+  session: createSession('test-owner'),
+  onStage: ignoreStage,
+};
+
+function request(intent: Partial<Intent>, crosstabId: string | null = null): ChatRequest {
+  return { message: 'hello', intent: { type: 'unknown', confidence: 1, source: 'rules', entities: {}, ...intent }, crosstabId, wantsChart: false };
+}
+
+const needsCrosstab = defineIntentHandler({
+  name: 'needs-crosstab',
+  intents: ['analyze_crosstab'],
+  input: z.object({ crosstabId: z.string() }),
+  async handle({ crosstabId }) {
+    return { response: `analyzed ${crosstabId}` };
+  },
+});
+
+const anyAnalysis = defineIntentHandler({
+  name: 'any-analysis',
+  intents: ['analyze_crosstab'],
+  input: z.object({}),
+  async handle() {
+    return { response: 'generic analysis' };
+  },
+});
+
+const fallback = defineIntentHandler({
+  name: 'fallback',
+  intents: ['unknown'],
+  input: z.object({ message: z.string() }),
+  async handle({ message }) {
+    return { response: `fallback for ${message}` };
+  },
+});
+
+describe('toHandlerInput', () => {
+  it('prefers the crosstab the intent names over the selected one', () => {
+    const input = toHandlerInput(request({ type: 'analyze_crosstab', crosstabId: 'named' }, 'selected'));
+
+    expect(input).toMatchObject({ crosstabId: 'named', selectedCrosstabId: 'selected', message: 'hello' });
+  });
+
+  it('falls back to the selected crosstab', () => {
+    expect(toHandlerInput(request({}, 'selected')).crosstabId).toBe('selected');
+    expect(toHandlerInput(request({})).crosstabId).toBeUndefined();
+  });
+});
+
+describe('IntentRegistry', () => {
+  it('dispatches to the first handler whose schema accepts the message', async () => {
+    const registry = new IntentRegistry().register(needsCrosstab, anyAnalysis, fallback);
+
+    expect(await registry.dispatch(request({ type: 'analyze_crosstab' }, 'xt-1'), context)).toEqual({ response: 'analyzed xt-1' });
+    expect(registry.resolve(request({ type: 'analyze_crosstab' }))?.handler.name).toBe('any-analysis');
+  });
+
+  it('hands messages nothing accepts to the unknown handlers', async () => {
+    const registry = new IntentRegistry().register(needsCrosstab, fallback);
+
+    const result = await registry.dispatch(request({ type: 'analyze_crosstab' }), context);
+
+    expect(result.response).toBe('fallback for hello');
+  });
+
+  it('throws when not even a fallback accepts the message', async () => {
+    const registry = new IntentRegistry().register(needsCrosstab);
+
+    await expect(registry.dispatch(request({ type: 'help' }), context)).rejects.toThrow('No intent handler accepts a help message');
+  });
+
+  it('rejects handlers registered twice', () => {
+    expect(() => new IntentRegistry().register(fallback, fallback)).toThrow('already registered');
+  });
+});
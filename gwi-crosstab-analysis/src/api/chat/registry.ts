@@ -0,0 +1,89 @@
+import type { z } from 'zod';
+import type { IntentType } from '../../lib/types';
+import type { ChatContext, ChatRequest, IntentResult } from './types';
+
+/**
+ * A self-contained chat intent. The registry offers it every message
+ * classified as one of its intents; the input schema decides whether it
+ * accepts the message and shapes what `handle` receives.
+ */
+export interface IntentHandler<Schema extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  intents: readonly IntentType[];
+  input: Schema;
+  handle(input: z.output<Schema>, context: ChatContext): Promise<IntentResult>;
+}
+
+/**
+ * Declare an intent handler, typing `handle` from its input schema
+ */
+export function defineIntentHandler<Schema extends z.ZodTypeAny>(handler: IntentHandler<Schema>): IntentHandler<Schema> {
+  return handler;
+}
+
+/**
+ * Everything a handler's schema can pick from: the intent's fields, the
+ * message, and both the crosstab the intent names (`crosstabId`, falling back
+ * to the selected one) and the selected one on its own (`selectedCrosstabId`)
+ */
+export function toHandlerInput({ message, intent, crosstabId, promptMetadata, wantsChart }: ChatRequest) {
+  return {
+    ...intent,
+    message,
+    promptMetadata,
+    wantsChart,
+    selectedCrosstabId: crosstabId,
+    crosstabId: intent.crosstabId ?? crosstabId ?? undefined,
+  };
+}
+
+/**
+ * Routes classified chat messages to intent handlers. Handlers are tried in
+ * registration order; the first one registered for the intent whose schema
+ * accepts the message handles it. When none does, the 'unknown' handlers get
+ * the message, so a fallback is registered as handling 'unknown'.
+ */
+export class IntentRegistry {
+  private handlers: IntentHandler[] = [];
+
+  register(...handlers: IntentHandler[]): this {
+    handlers.forEach(handler => {
+      if (this.handlers.some(h => h.name === handler.name)) {
+        throw new Error(`Intent handler "${handler.name}" is already registered`);
+      }
+      this.handlers.push(handler);
+    });
+    return this;
+  }
+
+  list(): readonly IntentHandler[] {
+    return this.handlers;
+  }
+
+  /**
+   * The handler a request goes to and the input it parsed, or undefined when nothing accepts it
+   */
+  resolve(request: ChatRequest): { handler: IntentHandler; input: unknown } | undefined {
+    const input = toHandlerInput(request);
+    return this.find(request.intent.type, input) ?? this.find('unknown', input);
+  }
+
+  async dispatch(request: ChatRequest, context: ChatContext): Promise<IntentResult> {
+    const match = this.resolve(request);
+    if (!match) {
+      throw new Error(`No intent handler accepts a ${request.intent.type} message`);
+    }
+
+    console.log(`Dispatching ${request.intent.type} to ${match.handler.name}`);
+    return match.handler.handle(match.input, context);
+  }
+
+  private find(type: IntentType, input: unknown): { handler: IntentHandler; input: unknown } | undefined {
+    for (const handler of this.handlers) {
+      if (!handler.intents.includes(type)) continue;
+      const parsed = handler.input.safeParse(input);
+      if (parsed.success) return { handler, input: parsed.data };
+    }
+    return undefined;
+  }
+}
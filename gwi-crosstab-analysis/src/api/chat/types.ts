@@ -0,0 +1,57 @@
+import type { CrosstabAnalysisOrchestrator } from '../../lib/orchestrator';
+import type { SparkAPIClient } from '../../lib/spark-client';
+import type { CrosstabAnalyzer } from '../../lib/crosstab-analyzer';
+import type { TemplateAnalysisEngine } from '../../lib/analysis-templates';
+import type { ResponseFormatter } from '../../lib/response-formatter';
+import type { AnalysisConfig, ChatSession, ChatStage, Intent, PromptMetadata, SuggestedAction, VisualizationData } from '../../lib/types';
+
+// ============================================================================
+// SERVICES
+// ============================================================================
+
+// Clients and engines the intent handlers work with; the GWI clients are null when their key is not set
+export interface ChatServices {
+  orchestrator: CrosstabAnalysisOrchestrator | null;
+  sparkClient: SparkAPIClient | null;
+  analyzer: CrosstabAnalyzer;
+  templateEngine: TemplateAnalysisEngine;
+  formatter: ResponseFormatter;
+}
+
+// Progress callback used by the streaming chat route; a no-op for /api/chat
+export type StageReporter = (stage: ChatStage, message: string) => void;
+export const ignoreStage: StageReporter = () => {};
+
+// ============================================================================
+// DISPATCH
+// ============================================================================
+
+// A chat message after classification, as handed to the registry
+export interface ChatRequest {
+  message: string;
+  intent: Intent;
+  crosstabId: string | null;   // Crosstab selected for the conversation
+  promptMetadata?: PromptMetadata;
+  wantsChart: boolean;
+}
+
+// Per-message state every intent handler receives alongside its input
+export interface ChatContext {
+  services: ChatServices;
+  config: AnalysisConfig;
+  session: ChatSession;
+  onStage: StageReporter;
+}
+
+// Extended result type for analysis handlers
+export interface AnalysisResult {
+  response: string;
+  visualizations?: VisualizationData[];
+  suggestedActions?: SuggestedAction[];
+}
+
+// What an intent handler answers with
+export interface IntentResult extends AnalysisResult {
+  crosstabs?: Array<{ id: string; name: string }> | null;  // Crosstabs for the UI to offer as buttons
+  analysisType?: string;                                    // Reported instead of the intent type
+}
@@ -0,0 +1,425 @@
+import { toMarketHeatmap } from '../../lib/market-comparison';
+import { buildIndexHeatmap } from '../../lib/index-heatmap';
+import { buildReachIndexScatter, getReachIndexQuadrant } from '../../lib/reach-index';
+import { toTrendTimeSeries } from '../../lib/trend-analysis';
+import type { Analysis, Crosstab, VisualizationData, SuggestedAction, IndexedItem } from '../../lib/types';
+
+/**
+ * Generate visualization data from analysis results
+ */
+export function generateVisualizations(analysis: Analysis, crosstab: Crosstab): VisualizationData[] {
+  const visualizations: VisualizationData[] = [];
+  const crosstabName = crosstab.name;
+
+  // Always show top indexed behaviors chart if we have data
+  // Use topIndexes which contains top items sorted by index (always populated)
+  if (analysis.statistics.topIndexes.length > 0) {
+    // Determine chart title based on whether items are over-indexed
+    const hasOverIndexed = analysis.statistics.overIndexed.length > 0;
+
+    visualizations.push({
+      id: 'top-indexed-chart',
+      type: 'horizontalBar',
+      title: hasOverIndexed ? 'Top Over-Indexed Behaviors' : 'Top Behaviors by Index',
+      subtitle: hasOverIndexed
+        ? `Behaviors where ${crosstabName} audience over-indexes vs. average`
+        : `Top behaviors sorted by index value (100 = average)`,
+      data: analysis.statistics.topIndexes.slice(0, 10).map((item: IndexedItem) => ({
+        label: truncateLabel(item.label, 35),
+        value: item.index,
+        percentage: item.percentage,
+        sample: item.sample,
+      })),
+      config: {
+        xAxisLabel: 'Index',
+        yAxisLabel: 'Behavior',
+        referenceValue: 100,
+        maxItems: 10,
+        colorScheme: 'blue',
+      },
+    });
+  }
+
+  // Under-indexed behaviors bar chart (if significant)
+  if (analysis.statistics.underIndexed.length >= 5) {
+    visualizations.push({
+      id: 'under-indexed-chart',
+      type: 'horizontalBar',
+      title: 'Notable Under-Indexed Behaviors',
+      subtitle: 'Behaviors where this audience under-indexes vs. average',
+      data: analysis.statistics.underIndexed.slice(0, 8).map((item: IndexedItem) => ({
+        label: truncateLabel(item.label, 35),
+        value: item.index,
+        percentage: item.percentage,
+        sample: item.sample,
+      })),
+      config: {
+        xAxisLabel: 'Index',
+        yAxisLabel: 'Behavior',
+        referenceValue: 100,
+        maxItems: 8,
+        colorScheme: 'red',
+      },
+    });
+  }
+
+  // Reach vs. index quadrants once there are enough cells to show a spread
+  const scatter = buildReachIndexScatter(crosstab, analysis.config);
+  if (scatter.points.length >= 5) {
+    const quadrants = scatter.points.map(p => getReachIndexQuadrant(p.reach, p.index, scatter));
+    const core = quadrants.filter(q => q === 'core').length;
+    const niche = quadrants.filter(q => q === 'niche').length;
+    visualizations.push({
+      id: 'reach-index-scatter',
+      type: 'scatter',
+      title: 'Reach vs. Index',
+      subtitle: `${core} high-reach and ${niche} niche behaviors above index ${scatter.indexThreshold} · click a bubble to explore it`,
+      data: [],
+      scatter,
+      config: {
+        xAxisLabel: 'Reach (% of audience)',
+        yAxisLabel: 'Index',
+        referenceValue: 100,
+      },
+    });
+  }
+
+  // Datapoint × audience heatmap when the crosstab has several columns
+  if (crosstab.columns.length > 1) {
+    const audienceHeatmap = buildIndexHeatmap(crosstab, analysis.config, { columns: 'audience' });
+    if (audienceHeatmap && audienceHeatmap.heatmap.rows.length > 0) {
+      const scope = [audienceHeatmap.location?.toUpperCase(), audienceHeatmap.wave].filter(Boolean).join(', ');
+      visualizations.push({
+        id: 'audience-heatmap',
+        type: 'heatmap',
+        title: 'Index by Audience',
+        subtitle: `Most distinctive behaviors across ${audienceHeatmap.heatmap.columns.length} audiences${scope ? ` (${scope})` : ''}`,
+        data: [],
+        heatmap: audienceHeatmap.heatmap,
+        config: {
+          xAxisLabel: 'Audience',
+          yAxisLabel: 'Behavior',
+          referenceValue: 100,
+        },
+      });
+    }
+  }
+
+  // Datapoint × market heatmap when the data is split by market
+  if (analysis.markets && analysis.markets.rows.length > 0) {
+    visualizations.push({
+      id: 'market-heatmap',
+      type: 'heatmap',
+      title: 'Index by Market',
+      subtitle: `Behaviors with the largest spread across ${analysis.markets.markets.length} markets${analysis.markets.wave ? ` (${analysis.markets.wave})` : ''}`,
+      data: [],
+      heatmap: toMarketHeatmap(analysis.markets),
+      config: {
+        xAxisLabel: 'Market',
+        yAxisLabel: 'Behavior',
+        referenceValue: 100,
+      },
+    });
+  }
+
+  // Index over time for the strongest significant trends
+  if (analysis.trends && analysis.trends.significant.length > 0) {
+    visualizations.push({
+      id: 'trend-line-chart',
+      type: 'line',
+      title: 'Index Over Time',
+      subtitle: `Strongest significant trends across ${analysis.trends.waves.length} waves`,
+      data: [],
+      timeSeries: toTrendTimeSeries(analysis.trends.significant.slice(0, 5), analysis.trends.waves),
+      config: {
+        xAxisLabel: 'Wave',
+        yAxisLabel: 'Index',
+        referenceValue: 100,
+      },
+    });
+  }
+
+  return visualizations;
+}
+
+/**
+ * Truncate long labels for display
+ */
+export function truncateLabel(label: string, maxLength: number): string {
+  if (label.length <= maxLength) return label;
+  return label.substring(0, maxLength - 3) + '...';
+}
+
+/**
+ * Generate context-aware suggested actions based on analysis results
+ */
+export function generateSuggestedActions(
+  analysis: Analysis,
+  crosstabName: string,
+  hasMultipleMarkets: boolean,
+  crosstabId?: string
+): SuggestedAction[] {
+  const actions: SuggestedAction[] = [];
+  // Drill-down prompts are data queries (see data-query.ts), so they filter the loaded cells
+  const { config } = analysis;
+
+  // Analyze the data to determine what actions are most relevant
+  const hasOverIndexed = analysis.statistics.overIndexed.length > 0;
+  const hasUnderIndexed = analysis.statistics.underIndexed.length > 0;
+  const hasTopIndexes = analysis.statistics.topIndexes.length > 0;
+  const hasRecommendations = analysis.recommendations.length > 0;
+  const hasInsights = analysis.insights.length > 0;
+
+  // Check for specific content types in the data
+  const topLabels = analysis.statistics.topIndexes.map(i => i.label.toLowerCase()).join(' ');
+  const hasSocialMedia = /instagram|tiktok|facebook|twitter|youtube|snapchat|linkedin|social/i.test(topLabels);
+  const hasMediaContent = /video|stream|podcast|music|gaming|news|tv|watch/i.test(topLabels);
+  const hasShopping = /shop|buy|purchase|brand|retail|ecommerce|amazon/i.test(topLabels);
+  const hasLifestyle = /travel|fitness|health|food|fashion|beauty|wellness/i.test(topLabels);
+
+  // === CONTENT & CHANNEL SPECIFIC ACTIONS (prioritize these when relevant) ===
+  // These are shown first because they're contextual to the specific data
+
+  // Social media strategy
+  if (hasSocialMedia) {
+    actions.push({
+      id: 'social-strategy',
+      label: 'Social Media Strategy',
+      description: 'Get platform-specific recommendations',
+      prompt: 'Which social media platforms should I prioritize for this audience and what content would resonate?',
+      icon: 'chart',
+      category: 'analysis',
+    });
+  }
+
+  // Content recommendations
+  if (hasMediaContent) {
+    actions.push({
+      id: 'content-strategy',
+      label: 'Content Strategy',
+      description: 'Get content format and theme recommendations',
+      prompt: 'What content formats and themes would work best for this audience?',
+      icon: 'chart',
+      category: 'analysis',
+    });
+  }
+
+  // Shopping/purchase behavior insights
+  if (hasShopping) {
+    actions.push({
+      id: 'purchase-insights',
+      label: 'Purchase Behavior',
+      description: 'Shopping behaviors this audience over-indexes on',
+      prompt: `Show only purchase behaviors with index above ${config.overIndex}`,
+      icon: 'trend',
+      category: 'drill-down',
+    });
+  }
+
+  // Lifestyle insights
+  if (hasLifestyle) {
+    actions.push({
+      id: 'lifestyle-insights',
+      label: 'Lifestyle Profile',
+      description: 'Interests and lifestyle behaviors this audience over-indexes on',
+      prompt: `Show only interests with index above ${config.overIndex}`,
+      icon: 'filter',
+      category: 'drill-down',
+    });
+  }
+
+  // === PRIMARY ACTIONS ===
+
+  // Marketing strategy - if there are actionable insights
+  if (hasOverIndexed || hasRecommendations) {
+    actions.push({
+      id: 'marketing-strategy',
+      label: 'Marketing Strategy',
+      description: 'Get actionable marketing recommendations based on this data',
+      prompt: 'Based on this analysis, what marketing strategy would you recommend?',
+      icon: 'target',
+      category: 'analysis',
+    });
+  }
+
+  // Targeting opportunities - if there are significant indexes
+  if (hasTopIndexes) {
+    actions.push({
+      id: 'targeting-opportunities',
+      label: 'Targeting Opportunities',
+      description: 'Highest-indexing behaviors with a robust sample',
+      prompt: `Top 10 by index with sample above ${config.highConfidenceSample}`,
+      icon: 'target',
+      category: 'drill-down',
+    });
+  }
+
+  // === COMPARATIVE ACTIONS ===
+
+  // Market comparison if multiple markets
+  if (hasMultipleMarkets) {
+    actions.push({
+      id: 'compare-markets',
+      label: 'Compare Markets',
+      description: 'See how behaviors differ across markets',
+      prompt: 'How do the key behaviors compare across different markets?',
+      icon: 'compare',
+      category: 'analysis',
+    });
+  }
+
+  // Key differentiators - what makes this audience unique
+  if (hasOverIndexed && hasUnderIndexed) {
+    actions.push({
+      id: 'key-differentiators',
+      label: 'Key Differentiators',
+      description: 'Understand what makes this audience unique',
+      prompt: 'What are the key differentiators that make this audience unique compared to the general population?',
+      icon: 'compare',
+      category: 'analysis',
+    });
+  }
+
+  // === INSIGHT-BASED ACTIONS ===
+
+  // High-reach behaviors analysis
+  const highReachInsight = analysis.insights.find(i => i.type === 'HIGH_REACH');
+  if (highReachInsight) {
+    actions.push({
+      id: 'high-reach',
+      label: 'High Reach Behaviors',
+      description: 'Find behaviors with both high reach and good indexing',
+      prompt: `Top 10 by reach with index above ${config.overIndex}`,
+      icon: 'chart',
+      category: 'drill-down',
+    });
+  }
+
+  // Niche targeting if available
+  const nicheInsight = analysis.insights.find(i => i.type === 'NICHE_TARGETING');
+  if (nicheInsight) {
+    actions.push({
+      id: 'niche-targeting',
+      label: 'Niche Segments',
+      description: 'High-index, lower-reach segments for precision targeting',
+      prompt: `Show cells with index above ${config.nicheIndex} and reach under ${config.nicheMaxReach}%`,
+      icon: 'filter',
+      category: 'drill-down',
+    });
+  }
+
+  // === EXPLORATORY ACTIONS ===
+
+  // Under-indexed behaviors - what they don't do
+  if (hasUnderIndexed && analysis.statistics.underIndexed.length >= 3) {
+    actions.push({
+      id: 'avoid-behaviors',
+      label: 'What to Avoid',
+      description: 'Behaviors this audience under-indexes on',
+      prompt: `Bottom 10 by index with index below ${config.underIndex}`,
+      icon: 'filter',
+      category: 'drill-down',
+    });
+  }
+
+  // Audience persona/profile summary
+  if (hasInsights) {
+    actions.push({
+      id: 'audience-persona',
+      label: 'Audience Persona',
+      description: 'Get a narrative profile of this audience',
+      prompt: 'Create a detailed audience persona based on this data, including demographics, interests, and behaviors',
+      icon: 'target',
+      category: 'analysis',
+    });
+  }
+
+  // Campaign ideas
+  if (hasOverIndexed) {
+    actions.push({
+      id: 'campaign-ideas',
+      label: 'Campaign Ideas',
+      description: 'Get creative campaign concepts',
+      prompt: 'Based on this audience data, give me 3 creative campaign ideas that would resonate with them',
+      icon: 'chart',
+      category: 'analysis',
+    });
+  }
+
+  // === VISUALIZATION ACTIONS ===
+
+  // Show chart - always offer if not already showing one
+  actions.push({
+    id: 'show-chart',
+    label: 'Show Chart',
+    description: 'Visualize the top behaviors',
+    prompt: 'Show me a chart of the top over-indexed behaviors',
+    icon: 'chart',
+    category: 'visualization',
+  });
+
+  // === EXPORT/UTILITY ACTIONS ===
+
+  // Download the analysis as a deck or client-ready report
+  if (crosstabId && (hasInsights || hasTopIndexes)) {
+    const presetQuery = analysis.config.preset !== 'custom' ? `?preset=${analysis.config.preset}` : '';
+    actions.push({
+      id: 'export-pptx',
+      label: 'Download PowerPoint',
+      description: 'Insights, charts and recommendations as a .pptx deck',
+      prompt: '',
+      href: `/api/crosstabs/${encodeURIComponent(crosstabId)}/export/pptx${presetQuery}`,
+      icon: 'export',
+      category: 'export',
+    });
+    actions.push({
+      id: 'export-pdf',
+      label: 'Download PDF',
+      description: 'Branded report with charts and methodology notes',
+      prompt: '',
+      href: `/api/crosstabs/${encodeURIComponent(crosstabId)}/export/pdf${presetQuery}`,
+      icon: 'export',
+      category: 'export',
+    });
+  }
+
+  // Export summary
+  if (hasTopIndexes) {
+    actions.push({
+      id: 'export-summary',
+      label: 'Summary Report',
+      description: 'Get a formatted summary for sharing',
+      prompt: `Create a brief executive summary of the key findings from ${crosstabName} that I can share with my team`,
+      icon: 'export',
+      category: 'export',
+    });
+  }
+
+  // Limit to reasonable number of actions (prioritize by category)
+  // Show more actions to expose contextual/content-aware suggestions
+  const maxActions = 8;
+  if (actions.length > maxActions) {
+    // Prioritize: keep more analysis actions to show contextual suggestions
+    const byCategory = {
+      analysis: actions.filter(a => a.category === 'analysis'),
+      'drill-down': actions.filter(a => a.category === 'drill-down'),
+      visualization: actions.filter(a => a.category === 'visualization'),
+      export: actions.filter(a => a.category === 'export'),
+    };
+
+    const prioritized: SuggestedAction[] = [];
+
+    // Take top 3 analysis actions (to include contextual ones like Social Media Strategy)
+    prioritized.push(...byCategory.analysis.slice(0, 3));
+    // Take top 3 drill-down actions (to include Lifestyle Profile, What to Avoid)
+    prioritized.push(...byCategory['drill-down'].slice(0, 3));
+    // Take 1 visualization
+    prioritized.push(...byCategory.visualization.slice(0, 1));
+    // Take 1 export
+    prioritized.push(...byCategory.export.slice(0, 1));
+
+    return prioritized.slice(0, maxActions);
+  }
+
+  return actions;
+}
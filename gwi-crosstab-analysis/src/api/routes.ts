@@ -3,8 +3,17 @@ import {
   listCrosstabs,
   searchCrosstabs,
   getCrosstab,
+  getCrosstabGrid,
   analyzeCrosstab,
+  compareCrosstabsHandler,
+  exportCrosstab,
   handleChatMessage,
+  handleChatStream,
+  listSessions,
+  createChatSession,
+  getSession,
+  renameSession,
+  deleteSession,
 } from './handlers';
 
 export const router = Router();
@@ -13,7 +22,20 @@ export const router = Router();
 router.get('/crosstabs', listCrosstabs);
 router.get('/crosstabs/search', searchCrosstabs);
 router.get('/crosstabs/:id', getCrosstab);
+router.get('/crosstabs/:id/grid', getCrosstabGrid);
 router.post('/analyze', analyzeCrosstab);
+router.post('/compare', compareCrosstabsHandler);
 
-// Chat route
+// Export routes
+router.get('/crosstabs/:id/export/:format', exportCrosstab);
+
+// Chat routes
 router.post('/chat', handleChatMessage);
+router.post('/chat/stream', handleChatStream);
+
+// Session routes
+router.get('/sessions', listSessions);
+router.post('/sessions', createChatSession);
+router.get('/sessions/:id', getSession);
+router.patch('/sessions/:id', renameSession);
+router.delete('/sessions/:id', deleteSession);
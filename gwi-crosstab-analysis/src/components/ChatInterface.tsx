@@ -1,25 +1,31 @@
 import { useState, useRef, useEffect, useImperativeHandle, forwardRef } from 'react';
 import MessageBubble from './MessageBubble';
 import WelcomeScreen from './WelcomeScreen';
-import type { ChatMessage, PromptMetadata } from '@/lib/types';
+import type { ChatMessage, ChatSession, PromptMetadata } from '@/lib/types';
+import { readChatStream } from '@/lib/chat-stream';
+import { clientHeaders } from '@/lib/client-id';
 
 interface ChatInterfaceProps {
   selectedCrosstabId: string | null;
   onOpenPromptLibrary: () => void;
-  onSelectCrosstab: (id: string) => void;
+  onSelectCrosstab: (id: string | null) => void;
+  onSessionChange: (sessionId: string | null) => void;
 }
 
 export interface ChatInterfaceHandle {
   clearChat: () => void;
+  loadSession: (sessionId: string) => Promise<void>;
   setPrompt: (prompt: string) => void;
   sendPrompt: (prompt: string, metadata?: PromptMetadata) => void;
 }
 
 const ChatInterface = forwardRef<ChatInterfaceHandle, ChatInterfaceProps>(
-  ({ selectedCrosstabId, onOpenPromptLibrary, onSelectCrosstab }, ref) => {
+  ({ selectedCrosstabId, onOpenPromptLibrary, onSelectCrosstab, onSessionChange }, ref) => {
     const [messages, setMessages] = useState<ChatMessage[]>([]);
+    const [sessionId, setSessionId] = useState<string | null>(null);
     const [input, setInput] = useState('');
     const [loading, setLoading] = useState(false);
+    const [stageMessage, setStageMessage] = useState<string | null>(null);
     const [showScrollButton, setShowScrollButton] = useState(false);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const messagesContainerRef = useRef<HTMLDivElement>(null);
@@ -48,12 +54,39 @@ const ChatInterface = forwardRef<ChatInterfaceHandle, ChatInterfaceProps>(
       return () => container.removeEventListener('scroll', handleScroll);
     }, [messages.length]);
 
+    // The server owns the history; a new chat simply drops the session ID
+    const resetConversation = () => {
+      setMessages([]);
+      setSessionId(null);
+      onSessionChange(null);
+    };
+
+    const loadSession = async (id: string) => {
+      if (loading) return;
+
+      try {
+        const response = await fetch(`/api/sessions/${id}`, { headers: clientHeaders() });
+        if (!response.ok) {
+          throw new Error(`Request failed with status ${response.status}`);
+        }
+
+        const session: ChatSession = await response.json();
+        setMessages(session.messages.map(m => ({ ...m, timestamp: new Date(m.timestamp) })));
+        setSessionId(session.id);
+        onSelectCrosstab(session.crosstabId);
+        onSessionChange(session.id);
+      } catch (error) {
+        console.error('Failed to load session:', error);
+      }
+    };
+
     // Expose methods to parent via ref
     useImperativeHandle(ref, () => ({
       clearChat: () => {
-        setMessages([]);
+        resetConversation();
         setInput('');
       },
+      loadSession,
       setPrompt: (prompt: string) => {
         setInput(prompt);
         inputRef.current?.focus();
@@ -83,31 +116,56 @@ const ChatInterface = forwardRef<ChatInterfaceHandle, ChatInterfaceProps>(
       setLoading(true);
 
       try {
-        const response = await fetch('/api/chat', {
+        const response = await fetch('/api/chat/stream', {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: clientHeaders({ 'Content-Type': 'application/json' }),
           body: JSON.stringify({
             message: messageText,
+            sessionId,
             crosstabId: selectedCrosstabId,
-            history: messages.slice(-5),
             promptMetadata,
           }),
         });
 
-        const data = await response.json();
+        if (!response.ok || !response.body) {
+          const data = await response.json().catch(() => null);
+          throw new Error(data?.error || `Request failed with status ${response.status}`);
+        }
 
-        const assistantMessage: ChatMessage = {
-          id: (Date.now() + 1).toString(),
-          role: 'assistant',
-          content: data.response,
-          timestamp: new Date(),
-          analysisType: data.analysisType,
-          crosstabs: data.crosstabs || undefined,
-          visualizations: data.visualizations || undefined,
-          suggestedActions: data.suggestedActions || undefined,
-        };
+        let failed = false;
+
+        await readChatStream(response.body, ({ event, data }) => {
+          switch (event) {
+            case 'stage':
+              setStageMessage(data.message);
+              break;
+            case 'done': {
+              setSessionId(data.sessionId);
+              onSessionChange(data.sessionId);
+              const assistantMessage: ChatMessage = {
+                id: (Date.now() + 1).toString(),
+                role: 'assistant',
+                content: data.response,
+                timestamp: new Date(),
+                analysisType: data.analysisType,
+                crosstabId: data.crosstabId || undefined,
+                crosstabs: data.crosstabs || undefined,
+                visualizations: data.visualizations || undefined,
+                suggestedActions: data.suggestedActions || undefined,
+              };
+              setMessages(prev => [...prev, assistantMessage]);
+              break;
+            }
+            case 'error':
+              failed = true;
+              console.error('Chat stream error:', data.message);
+              break;
+          }
+        });
 
-        setMessages(prev => [...prev, assistantMessage]);
+        if (failed) {
+          throw new Error('Chat stream reported an error');
+        }
       } catch (error) {
         console.error('Chat error:', error);
         const errorMessage: ChatMessage = {
@@ -119,6 +177,7 @@ const ChatInterface = forwardRef<ChatInterfaceHandle, ChatInterfaceProps>(
         setMessages(prev => [...prev, errorMessage]);
       } finally {
         setLoading(false);
+        setStageMessage(null);
       }
     };
 
@@ -188,7 +247,7 @@ const ChatInterface = forwardRef<ChatInterfaceHandle, ChatInterfaceProps>(
                       <div className="typing-dot"></div>
                       <div className="typing-dot"></div>
                     </div>
-                    <p className="text-xs text-slate-400 mt-2 ml-1">Analyzing your data...</p>
+                    <p className="text-xs text-slate-400 mt-2 ml-1">{stageMessage || 'Analyzing your data...'}</p>
                   </div>
                 </div>
               )}
@@ -281,7 +340,7 @@ const ChatInterface = forwardRef<ChatInterfaceHandle, ChatInterfaceProps>(
               </span>
               {messages.length > 0 && (
                 <button
-                  onClick={() => setMessages([])}
+                  onClick={resetConversation}
                   className="text-slate-400 hover:text-red-500 transition-colors flex items-center gap-1"
                 >
                   <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
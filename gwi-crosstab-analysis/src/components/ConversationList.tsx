@@ -0,0 +1,143 @@
+import { useState, useEffect } from 'react';
+import type { ChatSessionSummary } from '@/lib/types';
+import { clientHeaders } from '@/lib/client-id';
+
+interface ConversationListProps {
+  activeSessionId: string | null;
+  refreshKey: number;
+  onSelectSession: (id: string) => void;
+  onDeleteSession: (id: string) => void;
+}
+
+const ConversationList: React.FC<ConversationListProps> = ({
+  activeSessionId,
+  refreshKey,
+  onSelectSession,
+  onDeleteSession,
+}) => {
+  const [sessions, setSessions] = useState<ChatSessionSummary[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+
+  useEffect(() => {
+    fetchSessions();
+  }, [refreshKey]);
+
+  const fetchSessions = async () => {
+    try {
+      const response = await fetch('/api/sessions', { headers: clientHeaders() });
+      const data = await response.json();
+      setSessions(data.sessions || []);
+    } catch (error) {
+      console.error('Failed to fetch sessions:', error);
+    }
+  };
+
+  const handleRename = async (id: string) => {
+    const title = editTitle.trim();
+    setEditingId(null);
+    if (!title) return;
+
+    try {
+      const response = await fetch(`/api/sessions/${id}`, {
+        method: 'PATCH',
+        headers: clientHeaders({ 'Content-Type': 'application/json' }),
+        body: JSON.stringify({ title }),
+      });
+      if (!response.ok) {
+        throw new Error(`Request failed with status ${response.status}`);
+      }
+      setSessions(prev => prev.map(s => (s.id === id ? { ...s, title } : s)));
+    } catch (error) {
+      console.error('Failed to rename session:', error);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const response = await fetch(`/api/sessions/${id}`, { method: 'DELETE', headers: clientHeaders() });
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`Request failed with status ${response.status}`);
+      }
+      setSessions(prev => prev.filter(s => s.id !== id));
+      onDeleteSession(id);
+    } catch (error) {
+      console.error('Failed to delete session:', error);
+    }
+  };
+
+  if (sessions.length === 0) {
+    return (
+      <p className="px-4 py-3 text-xs text-slate-400 dark:text-slate-500">
+        No conversations yet
+      </p>
+    );
+  }
+
+  return (
+    <div className="overflow-y-auto custom-scrollbar px-3 pb-3 space-y-1">
+      {sessions.map(session => {
+        const isActive = session.id === activeSessionId;
+
+        return (
+          <div
+            key={session.id}
+            className={`relative group rounded-lg transition-all ${
+              isActive
+                ? 'bg-primary-50 dark:bg-primary-900/30'
+                : 'hover:bg-slate-100 dark:hover:bg-slate-700'
+            }`}
+          >
+            {editingId === session.id ? (
+              <input
+                type="text"
+                value={editTitle}
+                onChange={(e) => setEditTitle(e.target.value)}
+                onBlur={() => handleRename(session.id)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleRename(session.id);
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="w-full px-3 py-2 bg-white dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-lg text-sm text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                autoFocus
+              />
+            ) : (
+              <button
+                onClick={() => onSelectSession(session.id)}
+                onDoubleClick={() => {
+                  setEditingId(session.id);
+                  setEditTitle(session.title);
+                }}
+                className="w-full text-left px-3 py-2"
+                title="Double-click to rename"
+              >
+                <div className={`text-sm truncate pr-6 ${
+                  isActive ? 'text-primary-700 dark:text-primary-300 font-medium' : 'text-slate-700 dark:text-slate-200'
+                }`}>
+                  {session.title}
+                </div>
+                <div className="text-xs text-slate-400 dark:text-slate-500 mt-0.5">
+                  {new Date(session.updatedAt).toLocaleDateString()} · {session.messageCount} messages
+                </div>
+              </button>
+            )}
+
+            {editingId !== session.id && (
+              <button
+                onClick={() => handleDelete(session.id)}
+                className="absolute top-2 right-2 p-1 rounded opacity-0 group-hover:opacity-100 text-slate-400 hover:text-red-500 transition-all"
+                title="Delete conversation"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ConversationList;
@@ -1,7 +1,7 @@
 import { useState } from 'react';
 import ReactMarkdown from 'react-markdown';
-import type { ChatMessage } from '@/lib/types';
-import { IndexBarChart, SuggestedActions } from './visualizations';
+import type { ChatMessage, VisualizationData } from '@/lib/types';
+import { IndexBarChart, HeatmapChart, TrendLineChart, ComparisonBarChart, DataTable, ReachIndexScatter, SuggestedActions } from './visualizations';
 
 interface MessageBubbleProps {
   message: ChatMessage;
@@ -17,6 +17,10 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({
   const isUser = message.role === 'user';
   const [copied, setCopied] = useState(false);
   const [showActions, setShowActions] = useState(false);
+  const [dataTable, setDataTable] = useState<VisualizationData | null>(null);
+  const [tableOpen, setTableOpen] = useState(false);
+  const [tableLoading, setTableLoading] = useState(false);
+  const [tableError, setTableError] = useState<string | null>(null);
 
   const handleCopy = async () => {
     try {
@@ -28,6 +32,39 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({
     }
   };
 
+  // Fetch the full grid once, then just toggle it
+  const handleToggleTable = async () => {
+    if (tableOpen || dataTable) {
+      setTableOpen(!tableOpen);
+      return;
+    }
+    if (!message.crosstabId) return;
+
+    setTableLoading(true);
+    setTableError(null);
+    try {
+      const response = await fetch(`/api/crosstabs/${encodeURIComponent(message.crosstabId)}/grid`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load data table');
+      }
+      setDataTable({
+        id: `data-table-${message.crosstabId}`,
+        type: 'table',
+        title: data.crosstabName,
+        subtitle: 'Every cell in the crosstab',
+        data: [],
+        table: data.table,
+      });
+      setTableOpen(true);
+    } catch (error) {
+      console.error('Failed to load data table:', error);
+      setTableError(error instanceof Error ? error.message : 'Failed to load data table');
+    } finally {
+      setTableLoading(false);
+    }
+  };
+
   // User message - simple right-aligned bubble
   if (isUser) {
     return (
@@ -130,12 +167,56 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({
         {/* Render visualizations if available */}
         {message.visualizations && message.visualizations.length > 0 && (
           <div className="mt-5 space-y-4">
-            {message.visualizations.map((viz) => (
-              <IndexBarChart key={viz.id} visualization={viz} />
-            ))}
+            {message.visualizations.map((viz) =>
+              viz.type === 'heatmap' ? (
+                <HeatmapChart key={viz.id} visualization={viz} />
+              ) : viz.type === 'table' ? (
+                <DataTable key={viz.id} visualization={viz} />
+              ) : viz.type === 'scatter' ? (
+                <ReachIndexScatter key={viz.id} visualization={viz} onPointClick={onSendMessage} />
+              ) : viz.type === 'line' ? (
+                <TrendLineChart key={viz.id} visualization={viz} />
+              ) : viz.type === 'groupedBar' ? (
+                <ComparisonBarChart key={viz.id} visualization={viz} />
+              ) : (
+                <IndexBarChart key={viz.id} visualization={viz} />
+              )
+            )}
           </div>
         )}
 
+        {/* Full data grid and Excel download for the crosstab this answer is about */}
+        {message.crosstabId && (
+          <div className="mt-4 flex flex-wrap items-center gap-2">
+            <button
+              type="button"
+              onClick={handleToggleTable}
+              disabled={tableLoading}
+              className="inline-flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-slate-600 dark:text-slate-300 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg hover:bg-primary-50 dark:hover:bg-primary-900/30 hover:border-primary-300 dark:hover:border-primary-600 hover:text-primary-700 dark:hover:text-primary-300 transition-colors disabled:opacity-50"
+              title="Show every cell of the crosstab in a sortable, filterable table"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M3 14h18m-9-4v8m-7 0h14a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+              </svg>
+              {tableLoading ? 'Loading table...' : tableOpen ? 'Hide data table' : 'View data table'}
+            </button>
+            <a
+              href={`/api/crosstabs/${encodeURIComponent(message.crosstabId)}/export/xlsx`}
+              download
+              className="inline-flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-slate-600 dark:text-slate-300 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg hover:bg-primary-50 dark:hover:bg-primary-900/30 hover:border-primary-300 dark:hover:border-primary-600 hover:text-primary-700 dark:hover:text-primary-300 transition-colors"
+              title="Raw cells, over/under-indexed items and template outputs as an .xlsx workbook"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+              </svg>
+              Download Excel
+            </a>
+            {tableError && <span className="text-xs text-red-500">{tableError}</span>}
+          </div>
+        )}
+
+        {tableOpen && dataTable && <DataTable visualization={dataTable} />}
+
         {/* Render clickable crosstab buttons if available */}
         {message.crosstabs && message.crosstabs.length > 0 && (
           <div className="mt-5">
@@ -0,0 +1,96 @@
+import React from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import type { VisualizationData } from '../../lib/types';
+import { SERIES_COLORS } from '../../lib/brand';
+
+interface ComparisonBarChartProps {
+  visualization: VisualizationData;
+}
+
+export const ComparisonBarChart: React.FC<ComparisonBarChartProps> = ({ visualization }) => {
+  const { title, subtitle, groups, config } = visualization;
+
+  if (!groups || groups.categories.length === 0) return null;
+
+  const referenceValue = config?.referenceValue ?? 100;
+
+  // Recharts wants one record per category with a key per series
+  const chartData = groups.categories.map((label, i) => {
+    const point: Record<string, string | number | null> = { label };
+    groups.series.forEach((series, s) => {
+      point[`s${s}`] = series.values[i];
+    });
+    return point;
+  });
+
+  const chartHeight = Math.max(300, groups.categories.length * groups.series.length * 18 + 120);
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4 my-4">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+        {subtitle && <p className="text-sm text-gray-500 mt-1">{subtitle}</p>}
+      </div>
+
+      <ResponsiveContainer width="100%" height={chartHeight}>
+        <BarChart
+          data={chartData}
+          layout="vertical"
+          margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+        >
+          <CartesianGrid strokeDasharray="3 3" horizontal={true} vertical={false} />
+          <XAxis
+            type="number"
+            domain={[0, 'auto']}
+            tick={{ fontSize: 12 }}
+            axisLine={{ stroke: '#e5e7eb' }}
+          />
+          <YAxis
+            type="category"
+            dataKey="label"
+            width={150}
+            tick={{ fontSize: 11 }}
+            axisLine={{ stroke: '#e5e7eb' }}
+            tickFormatter={(value: string) =>
+              value.length > 25 ? `${value.substring(0, 22)}...` : value
+            }
+          />
+          <Tooltip />
+          <Legend wrapperStyle={{ fontSize: 12 }} />
+          <ReferenceLine
+            x={referenceValue}
+            stroke="#9ca3af"
+            strokeDasharray="5 5"
+            label={{
+              value: `Avg (${referenceValue})`,
+              position: 'top',
+              fontSize: 10,
+              fill: '#6b7280',
+            }}
+          />
+          {groups.series.map((series, s) => (
+            <Bar
+              key={series.label}
+              dataKey={`s${s}`}
+              name={series.label}
+              fill={SERIES_COLORS[s % SERIES_COLORS.length]}
+              radius={[0, 4, 4, 0]}
+            />
+          ))}
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default ComparisonBarChart;
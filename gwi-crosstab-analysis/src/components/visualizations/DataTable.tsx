@@ -0,0 +1,227 @@
+import React, { useMemo, useState } from 'react';
+import type { VisualizationData, TableRow } from '../../lib/types';
+import { getHeatmapColor } from '../../lib/brand';
+
+interface DataTableProps {
+  visualization: VisualizationData;
+}
+
+interface TableColumn {
+  key: string;
+  header: string;
+  numeric: boolean;
+  value: (row: TableRow) => string | number;
+  format?: (row: TableRow) => string;
+}
+
+// Rendering window: only rows inside the scroll viewport (plus overscan) are in the DOM
+const ROW_HEIGHT = 32;
+const VIEWPORT_HEIGHT = 480;
+const OVERSCAN = 10;
+
+const BASE_COLUMNS: TableColumn[] = [
+  { key: 'label', header: 'Row', numeric: false, value: r => r.label },
+  { key: 'audience', header: 'Audience', numeric: false, value: r => r.audienceLabel },
+];
+
+const MARKET_COLUMN: TableColumn = { key: 'location', header: 'Market', numeric: false, value: r => r.location?.toUpperCase() ?? '' };
+const WAVE_COLUMN: TableColumn = { key: 'wave', header: 'Wave', numeric: false, value: r => r.wave ?? '' };
+
+const METRIC_COLUMNS: TableColumn[] = [
+  { key: 'sample', header: 'Sample', numeric: true, value: r => r.metrics.positive_sample, format: r => r.metrics.positive_sample.toLocaleString() },
+  { key: 'size', header: 'Size', numeric: true, value: r => r.metrics.positive_size, format: r => r.metrics.positive_size.toLocaleString() },
+  { key: 'audiencePct', header: 'Audience %', numeric: true, value: r => r.metrics.audience_percentage, format: r => r.metrics.audience_percentage.toFixed(1) },
+  { key: 'datapointPct', header: 'Datapoint %', numeric: true, value: r => r.metrics.datapoint_percentage, format: r => r.metrics.datapoint_percentage.toFixed(1) },
+  { key: 'index', header: 'Index', numeric: true, value: r => r.metrics.audience_index, format: r => String(Math.round(r.metrics.audience_index)) },
+  { key: 'significant', header: 'Sig.', numeric: false, value: r => (r.significant === undefined ? '' : r.significant ? 'Yes' : 'No') },
+];
+
+const parseThreshold = (value: string): number | null => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+export const DataTable: React.FC<DataTableProps> = ({ visualization }) => {
+  const { title, subtitle, table } = visualization;
+
+  const [sort, setSort] = useState<{ key: string; direction: 'asc' | 'desc' } | null>(null);
+  const [search, setSearch] = useState('');
+  const [minIndex, setMinIndex] = useState('');
+  const [maxIndex, setMaxIndex] = useState('');
+  const [minSample, setMinSample] = useState('');
+  const [hideLowSample, setHideLowSample] = useState(false);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [copied, setCopied] = useState(false);
+
+  const columns = useMemo(() => [
+    ...BASE_COLUMNS,
+    ...(table && table.markets.length > 1 ? [MARKET_COLUMN] : []),
+    ...(table && table.waves.length > 1 ? [WAVE_COLUMN] : []),
+    ...METRIC_COLUMNS,
+  ], [table]);
+
+  const rows = useMemo(() => {
+    if (!table) return [];
+
+    const query = search.trim().toLowerCase();
+    const indexFloor = parseThreshold(minIndex);
+    const indexCeiling = parseThreshold(maxIndex);
+    const sampleFloor = parseThreshold(minSample);
+
+    const filtered = table.rows.filter(row =>
+      (!hideLowSample || !row.lowSample) &&
+      (!query || row.label.toLowerCase().includes(query) || row.audienceLabel.toLowerCase().includes(query)) &&
+      (indexFloor === null || row.metrics.audience_index >= indexFloor) &&
+      (indexCeiling === null || row.metrics.audience_index <= indexCeiling) &&
+      (sampleFloor === null || row.metrics.positive_sample >= sampleFloor)
+    );
+
+    const column = sort && columns.find(c => c.key === sort.key);
+    if (!sort || !column) return filtered;
+
+    const direction = sort.direction === 'asc' ? 1 : -1;
+    return [...filtered].sort((a, b) => {
+      const va = column.value(a);
+      const vb = column.value(b);
+      if (typeof va === 'number' && typeof vb === 'number') return (va - vb) * direction;
+      return String(va).localeCompare(String(vb)) * direction;
+    });
+  }, [table, columns, sort, search, minIndex, maxIndex, minSample, hideLowSample]);
+
+  if (!table) return null;
+
+  const handleSort = (key: string, numeric: boolean) => {
+    setSort(current => {
+      // Numbers sort high-to-low first, text A-Z first; a third click restores API order
+      const first = numeric ? 'desc' : 'asc';
+      if (!current || current.key !== key) return { key, direction: first };
+      if (current.direction === first) return { key, direction: first === 'asc' ? 'desc' : 'asc' };
+      return null;
+    });
+  };
+
+  // Tab-separated so it pastes straight into a spreadsheet
+  const handleCopy = async () => {
+    const lines = [
+      columns.map(c => c.header).join('\t'),
+      ...rows.map(row => columns.map(c => String(c.value(row))).join('\t')),
+    ];
+    try {
+      await navigator.clipboard.writeText(lines.join('\n'));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const end = Math.min(rows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const visibleRows = rows.slice(start, end);
+
+  const inputClassName = 'w-20 px-2 py-1 text-xs border border-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-primary-500';
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4 my-4">
+      <div className="mb-4 flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+          {subtitle && <p className="text-sm text-gray-500 mt-1">{subtitle}</p>}
+        </div>
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="flex-shrink-0 px-3 py-1.5 text-xs font-medium text-gray-600 border border-gray-200 rounded-lg hover:bg-gray-50"
+          title="Copy the filtered rows as tab-separated values"
+        >
+          {copied ? 'Copied' : `Copy ${rows.length.toLocaleString()} rows`}
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3 mb-3 text-xs text-gray-600">
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Filter rows or audiences"
+          className="w-48 px-2 py-1 text-xs border border-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-primary-500"
+        />
+        <label className="flex items-center gap-1">
+          Index ≥
+          <input type="number" value={minIndex} onChange={(e) => setMinIndex(e.target.value)} className={inputClassName} />
+        </label>
+        <label className="flex items-center gap-1">
+          Index ≤
+          <input type="number" value={maxIndex} onChange={(e) => setMaxIndex(e.target.value)} className={inputClassName} />
+        </label>
+        <label className="flex items-center gap-1">
+          Sample ≥
+          <input type="number" value={minSample} onChange={(e) => setMinSample(e.target.value)} className={inputClassName} />
+        </label>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={hideLowSample} onChange={(e) => setHideLowSample(e.target.checked)} />
+          Hide n&lt;{table.minSample}
+        </label>
+      </div>
+
+      <div
+        className="overflow-auto border border-gray-100 rounded"
+        style={{ maxHeight: VIEWPORT_HEIGHT }}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <table className="w-full text-xs">
+          <thead className="sticky top-0 bg-gray-50 z-10">
+            <tr>
+              {columns.map(column => (
+                <th
+                  key={column.key}
+                  className={`px-2 py-2 font-medium text-gray-700 whitespace-nowrap ${column.numeric ? 'text-right' : 'text-left'}`}
+                >
+                  <button type="button" className="hover:text-primary-600" onClick={() => handleSort(column.key, column.numeric)}>
+                    {column.header}
+                    {sort?.key === column.key && (sort.direction === 'desc' ? ' ▼' : ' ▲')}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {start > 0 && <tr style={{ height: start * ROW_HEIGHT }} />}
+            {visibleRows.map((row, i) => (
+              <tr
+                key={start + i}
+                className={`border-t border-gray-100 ${row.lowSample ? 'text-gray-400' : 'text-gray-800'}`}
+                style={{ height: ROW_HEIGHT }}
+                title={row.lowSample ? `Sample below ${table.minSample}; treat with caution` : undefined}
+              >
+                {columns.map(column => (
+                  <td
+                    key={column.key}
+                    className={`px-2 whitespace-nowrap ${column.numeric ? 'text-right tabular-nums' : 'text-left max-w-[240px] truncate'}`}
+                    style={column.key === 'index' && !row.lowSample
+                      ? { backgroundColor: getHeatmapColor(row.metrics.audience_index) }
+                      : undefined}
+                  >
+                    {column.format ? column.format(row) : column.value(row)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {end < rows.length && <tr style={{ height: (rows.length - end) * ROW_HEIGHT }} />}
+          </tbody>
+        </table>
+
+        {rows.length === 0 && (
+          <p className="text-center text-xs text-gray-400 py-6">No cells match the filters</p>
+        )}
+      </div>
+
+      <p className="text-center text-xs text-gray-400 mt-2">
+        {rows.length.toLocaleString()} of {table.rows.length.toLocaleString()} cells · greyed cells are below n={table.minSample}
+      </p>
+    </div>
+  );
+};
+
+export default DataTable;
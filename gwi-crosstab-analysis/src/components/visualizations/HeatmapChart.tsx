@@ -0,0 +1,269 @@
+import React, { useMemo, useState } from 'react';
+import type { VisualizationData, HeatmapCell } from '../../lib/types';
+import { BRAND_COLORS, getHeatmapColor } from '../../lib/brand';
+
+interface HeatmapChartProps {
+  visualization: VisualizationData;
+}
+
+type SortDirection = 'desc' | 'asc';
+
+// Rows sort by a column's values (or by label when column is null); columns sort by a row's values
+interface SortState {
+  axis: 'rows' | 'columns';
+  key: number | null;
+  direction: SortDirection;
+}
+
+interface HoveredCell {
+  row: number;
+  column: number;
+  x: number;
+  y: number;
+}
+
+// Cycle a header through descending → ascending → original order
+function nextSort(current: SortState | null, axis: SortState['axis'], key: number | null): SortState | null {
+  if (!current || current.axis !== axis || current.key !== key) return { axis, key, direction: key === null ? 'asc' : 'desc' };
+  if (key === null ? current.direction === 'asc' : current.direction === 'desc') {
+    return { axis, key, direction: key === null ? 'desc' : 'asc' };
+  }
+  return null;
+}
+
+function sortIndicator(sort: SortState | null, axis: SortState['axis'], key: number | null): string {
+  if (!sort || sort.axis !== axis || sort.key !== key) return '';
+  return sort.direction === 'desc' ? ' ▼' : ' ▲';
+}
+
+/**
+ * Order indexes by value, keeping masked/missing cells (null) at the end
+ */
+function orderByValues(indexes: number[], valueAt: (i: number) => number | null, direction: SortDirection): number[] {
+  return [...indexes].sort((a, b) => {
+    const va = valueAt(a);
+    const vb = valueAt(b);
+    if (va === null && vb === null) return 0;
+    if (va === null) return 1;
+    if (vb === null) return -1;
+    return direction === 'desc' ? vb - va : va - vb;
+  });
+}
+
+// Tooltip listing every metric of the hovered cell
+const CellTooltip: React.FC<{
+  row: string;
+  column: string;
+  cell: HeatmapCell | null;
+  minSample?: number;
+  referenceValue: number;
+  x: number;
+  y: number;
+}> = ({ row, column, cell, minSample, referenceValue, x, y }) => {
+  const metrics = cell?.metrics;
+  const diff = metrics ? Math.round(metrics.audience_index - referenceValue) : 0;
+
+  return (
+    <div
+      className="fixed z-50 pointer-events-none bg-white border border-gray-200 rounded-lg shadow-lg p-3 max-w-xs"
+      style={{ left: x + 12, top: y + 12 }}
+    >
+      <p className="font-semibold text-gray-900 text-sm">{row}</p>
+      <p className="text-xs text-gray-500 mb-1">{column}</p>
+      {!metrics ? (
+        <p className="text-xs text-gray-500">No data for this cell</p>
+      ) : (
+        <div className="space-y-1 text-xs">
+          {cell.masked && (
+            <p className="text-amber-600 font-medium">
+              Sample below {minSample ? `n=${minSample}` : 'the minimum'}; not reported
+            </p>
+          )}
+          <p className="text-gray-700">
+            <span className="font-medium">Index:</span> {Math.round(metrics.audience_index)}{' '}
+            <span className={diff >= 0 ? 'text-blue-600' : 'text-red-600'}>
+              ({diff >= 0 ? `+${diff}` : diff} vs avg)
+            </span>
+          </p>
+          <p className="text-gray-600">
+            <span className="font-medium">Audience %:</span> {metrics.audience_percentage.toFixed(1)}%
+          </p>
+          <p className="text-gray-600">
+            <span className="font-medium">Datapoint %:</span> {metrics.datapoint_percentage.toFixed(1)}%
+          </p>
+          <p className="text-gray-500">
+            <span className="font-medium">Sample:</span> {metrics.positive_sample.toLocaleString()}
+          </p>
+          <p className="text-gray-500">
+            <span className="font-medium">Size:</span> {metrics.positive_size.toLocaleString()}
+          </p>
+          {metrics.audience_sample !== undefined && (
+            <p className="text-gray-500">
+              <span className="font-medium">Audience sample:</span> {metrics.audience_sample.toLocaleString()}
+            </p>
+          )}
+          {metrics.base_sample !== undefined && (
+            <p className="text-gray-500">
+              <span className="font-medium">Base sample:</span> {metrics.base_sample.toLocaleString()}
+            </p>
+          )}
+          {cell.significant !== undefined && (
+            <p className={cell.significant ? 'text-green-600' : 'text-gray-500'}>
+              {cell.significant ? 'Statistically significant' : 'Not statistically significant'}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const HeatmapChart: React.FC<HeatmapChartProps> = ({ visualization }) => {
+  const { title, subtitle, heatmap, config } = visualization;
+  const [sort, setSort] = useState<SortState | null>(null);
+  const [hovered, setHovered] = useState<HoveredCell | null>(null);
+
+  const rowOrder = useMemo(() => {
+    if (!heatmap) return [];
+    const indexes = heatmap.rows.map((_, i) => i);
+    if (!sort || sort.axis !== 'rows') return indexes;
+    if (sort.key === null) {
+      const sorted = [...indexes].sort((a, b) => heatmap.rows[a].localeCompare(heatmap.rows[b]));
+      return sort.direction === 'asc' ? sorted : sorted.reverse();
+    }
+    const column = sort.key;
+    return orderByValues(indexes, i => heatmap.values[i]?.[column] ?? null, sort.direction);
+  }, [heatmap, sort]);
+
+  const columnOrder = useMemo(() => {
+    if (!heatmap) return [];
+    const indexes = heatmap.columns.map((_, i) => i);
+    if (!sort || sort.axis !== 'columns' || sort.key === null) return indexes;
+    const row = sort.key;
+    return orderByValues(indexes, i => heatmap.values[row]?.[i] ?? null, sort.direction);
+  }, [heatmap, sort]);
+
+  if (!heatmap || heatmap.rows.length === 0) return null;
+
+  const referenceValue = heatmap.referenceValue ?? config?.referenceValue ?? 100;
+  const hasMasked = heatmap.cells?.some(row => row.some(cell => cell?.masked)) ?? false;
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4 my-4">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+        {subtitle && <p className="text-sm text-gray-500 mt-1">{subtitle}</p>}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs border-separate" style={{ borderSpacing: 2 }}>
+          <thead>
+            <tr>
+              <th className="text-left font-medium text-gray-500 px-2 py-1">
+                <button
+                  type="button"
+                  className="hover:text-gray-900"
+                  onClick={() => setSort(nextSort(sort, 'rows', null))}
+                  title="Sort rows by name"
+                >
+                  {config?.yAxisLabel ?? 'Row'}{sortIndicator(sort, 'rows', null)}
+                </button>
+              </th>
+              {columnOrder.map((columnIndex) => (
+                <th key={heatmap.columns[columnIndex]} className="font-medium text-gray-700 px-2 py-1 text-center">
+                  <button
+                    type="button"
+                    className="hover:text-primary-600"
+                    onClick={() => setSort(nextSort(sort, 'rows', columnIndex))}
+                    title={`Sort rows by ${heatmap.columns[columnIndex]}`}
+                  >
+                    {heatmap.columns[columnIndex]}{sortIndicator(sort, 'rows', columnIndex)}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rowOrder.map((rowIndex) => {
+              const row = heatmap.rows[rowIndex];
+              return (
+                <tr key={`${row}-${rowIndex}`}>
+                  <td className="text-gray-700 px-2 py-1 max-w-[200px] truncate">
+                    <button
+                      type="button"
+                      className="max-w-full truncate text-left hover:text-primary-600"
+                      onClick={() => setSort(nextSort(sort, 'columns', rowIndex))}
+                      title={`${row} (click to sort columns by this row)`}
+                    >
+                      {row}{sortIndicator(sort, 'columns', rowIndex)}
+                    </button>
+                  </td>
+                  {columnOrder.map((columnIndex) => {
+                    const column = heatmap.columns[columnIndex];
+                    const value = heatmap.values[rowIndex]?.[columnIndex] ?? null;
+                    const strong = value !== null && Math.abs(value - referenceValue) >= 50;
+                    const masked = heatmap.cells?.[rowIndex]?.[columnIndex]?.masked ?? false;
+
+                    return (
+                      <td
+                        key={column}
+                        className={`px-2 py-1.5 text-center rounded cursor-default ${strong ? 'text-white font-semibold' : masked ? 'text-gray-400' : 'text-gray-800'}`}
+                        style={{ backgroundColor: getHeatmapColor(value, referenceValue) }}
+                        onMouseMove={(e) => setHovered({ row: rowIndex, column: columnIndex, x: e.clientX, y: e.clientY })}
+                        onMouseLeave={() => setHovered(null)}
+                        // Without per-cell metrics the native title is the only tooltip
+                        title={heatmap.cells ? undefined : value === null ? `${row} · ${column}: insufficient sample` : `${row} · ${column}: index ${value}`}
+                      >
+                        {value ?? (masked && heatmap.minSample ? `n<${heatmap.minSample}` : '–')}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {hovered && heatmap.cells && (
+        <CellTooltip
+          row={heatmap.rows[hovered.row]}
+          column={heatmap.columns[hovered.column]}
+          cell={heatmap.cells[hovered.row]?.[hovered.column] ?? null}
+          minSample={heatmap.minSample}
+          referenceValue={referenceValue}
+          x={hovered.x}
+          y={hovered.y}
+        />
+      )}
+
+      {/* Legend */}
+      <div className="flex flex-wrap justify-center gap-4 mt-4 text-xs text-gray-600">
+        <div className="flex items-center gap-1">
+          <div className="w-3 h-3 rounded" style={{ backgroundColor: BRAND_COLORS.blue }} />
+          <span>Over-index</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <div className="w-3 h-3 rounded border border-gray-200" style={{ backgroundColor: BRAND_COLORS.white }} />
+          <span>Average ({referenceValue})</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <div className="w-3 h-3 rounded" style={{ backgroundColor: BRAND_COLORS.red }} />
+          <span>Under-index</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <div className="w-3 h-3 rounded" style={{ backgroundColor: BRAND_COLORS.empty }} />
+          <span>
+            {hasMasked && heatmap.minSample ? `Sample below ${heatmap.minSample}` : 'Insufficient sample'}
+          </span>
+        </div>
+      </div>
+
+      <p className="text-center text-xs text-gray-400 mt-2">
+        Click a column or row heading to sort
+      </p>
+    </div>
+  );
+};
+
+export default HeatmapChart;
@@ -11,27 +11,12 @@ import {
   Cell,
 } from 'recharts';
 import type { VisualizationData, BarChartDataPoint } from '../../lib/types';
+import { BRAND_COLORS, getIndexColor } from '../../lib/brand';
 
 interface IndexBarChartProps {
   visualization: VisualizationData;
 }
 
-// GWI color scheme
-const COLORS = {
-  blue: '#0066CC',
-  green: '#22c55e',
-  red: '#ef4444',
-  gray: '#9ca3af',
-};
-
-// Get color based on value relative to reference (100 = baseline)
-function getBarColor(value: number, referenceValue: number = 100): string {
-  if (value >= referenceValue + 20) return COLORS.blue;  // Strong over-index
-  if (value >= referenceValue) return '#60a5fa';         // Slight over-index
-  if (value >= referenceValue - 20) return COLORS.gray;  // Near baseline
-  return COLORS.red;                                      // Under-index
-}
-
 // Custom tooltip component
 const CustomTooltip: React.FC<{
   active?: boolean;
@@ -126,7 +111,7 @@ export const IndexBarChart: React.FC<IndexBarChartProps> = ({ visualization }) =
             {chartData.map((entry, index) => (
               <Cell
                 key={`cell-${index}`}
-                fill={getBarColor(entry.value, referenceValue)}
+                fill={getIndexColor(entry.value, referenceValue)}
               />
             ))}
           </Bar>
@@ -136,19 +121,19 @@ export const IndexBarChart: React.FC<IndexBarChartProps> = ({ visualization }) =
       {/* Legend */}
       <div className="flex flex-wrap justify-center gap-4 mt-4 text-xs text-gray-600">
         <div className="flex items-center gap-1">
-          <div className="w-3 h-3 rounded" style={{ backgroundColor: COLORS.blue }} />
+          <div className="w-3 h-3 rounded" style={{ backgroundColor: BRAND_COLORS.blue }} />
           <span>Strong over-index (120+)</span>
         </div>
         <div className="flex items-center gap-1">
-          <div className="w-3 h-3 rounded" style={{ backgroundColor: '#60a5fa' }} />
+          <div className="w-3 h-3 rounded" style={{ backgroundColor: BRAND_COLORS.lightBlue }} />
           <span>Slight over-index</span>
         </div>
         <div className="flex items-center gap-1">
-          <div className="w-3 h-3 rounded" style={{ backgroundColor: COLORS.gray }} />
+          <div className="w-3 h-3 rounded" style={{ backgroundColor: BRAND_COLORS.gray }} />
           <span>Near average</span>
         </div>
         <div className="flex items-center gap-1">
-          <div className="w-3 h-3 rounded" style={{ backgroundColor: COLORS.red }} />
+          <div className="w-3 h-3 rounded" style={{ backgroundColor: BRAND_COLORS.red }} />
           <span>Under-index</span>
         </div>
       </div>
@@ -0,0 +1,147 @@
+import React from 'react';
+import {
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  ZAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+  Cell,
+} from 'recharts';
+import type { VisualizationData, ScatterPoint } from '../../lib/types';
+import { QUADRANT_COLORS } from '../../lib/brand';
+import { getReachIndexQuadrant, type ReachIndexQuadrant } from '../../lib/reach-index';
+
+interface ReachIndexScatterProps {
+  visualization: VisualizationData;
+  onPointClick?: (prompt: string) => void;
+}
+
+const QUADRANTS: Record<ReachIndexQuadrant, { label: string; color: string }> = {
+  core: { label: 'High reach, high index', color: QUADRANT_COLORS.core },
+  niche: { label: 'Niche: low reach, high index', color: QUADRANT_COLORS.niche },
+  mainstream: { label: 'Mainstream: high reach, low index', color: QUADRANT_COLORS.mainstream },
+  'low-priority': { label: 'Low reach, low index', color: QUADRANT_COLORS['low-priority'] },
+};
+
+// Custom tooltip component
+const ScatterTooltip: React.FC<{
+  active?: boolean;
+  payload?: Array<{ payload: ScatterPoint }>;
+  clickable: boolean;
+}> = ({ active, payload, clickable }) => {
+  if (!active || !payload || !payload.length) return null;
+
+  const point = payload[0].payload;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg shadow-lg p-3 max-w-xs">
+      <p className="font-semibold text-gray-900 text-sm mb-1">{point.label}</p>
+      <div className="space-y-1 text-xs">
+        <p className="text-gray-700">
+          <span className="font-medium">Index:</span> {point.index}
+        </p>
+        <p className="text-gray-600">
+          <span className="font-medium">Reach:</span> {point.reach}% of audience
+        </p>
+        <p className="text-gray-500">
+          <span className="font-medium">Sample:</span> {point.sample.toLocaleString()}
+        </p>
+        {point.significant !== undefined && (
+          <p className={point.significant ? 'text-green-600' : 'text-gray-500'}>
+            {point.significant ? 'Statistically significant' : 'Not statistically significant'}
+          </p>
+        )}
+        {clickable && <p className="text-primary-600 pt-1">Click to explore</p>}
+      </div>
+    </div>
+  );
+};
+
+export const ReachIndexScatter: React.FC<ReachIndexScatterProps> = ({ visualization, onPointClick }) => {
+  const { title, subtitle, scatter, config } = visualization;
+
+  if (!scatter || scatter.points.length === 0) return null;
+
+  const referenceValue = config?.referenceValue ?? 100;
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4 my-4">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+        {subtitle && <p className="text-sm text-gray-500 mt-1">{subtitle}</p>}
+      </div>
+
+      <ResponsiveContainer width="100%" height={380}>
+        <ScatterChart margin={{ top: 10, right: 30, left: 0, bottom: 20 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            type="number"
+            dataKey="reach"
+            name="Reach"
+            unit="%"
+            domain={[0, 100]}
+            tick={{ fontSize: 11 }}
+            axisLine={{ stroke: '#e5e7eb' }}
+            label={{ value: config?.xAxisLabel ?? 'Reach', position: 'insideBottom', offset: -10, fontSize: 11, fill: '#6b7280' }}
+          />
+          <YAxis
+            type="number"
+            dataKey="index"
+            name="Index"
+            domain={['auto', 'auto']}
+            tick={{ fontSize: 11 }}
+            axisLine={{ stroke: '#e5e7eb' }}
+          />
+          <ZAxis type="number" dataKey="sample" range={[40, 400]} name="Sample" />
+          <Tooltip content={<ScatterTooltip clickable={!!onPointClick} />} cursor={{ strokeDasharray: '3 3' }} />
+          <ReferenceLine y={referenceValue} stroke="#e5e7eb" />
+          <ReferenceLine
+            x={scatter.reachThreshold}
+            stroke="#9ca3af"
+            strokeDasharray="5 5"
+            label={{ value: `${scatter.reachThreshold}% reach`, position: 'top', fontSize: 10, fill: '#6b7280' }}
+          />
+          <ReferenceLine
+            y={scatter.indexThreshold}
+            stroke="#9ca3af"
+            strokeDasharray="5 5"
+            label={{ value: `Index ${scatter.indexThreshold}`, position: 'right', fontSize: 10, fill: '#6b7280' }}
+          />
+          <Scatter
+            data={scatter.points}
+            onClick={(point: ScatterPoint) => onPointClick?.(point.prompt)}
+            cursor={onPointClick ? 'pointer' : undefined}
+          >
+            {scatter.points.map((point, index) => (
+              <Cell
+                key={`point-${index}`}
+                fill={QUADRANTS[getReachIndexQuadrant(point.reach, point.index, scatter)].color}
+                fillOpacity={0.7}
+              />
+            ))}
+          </Scatter>
+        </ScatterChart>
+      </ResponsiveContainer>
+
+      {/* Legend */}
+      <div className="flex flex-wrap justify-center gap-4 mt-4 text-xs text-gray-600">
+        {Object.entries(QUADRANTS).map(([quadrant, { label, color }]) => (
+          <div key={quadrant} className="flex items-center gap-1">
+            <div className="w-3 h-3 rounded-full" style={{ backgroundColor: color }} />
+            <span>{label}</span>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-center text-xs text-gray-400 mt-2">
+        Bubble size shows sample size
+      </p>
+    </div>
+  );
+};
+
+export default ReachIndexScatter;
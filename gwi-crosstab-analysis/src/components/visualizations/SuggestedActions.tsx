@@ -46,6 +46,8 @@ const DefaultIcon: React.FC<{ className?: string }> = ({ className }) => (
   </svg>
 );
 
+const actionClassName = 'group inline-flex items-center gap-2 px-3 py-2 text-sm font-medium text-slate-600 dark:text-slate-300 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl hover:bg-primary-50 dark:hover:bg-primary-900/30 hover:border-primary-300 dark:hover:border-primary-600 hover:text-primary-700 dark:hover:text-primary-300 transition-all duration-150 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-1 dark:focus:ring-offset-slate-900';
+
 export const SuggestedActions: React.FC<SuggestedActionsProps> = ({
   actions,
   onActionClick,
@@ -90,18 +92,38 @@ export const SuggestedActions: React.FC<SuggestedActionsProps> = ({
               <div className="flex flex-wrap gap-2">
                 {categoryActions.map((action) => {
                   const IconComponent = action.icon ? icons[action.icon] : DefaultIcon;
+                  const content = (
+                    <>
+                      {IconComponent && (
+                        <IconComponent className="w-4 h-4 text-slate-400 dark:text-slate-500 group-hover:text-primary-500 dark:group-hover:text-primary-400 transition-colors" />
+                      )}
+                      <span>{action.label}</span>
+                    </>
+                  );
+
+                  // Download actions are plain links so the browser handles the file
+                  if (action.href) {
+                    return (
+                      <a
+                        key={action.id}
+                        href={action.href}
+                        download
+                        className={actionClassName}
+                        title={action.description}
+                      >
+                        {content}
+                      </a>
+                    );
+                  }
 
                   return (
                     <button
                       key={action.id}
                       onClick={() => onActionClick(action.prompt)}
-                      className="group inline-flex items-center gap-2 px-3 py-2 text-sm font-medium text-slate-600 dark:text-slate-300 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl hover:bg-primary-50 dark:hover:bg-primary-900/30 hover:border-primary-300 dark:hover:border-primary-600 hover:text-primary-700 dark:hover:text-primary-300 transition-all duration-150 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-1 dark:focus:ring-offset-slate-900"
+                      className={actionClassName}
                       title={action.description}
                     >
-                      {IconComponent && (
-                        <IconComponent className="w-4 h-4 text-slate-400 dark:text-slate-500 group-hover:text-primary-500 dark:group-hover:text-primary-400 transition-colors" />
-                      )}
-                      <span>{action.label}</span>
+                      {content}
                     </button>
                   );
                 })}
@@ -0,0 +1,95 @@
+import React from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import type { VisualizationData } from '../../lib/types';
+import { SERIES_COLORS } from '../../lib/brand';
+
+interface TrendLineChartProps {
+  visualization: VisualizationData;
+}
+
+export const TrendLineChart: React.FC<TrendLineChartProps> = ({ visualization }) => {
+  const { title, subtitle, timeSeries, config } = visualization;
+
+  if (!timeSeries || timeSeries.series.length === 0) return null;
+
+  const referenceValue = config?.referenceValue ?? 100;
+
+  // Recharts wants one object per x-axis category with a key per series
+  const chartData = timeSeries.categories.map((category, i) => {
+    const point: Record<string, string | number | null> = { category };
+    timeSeries.series.forEach((s, j) => {
+      point[`s${j}`] = s.values[i] ?? null;
+    });
+    return point;
+  });
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4 my-4">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+        {subtitle && <p className="text-sm text-gray-500 mt-1">{subtitle}</p>}
+      </div>
+
+      <ResponsiveContainer width="100%" height={320}>
+        <LineChart data={chartData} margin={{ top: 5, right: 30, left: 0, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} />
+          <XAxis
+            dataKey="category"
+            tick={{ fontSize: 11 }}
+            axisLine={{ stroke: '#e5e7eb' }}
+          />
+          <YAxis
+            domain={['auto', 'auto']}
+            tick={{ fontSize: 11 }}
+            axisLine={{ stroke: '#e5e7eb' }}
+          />
+          <Tooltip
+            contentStyle={{ fontSize: 12, borderRadius: 8 }}
+            formatter={(value: number) => [`Index ${value}`]}
+          />
+          <Legend
+            wrapperStyle={{ fontSize: 11 }}
+            formatter={(value: string) =>
+              value.length > 30 ? `${value.substring(0, 27)}...` : value
+            }
+          />
+          <ReferenceLine
+            y={referenceValue}
+            stroke="#9ca3af"
+            strokeDasharray="5 5"
+            label={{
+              value: `Avg (${referenceValue})`,
+              position: 'right',
+              fontSize: 10,
+              fill: '#6b7280',
+            }}
+          />
+          {timeSeries.series.map((s, j) => (
+            <Line
+              key={s.label}
+              type="monotone"
+              dataKey={`s${j}`}
+              name={s.label}
+              stroke={SERIES_COLORS[j % SERIES_COLORS.length]}
+              strokeWidth={2}
+              dot={{ r: 3 }}
+              connectNulls
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default TrendLineChart;
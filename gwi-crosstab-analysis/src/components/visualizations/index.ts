@@ -1,2 +1,7 @@
 export { IndexBarChart } from './IndexBarChart';
+export { HeatmapChart } from './HeatmapChart';
+export { TrendLineChart } from './TrendLineChart';
+export { ComparisonBarChart } from './ComparisonBarChart';
+export { DataTable } from './DataTable';
+export { ReachIndexScatter } from './ReachIndexScatter';
 export { SuggestedActions } from './SuggestedActions';
@@ -0,0 +1,148 @@
+import type { AnalysisConfig, AnalysisPresetName, MultipleComparisonMethod } from './types';
+
+// ============================================================================
+// PRESETS
+// ============================================================================
+
+/**
+ * Default methodology - matches the thresholds the analyzer has always used
+ */
+export const DEFAULT_ANALYSIS_CONFIG: AnalysisConfig = {
+  preset: 'standard',
+  minSample: 50,
+  confidenceLevel: 0.95,
+  multipleComparison: 'benjamini-hochberg',
+  overIndex: 120,
+  underIndex: 80,
+  strongAffinity: 150,
+  strongNegative: 50,
+  distinctiveIndex: 130,
+  nicheIndex: 140,
+  nicheMaxReach: 30,
+  highReach: 50,
+  highConfidenceSample: 200,
+  baselineLower: 95,
+  baselineUpper: 105,
+  marketSpread: 30,
+  minTrendChange: 15,
+  trendChange: 20,
+  strongTrendChange: 30,
+};
+
+export const ANALYSIS_PRESETS: Record<AnalysisPresetName, AnalysisConfig> = {
+  standard: DEFAULT_ANALYSIS_CONFIG,
+
+  // Larger samples, wider index bands and 99% confidence for client deliverables
+  strict: {
+    preset: 'strict',
+    minSample: 100,
+    confidenceLevel: 0.99,
+    multipleComparison: 'bonferroni',
+    overIndex: 130,
+    underIndex: 70,
+    strongAffinity: 170,
+    strongNegative: 40,
+    distinctiveIndex: 140,
+    nicheIndex: 150,
+    nicheMaxReach: 25,
+    highReach: 50,
+    highConfidenceSample: 300,
+    baselineLower: 97,
+    baselineUpper: 103,
+    marketSpread: 40,
+    minTrendChange: 20,
+    trendChange: 25,
+    strongTrendChange: 40,
+  },
+
+  // Lower floors and narrower bands for early-stage exploration
+  exploratory: {
+    preset: 'exploratory',
+    minSample: 30,
+    confidenceLevel: 0.9,
+    multipleComparison: 'benjamini-hochberg',
+    overIndex: 110,
+    underIndex: 90,
+    strongAffinity: 130,
+    strongNegative: 60,
+    distinctiveIndex: 120,
+    nicheIndex: 125,
+    nicheMaxReach: 35,
+    highReach: 40,
+    highConfidenceSample: 150,
+    baselineLower: 92,
+    baselineUpper: 108,
+    marketSpread: 20,
+    minTrendChange: 10,
+    trendChange: 15,
+    strongTrendChange: 25,
+  },
+};
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+const MULTIPLE_COMPARISON_METHODS: MultipleComparisonMethod[] = ['benjamini-hochberg', 'bonferroni', 'none'];
+
+// Options set with a number: everything but the preset name and the correction method
+type NumericConfigOption = Exclude<keyof AnalysisConfig, 'preset' | 'multipleComparison'>;
+
+function isNumericConfigOption(key: string): key is NumericConfigOption {
+  return key in DEFAULT_ANALYSIS_CONFIG && key !== 'preset' && key !== 'multipleComparison';
+}
+
+export function isAnalysisPreset(name: unknown): name is AnalysisPresetName {
+  return typeof name === 'string' && name in ANALYSIS_PRESETS;
+}
+
+/**
+ * Build a config from a preset name plus optional per-request overrides.
+ * Unknown presets and invalid overrides are rejected so a typo never
+ * silently falls back to the default methodology.
+ *
+ * @param preset - Preset name (defaults to "standard")
+ * @param overrides - Partial threshold overrides, e.g. from a request body
+ */
+export function resolveAnalysisConfig(preset?: unknown, overrides?: unknown): AnalysisConfig {
+  if (preset !== undefined && preset !== null && !isAnalysisPreset(preset)) {
+    throw new Error(`Unknown analysis preset "${String(preset)}". Available presets: ${Object.keys(ANALYSIS_PRESETS).join(', ')}`);
+  }
+
+  const base = isAnalysisPreset(preset) ? ANALYSIS_PRESETS[preset] : DEFAULT_ANALYSIS_CONFIG;
+
+  if (overrides === undefined || overrides === null) {
+    return base;
+  }
+
+  if (typeof overrides !== 'object' || Array.isArray(overrides)) {
+    throw new Error('Analysis config overrides must be an object');
+  }
+
+  const changes: Partial<AnalysisConfig> = {};
+
+  for (const [key, value] of Object.entries(overrides)) {
+    if (key === 'multipleComparison') {
+      if (!MULTIPLE_COMPARISON_METHODS.includes(value as MultipleComparisonMethod)) {
+        throw new Error(`multipleComparison must be one of: ${MULTIPLE_COMPARISON_METHODS.join(', ')}`);
+      }
+      changes.multipleComparison = value as MultipleComparisonMethod;
+      continue;
+    }
+    if (!isNumericConfigOption(key)) {
+      throw new Error(`Unknown analysis config option "${key}"`);
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new Error(`Analysis config option "${key}" must be a number`);
+    }
+    changes[key] = value;
+  }
+
+  const config: AnalysisConfig = Object.assign({ ...base, preset: 'custom' as const }, changes);
+
+  if (!(config.confidenceLevel > 0 && config.confidenceLevel < 1)) {
+    throw new Error('confidenceLevel must be between 0 and 1 (exclusive)');
+  }
+
+  return config;
+}
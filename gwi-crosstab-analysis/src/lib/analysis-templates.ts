@@ -1,5 +1,8 @@
-import type { Crosstab, Analysis, TemplateAnalysis, AnalysisTemplate, KeyMetric } from './types';
+import type { Crosstab, Analysis, TemplateAnalysis, AnalysisTemplate, KeyMetric, AnalysisConfig, TrendSeries } from './types';
 import { matchesId, getRowName } from './types';
+import { getMarketData, getLatestWave } from './market-comparison';
+import { buildTrendAnalysis } from './trend-analysis';
+import { categorizeDatapoint, categorizeRow } from './taxonomy';
 
 // ============================================================================
 // TEMPLATE 1: AUDIENCE PROFILING
@@ -15,32 +18,25 @@ const AudienceProfilingTemplate: AnalysisTemplate = {
            crosstab.rows.length > 5;
   },
 
-  analyze: (crosstab: Crosstab, _analysis: Analysis): TemplateAnalysis => {
+  analyze: (crosstab: Crosstab, _analysis: Analysis, config: AnalysisConfig): TemplateAnalysis => {
     const data = crosstab.data || [];
-    const validData = data.filter(d => d.metrics.positive_sample >= 50);
+    const validData = data.filter(d => d.metrics.positive_sample >= config.minSample);
 
-    // Segment by categories
+    // Segment by taxonomy category
+    const categoryOf = (datapoint: string) => categorizeDatapoint(datapoint, crosstab)?.category;
     const categories = {
-      demographics: validData.filter(d =>
-        d.datapoint.includes('q1') || d.datapoint.includes('q2') ||
-        d.datapoint.includes('q4') || d.datapoint.includes('age') ||
-        d.datapoint.includes('gender')
-      ),
-      media: validData.filter(d =>
-        d.datapoint.includes('q420') || d.datapoint.includes('media') ||
-        d.datapoint.includes('platform')
-      ),
-      interests: validData.filter(d =>
-        d.datapoint.includes('q318') || d.datapoint.includes('interest')
-      ),
-      purchase: validData.filter(d =>
-        d.datapoint.includes('purchase') || d.datapoint.includes('brand')
-      )
+      demographics: validData.filter(d => categoryOf(d.datapoint) === 'demographics'),
+      media: validData.filter(d => categoryOf(d.datapoint) === 'media'),
+      interests: validData.filter(d => categoryOf(d.datapoint) === 'interests'),
+      purchase: validData.filter(d => {
+        const category = categoryOf(d.datapoint);
+        return category === 'purchase' || category === 'brands';
+      })
     };
 
-    // Find defining characteristics (index > 140)
+    // Find defining characteristics
     const definingTraits = validData
-      .filter(d => d.metrics.audience_index > 140)
+      .filter(d => d.metrics.audience_index > config.nicheIndex)
       .sort((a, b) => b.metrics.audience_index - a.metrics.audience_index)
       .slice(0, 8);
 
@@ -53,7 +49,7 @@ const AudienceProfilingTemplate: AnalysisTemplate = {
                            avgIndex > 15 ? 'Moderate' : 'Weak';
 
     return {
-      summary: `This audience shows a ${profileStrength.toLowerCase()} profile with ${definingTraits.length} defining characteristics that over-index significantly (>140).`,
+      summary: `This audience shows a ${profileStrength.toLowerCase()} profile with ${definingTraits.length} defining characteristics that over-index significantly (>${config.nicheIndex}).`,
 
       keyMetrics: [
         {
@@ -70,7 +66,7 @@ const AudienceProfilingTemplate: AnalysisTemplate = {
         {
           label: 'Defining Traits',
           value: definingTraits.length,
-          context: 'Behaviors with index >140',
+          context: `Behaviors with index >${config.nicheIndex}`,
           significance: 'positive'
         }
       ],
@@ -85,7 +81,7 @@ const AudienceProfilingTemplate: AnalysisTemplate = {
           : '**Media Consumption**: Limited media data available',
 
         categories.purchase.length > 0
-          ? `**Purchase Behavior**: Shows ${categories.purchase.filter(d => d.metrics.audience_index > 120).length} over-indexed purchase behaviors`
+          ? `**Purchase Behavior**: Shows ${categories.purchase.filter(d => d.metrics.audience_index > config.overIndex).length} over-indexed purchase behaviors`
           : '**Purchase Behavior**: Insufficient purchase data',
 
         `**Market Coverage**: Data spans ${crosstab.country_codes.length} market(s): ${crosstab.country_codes.map(c => c.toUpperCase()).join(', ')}`
@@ -115,14 +111,15 @@ const MarketComparisonTemplate: AnalysisTemplate = {
     return crosstab.country_codes && crosstab.country_codes.length >= 2;
   },
 
-  analyze: (crosstab: Crosstab, _analysis: Analysis): TemplateAnalysis => {
+  analyze: (crosstab: Crosstab, _analysis: Analysis, config: AnalysisConfig): TemplateAnalysis => {
     const markets = crosstab.country_codes;
     const data = crosstab.data || [];
 
-    // Group by market
+    // Group by market, comparing the latest wave only
+    const latestWave = getLatestWave(crosstab);
     const byMarket: { [key: string]: typeof data } = {};
     markets.forEach(m => {
-      byMarket[m] = data.filter(d => d.segment === m);
+      byMarket[m] = getMarketData(crosstab, m, latestWave);
     });
 
     // Find market-specific strengths
@@ -135,7 +132,7 @@ const MarketComparisonTemplate: AnalysisTemplate = {
     markets.forEach(market => {
       const marketData = byMarket[market] || [];
       const top = marketData
-        .filter(d => d.metrics.positive_sample >= 50)
+        .filter(d => d.metrics.positive_sample >= config.minSample)
         .sort((a, b) => b.metrics.audience_index - a.metrics.audience_index)
         .slice(0, 5);
 
@@ -159,7 +156,7 @@ const MarketComparisonTemplate: AnalysisTemplate = {
       }).filter((i): i is number => i !== null);
 
       if (marketIndexes.length === markets.length &&
-          marketIndexes.every(i => i > 120)) {
+          marketIndexes.every(i => i > config.overIndex)) {
         universalBehaviors.push({
           datapoint: dp,
           avgIndex: Math.round(marketIndexes.reduce((a, b) => a + b, 0) / marketIndexes.length)
@@ -178,7 +175,7 @@ const MarketComparisonTemplate: AnalysisTemplate = {
       const max = Math.max(...marketIndexes.map(mi => mi.index));
       const maxMarket = marketIndexes.find(mi => mi.index === max)?.market;
 
-      if (max > 130 && marketIndexes.filter(mi => mi.index > 120).length === 1 && maxMarket) {
+      if (max > config.distinctiveIndex && marketIndexes.filter(mi => mi.index > config.overIndex).length === 1 && maxMarket) {
         if (!marketSpecific[maxMarket]) {
           marketSpecific[maxMarket] = [];
         }
@@ -201,7 +198,7 @@ const MarketComparisonTemplate: AnalysisTemplate = {
 
       insights: [
         universalBehaviors.length > 0
-          ? `**Universal Appeal**: ${universalBehaviors.length} behaviors are strong across all markets (avg index >120), indicating core audience traits that transcend geography`
+          ? `**Universal Appeal**: ${universalBehaviors.length} behaviors are strong across all markets (avg index >${config.overIndex}), indicating core audience traits that transcend geography`
           : `**No Universal Traits**: Markets show distinct profiles requiring localized strategies`,
 
         ...markets.map(market => {
@@ -245,114 +242,75 @@ const TrendAnalysisTemplate: AnalysisTemplate = {
     return crosstab.wave_codes && crosstab.wave_codes.length >= 2;
   },
 
-  analyze: (crosstab: Crosstab, _analysis: Analysis): TemplateAnalysis => {
+  analyze: (crosstab: Crosstab, analysis: Analysis, config: AnalysisConfig): TemplateAnalysis => {
     const waves = crosstab.wave_codes;
-    const data = crosstab.data || [];
-
-    // Group by wave
-    const byWave: { [key: string]: typeof data } = {};
-    waves.forEach(w => {
-      byWave[w] = data.filter(d => d.wave === w);
-    });
-
-    // Calculate wave-over-wave changes
-    const trends: {
-      datapoint: string;
-      change: number;
-      pctChange: number;
-      first: number;
-      last: number;
-      direction: string;
-      significance: string;
-    }[] = [];
-    const datapoints = new Set(data.map(d => d.datapoint));
-
-    for (const dp of datapoints) {
-      const waveData = waves.map(w => {
-        const row = byWave[w]?.find(r => r.datapoint === dp);
-        return row ? row.metrics.audience_index : null;
-      }).filter((i): i is number => i !== null);
-
-      if (waveData.length >= 2) {
-        const first = waveData[0];
-        const last = waveData[waveData.length - 1];
-        const change = last - first;
-        const pctChange = ((last - first) / first) * 100;
-
-        if (Math.abs(change) > 15) {
-          trends.push({
-            datapoint: dp,
-            change,
-            pctChange: Math.round(pctChange),
-            first,
-            last,
-            direction: change > 0 ? 'Growing' : 'Declining',
-            significance: Math.abs(change) > 30 ? 'high' :
-                         Math.abs(change) > 20 ? 'medium' : 'low'
-          });
-        }
-      }
-    }
-
-    trends.sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
-
-    const growing = trends.filter(t => t.change > 0);
-    const declining = trends.filter(t => t.change < 0);
-
-    // Overall trend direction
-    const avgChange = trends.length > 0
-      ? trends.reduce((sum, t) => sum + t.change, 0) / trends.length
+    const trendAnalysis = analysis.config === config && analysis.trends
+      ? analysis.trends
+      : buildTrendAnalysis(crosstab, config);
+
+    const trends = trendAnalysis?.significant || [];
+    const growing = trends.filter(t => t.direction === 'increasing');
+    const declining = trends.filter(t => t.direction === 'decreasing');
+    const reversals = trendAnalysis?.reversals || [];
+    const accelerating = trendAnalysis?.accelerating || [];
+
+    // Overall trend direction from the average regression slope of significant trends
+    const avgSlope = trends.length > 0
+      ? trends.reduce((sum, t) => sum + t.slope, 0) / trends.length
       : 0;
 
-    const trendDirection = avgChange > 5 ? 'Strengthening' :
-                          avgChange < -5 ? 'Weakening' : 'Stable';
+    const trendDirection = avgSlope > 2 ? 'Strengthening' :
+                          avgSlope < -2 ? 'Weakening' : 'Stable';
+
+    const describe = (t: TrendSeries) =>
+      `${t.label} (${t.change > 0 ? '+' : ''}${Math.round(t.change)} pts, ${t.slope > 0 ? '+' : ''}${t.slope.toFixed(1)}/wave)`;
 
     return {
-      summary: `Across ${waves.length} time periods, detected ${trends.length} significant behavioral changes. Overall audience profile is ${trendDirection.toLowerCase()}.`,
+      summary: `Across ${waves.length} time periods, detected ${trends.length} significant behavioral changes and ${reversals.length} reversals. Overall audience profile is ${trendDirection.toLowerCase()}.`,
 
       keyMetrics: [
         {
           label: 'Trend Direction',
           value: trendDirection,
-          context: `Average change: ${Math.round(avgChange)} index points`,
-          significance: avgChange > 5 ? 'positive' :
-                       avgChange < -5 ? 'negative' : 'neutral'
+          context: `Average slope: ${avgSlope.toFixed(1)} index points per wave`,
+          significance: avgSlope > 2 ? 'positive' :
+                       avgSlope < -2 ? 'negative' : 'neutral'
         },
         {
           label: 'Growing Behaviors',
           value: growing.length,
-          context: `${growing.filter(t => t.significance === 'high').length} with high significance`,
+          context: `${growing.filter(t => t.pattern === 'accelerating').length} accelerating`,
           significance: 'positive'
         },
         {
           label: 'Declining Behaviors',
           value: declining.length,
-          context: `${declining.filter(t => t.significance === 'high').length} with high significance`,
+          context: `${declining.filter(t => t.pattern === 'accelerating').length} accelerating`,
           significance: 'negative'
         },
         {
           label: 'Time Range',
           value: `${waves[0]} to ${waves[waves.length - 1]}`,
-          context: `${waves.length} quarters`
+          context: `${waves.length} waves`
         }
       ],
 
       insights: [
         growing.length > 0
-          ? `**Emerging Opportunities**: Top growing behaviors are ${growing.slice(0, 3).map(t => {
-              return `${getRowName(t.datapoint, crosstab.rows)} (+${Math.round(t.change)} pts)`;
-            }).join(', ')}`
+          ? `**Emerging Opportunities**: Top growing behaviors are ${growing.slice(0, 3).map(describe).join(', ')}`
           : `**No Growth**: No behaviors showing significant growth - audience may be maturing`,
 
         declining.length > 0
-          ? `**Declining Affinities**: Watch for erosion in ${declining.slice(0, 3).map(t => {
-              return `${getRowName(t.datapoint, crosstab.rows)} (${Math.round(t.change)} pts)`;
-            }).join(', ')}`
+          ? `**Declining Affinities**: Watch for erosion in ${declining.slice(0, 3).map(describe).join(', ')}`
           : `**Stable Profile**: No significant behavioral declines observed`,
 
-        `**Volatility**: ${trends.filter(t => t.significance === 'high').length} behaviors show high volatility (>30 point swings)`,
+        reversals.length > 0
+          ? `**Reversals**: ${reversals.length} behaviors changed direction by more than ${config.minTrendChange} points, e.g. ${reversals.slice(0, 3).map(t => `${t.label} (turned at ${t.reversalWave})`).join(', ')}`
+          : `**Consistent Direction**: No behaviors reversed direction across the period`,
 
-        trendDirection === 'Strengthening'
+        accelerating.length > 0
+          ? `**Momentum**: ${accelerating.length} trends are accelerating in the most recent waves`
+          : trendDirection === 'Strengthening'
           ? `**Opportunity**: Strengthening profile suggests growing market opportunity`
           : trendDirection === 'Weakening'
           ? `**Risk**: Weakening profile may indicate category decline or audience shift`
@@ -361,18 +319,18 @@ const TrendAnalysisTemplate: AnalysisTemplate = {
 
       recommendations: [
         growing.length > 0
-          ? `**Invest in Growth**: Double down on emerging behaviors - ${growing.slice(0, 2).map(t => t.datapoint).join(', ')} showing strongest momentum`
+          ? `**Invest in Growth**: Double down on emerging behaviors - ${growing.slice(0, 2).map(t => t.label).join(', ')} showing strongest momentum`
           : `**Maintain Position**: Focus on defending current strengths rather than chasing growth`,
 
         declining.length > 0
           ? `**Address Declines**: Investigate causes of declining behaviors and consider whether to fight or pivot`
           : `**Sustain Engagement**: Continue current strategies to maintain stability`,
 
-        `**Forecast Planning**: Use ${Math.round(avgChange)} point quarterly change rate for ${waves.length > 2 ? 'continued' : 'future'} projections`,
+        `**Forecast Planning**: Use the ${avgSlope.toFixed(1)} point per-wave slope for ${waves.length > 2 ? 'continued' : 'future'} projections`,
 
-        trends.filter(t => t.significance === 'high').length > 5
-          ? `**Monitor Closely**: High volatility requires frequent re-evaluation of strategy`
-          : `**Long-term Planning**: Low volatility enables longer planning horizons`
+        reversals.length > 5
+          ? `**Monitor Closely**: Frequent reversals require regular re-evaluation of strategy`
+          : `**Long-term Planning**: Few reversals enable longer planning horizons`
       ]
     };
   }
@@ -394,7 +352,7 @@ const CompetitiveComparisonTemplate: AnalysisTemplate = {
                                    r.name.toLowerCase().includes('use'));
   },
 
-  analyze: (crosstab: Crosstab, _analysis: Analysis): TemplateAnalysis => {
+  analyze: (crosstab: Crosstab, _analysis: Analysis, config: AnalysisConfig): TemplateAnalysis => {
     const competitors = crosstab.columns;
     const data = crosstab.data || [];
 
@@ -412,7 +370,7 @@ const CompetitiveComparisonTemplate: AnalysisTemplate = {
         matchesId(d.audience, comp.id)
       );
 
-      const validData = compData.filter(d => d.metrics.positive_sample >= 50);
+      const validData = compData.filter(d => d.metrics.positive_sample >= config.minSample);
 
       const avgIndex = validData.length > 0
         ? Math.round(validData.reduce((sum, d) =>
@@ -451,11 +409,11 @@ const CompetitiveComparisonTemplate: AnalysisTemplate = {
           const otherProfile = competitorProfiles[otherComp.name];
           return otherProfile.topStrengths.some(s =>
             s.datapoint === strength.datapoint &&
-            s.metrics.audience_index > 120
+            s.metrics.audience_index > config.overIndex
           );
         });
 
-        if (othersWithStrength.length === 0 && strength.metrics.audience_index > 130) {
+        if (othersWithStrength.length === 0 && strength.metrics.audience_index > config.distinctiveIndex) {
           advantages.push(strength);
         }
       });
@@ -530,40 +488,26 @@ const MediaConsumptionTemplate: AnalysisTemplate = {
   description: 'Analyze media consumption, platform usage, and content preferences',
 
   applicableWhen: (crosstab: Crosstab) => {
-    const hasMediaData = crosstab.rows.some(r =>
-      r.name.toLowerCase().includes('social') ||
-      r.name.toLowerCase().includes('platform') ||
-      r.name.toLowerCase().includes('media') ||
-      r.id.includes('q420') ||
-      r.id.includes('q42011')
-    );
+    const hasMediaData = crosstab.rows.some(r => categorizeRow(r)?.category === 'media');
     return hasMediaData;
   },
 
-  analyze: (crosstab: Crosstab, _analysis: Analysis): TemplateAnalysis => {
+  analyze: (crosstab: Crosstab, _analysis: Analysis, config: AnalysisConfig): TemplateAnalysis => {
     const data = crosstab.data || [];
-    const validData = data.filter(d => d.metrics.positive_sample >= 50);
-
-    // Categorize media types
-    const socialMedia = validData.filter(d =>
-      d.datapoint.includes('q42011') ||
-      ['facebook', 'instagram', 'tiktok', 'twitter', 'linkedin', 'youtube', 'snapchat']
-        .some(platform => d.datapoint.toLowerCase().includes(platform))
-    );
-
-    const traditional = validData.filter(d =>
-      ['tv', 'television', 'radio', 'newspaper', 'magazine', 'print']
-        .some(medium => d.datapoint.toLowerCase().includes(medium))
-    );
+    const validData = data.filter(d => d.metrics.positive_sample >= config.minSample);
 
-    const digital = validData.filter(d =>
-      ['stream', 'podcast', 'ott', 'vod', 'online video']
-        .some(medium => d.datapoint.toLowerCase().includes(medium))
-    );
+    // Categorize media types by taxonomy subcategory
+    const mediaTypeOf = (datapoint: string) => {
+      const match = categorizeDatapoint(datapoint, crosstab);
+      return match?.category === 'media' ? match.subcategory : undefined;
+    };
+    const socialMedia = validData.filter(d => mediaTypeOf(d.datapoint) === 'social');
+    const traditional = validData.filter(d => mediaTypeOf(d.datapoint) === 'traditional');
+    const digital = validData.filter(d => mediaTypeOf(d.datapoint) === 'digital');
 
     // Find dominant platforms
     const dominant = validData
-      .filter(d => d.metrics.audience_index > 130)
+      .filter(d => d.metrics.audience_index > config.distinctiveIndex)
       .sort((a, b) => b.metrics.audience_index - a.metrics.audience_index);
 
     // Calculate media mix
@@ -613,7 +557,7 @@ const MediaConsumptionTemplate: AnalysisTemplate = {
         {
           label: 'Dominant Platforms',
           value: dominant.length,
-          context: 'With index >130',
+          context: `With index >${config.distinctiveIndex}`,
           significance: 'positive'
         }
       ],
@@ -626,7 +570,7 @@ const MediaConsumptionTemplate: AnalysisTemplate = {
           : `**Fragmented Consumption**: No single dominant platform - omnichannel approach required`,
 
         socialMedia.length > 0
-          ? `**Social Media**: ${socialMedia.filter(d => d.metrics.audience_index > 120).length}/${socialMedia.length} platforms over-index. Top: ${socialMedia.sort((a, b) => b.metrics.audience_index - a.metrics.audience_index)[0]?.datapoint}`
+          ? `**Social Media**: ${socialMedia.filter(d => d.metrics.audience_index > config.overIndex).length}/${socialMedia.length} platforms over-index. Top: ${socialMedia.sort((a, b) => b.metrics.audience_index - a.metrics.audience_index)[0]?.datapoint}`
           : `**Limited Social**: Low social media engagement - consider alternative channels`,
 
         `**Media Mix Balance**: ${Math.round((totalSocial + totalDigital) / (totalMediaMix || 1) * 100)}% digital vs traditional`,
@@ -677,21 +621,41 @@ export class TemplateAnalysisEngine {
     );
   }
 
+  /**
+   * Look up templates by name, case-insensitively
+   * @throws Error naming the available templates when a name is unknown
+   */
+  findTemplates(names: string[]): AnalysisTemplate[] {
+    return names.map(name => {
+      const template = this.templates.find(t => t.name.toLowerCase() === name.trim().toLowerCase());
+      if (!template) {
+        throw new Error(`Unknown template "${name}". Available: ${this.templates.map(t => t.name).join(', ')}`);
+      }
+      return template;
+    });
+  }
+
   /**
    * Apply a template to analyze a crosstab
    */
   applyTemplate(
     template: AnalysisTemplate,
     crosstab: Crosstab,
-    baseAnalysis: Analysis
+    baseAnalysis: Analysis,
+    config: AnalysisConfig = baseAnalysis.config
   ): TemplateAnalysis {
-    return template.analyze(crosstab, baseAnalysis);
+    return template.analyze(crosstab, baseAnalysis, config);
   }
 
   /**
    * Apply all applicable templates
+   * Thresholds default to the config the base analysis was run with.
    */
-  analyzeWithTemplates(crosstab: Crosstab, baseAnalysis: Analysis): {
+  analyzeWithTemplates(
+    crosstab: Crosstab,
+    baseAnalysis: Analysis,
+    config: AnalysisConfig = baseAnalysis.config
+  ): {
     [templateName: string]: TemplateAnalysis
   } {
     const applicable = this.selectTemplates(crosstab);
@@ -701,7 +665,8 @@ export class TemplateAnalysisEngine {
       results[template.name] = this.applyTemplate(
         template,
         crosstab,
-        baseAnalysis
+        baseAnalysis,
+        config
       );
     });
 
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildExpressionLabeler,
+  describeDefinition,
+  formatExpression,
+  getQuestionCode,
+  parseExpression,
+  validateExpression,
+} from './audience-expression';
+import { makeCrosstab } from '../test/fixtures';
+import type { AudienceExpression } from './types';
+
+const genZ: AudienceExpression = { question: 'q2', datapoints: ['q2_1'] };
+const tiktok: AudienceExpression = { question: 'q42011', datapoints: ['q42011_1'] };
+const instagram: AudienceExpression = { question: 'q42011', datapoints: ['q42011_2'] };
+
+describe('validateExpression', () => {
+  it('accepts well-formed and/or trees', () => {
+    expect(validateExpression({ and: [genZ, { or: [tiktok, instagram], not: true }] })).toEqual([]);
+  });
+
+  it('reports each problem with its path', () => {
+    const issues = validateExpression({
+      and: [
+        { question: '', datapoints: [] },
+        { or: [] },
+        { question: 'q1', datapoints: ['q1_1'], min_count: 2, not: 'yes' },
+      ],
+    });
+
+    expect(issues.map(issue => issue.path)).toEqual([
+      'and[0].question',
+      'and[0].datapoints',
+      'and[1].or',
+      'and[2].not',
+      'and[2].min_count',
+    ]);
+  });
+
+  it('requires exactly one kind of node', () => {
+    expect(validateExpression({ question: 'q1', datapoints: ['q1_1'], and: [] })).toHaveLength(1);
+    expect(validateExpression(['q1_1'])).toEqual([{ path: '(root)', message: 'Expression must be an object' }]);
+  });
+});
+
+describe('parseExpression', () => {
+  it('drops unknown keys and default values', () => {
+    const parsed = parseExpression({
+      question: 'q1',
+      datapoints: ['q1_1'],
+      suffixes: [],
+      min_count: 1,
+      not: false,
+      extra: 'ignored',
+    });
+
+    expect(parsed).toEqual({ question: 'q1', datapoints: ['q1_1'] });
+  });
+
+  it('returns undefined for missing or invalid expressions', () => {
+    expect(parseExpression(undefined)).toBeUndefined();
+    expect(parseExpression({ or: [] })).toBeUndefined();
+  });
+});
+
+describe('formatExpression', () => {
+  it('prints datapoints of one question as alternatives', () => {
+    expect(formatExpression({ question: 'q42011', datapoints: ['q42011_1', 'q42011_2'], suffixes: [1] }))
+      .toBe('q42011_1 OR q42011_2 (answer 1)');
+  });
+
+  it('parenthesizes groups nested in a different operator', () => {
+    const expression: AudienceExpression = { and: [genZ, { or: [tiktok, instagram] }] };
+
+    expect(formatExpression(expression)).toBe('q2_1 AND (q42011_1 OR q42011_2)');
+  });
+
+  it('does not parenthesize groups with the same operator', () => {
+    expect(formatExpression({ or: [genZ, { or: [tiktok, instagram] }] })).toBe('q2_1 OR q42011_1 OR q42011_2');
+  });
+
+  it('negates single selections and groups', () => {
+    expect(formatExpression({ ...tiktok, not: true })).toBe('NOT q42011_1');
+    expect(formatExpression({ and: [genZ, { or: [tiktok, instagram], not: true }] }))
+      .toBe('q2_1 AND NOT (q42011_1 OR q42011_2)');
+  });
+
+  it('prints min_count as "at least"', () => {
+    expect(formatExpression({ question: 'q1', datapoints: ['q1_1', 'q1_2', 'q1_3'], min_count: 2 }))
+      .toBe('at least 2 of (q1_1, q1_2, q1_3)');
+  });
+
+  it('names selections and datapoints through the labeler', () => {
+    const crosstab = makeCrosstab({ rows: 2 });
+    crosstab.bases = [{ id: 'base', name: 'Gen Z', expression: genZ }];
+    const labeler = buildExpressionLabeler(crosstab);
+
+    expect(formatExpression({ and: [genZ, { or: [tiktok, instagram] }] }, labeler))
+      .toBe('Gen Z AND (TikTok OR Instagram)');
+  });
+});
+
+describe('describeDefinition', () => {
+  it('describes what a definition selects only when that differs from its name', () => {
+    const crosstab = makeCrosstab({ rows: 2 });
+    const labeler = buildExpressionLabeler(crosstab);
+
+    expect(describeDefinition({ id: 'a', name: 'TikTok', expression: tiktok }, labeler)).toBeUndefined();
+    expect(describeDefinition({ id: 'b', name: 'Social', expression: { or: [tiktok, instagram] } }, labeler))
+      .toBe('TikTok OR Instagram');
+  });
+});
+
+describe('getQuestionCode', () => {
+  it('reads the question from the expression, then from the ID', () => {
+    expect(getQuestionCode({ id: 'custom-row', name: 'TikTok', expression: tiktok })).toBe('q42011');
+    expect(getQuestionCode({ id: 'q42011_3', name: 'Netflix' })).toBe('q42011');
+    expect(getQuestionCode({ id: 'mixed', name: 'Mixed', expression: { and: [genZ, tiktok] } })).toBeUndefined();
+  });
+});
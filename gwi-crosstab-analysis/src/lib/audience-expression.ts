@@ -0,0 +1,280 @@
+import type {
+  Crosstab,
+  RowDefinition,
+  ColumnDefinition,
+  BaseDefinition,
+  AudienceExpression,
+  QuestionExpression,
+  ExpressionIssue
+} from './types';
+import { findMatchingRow } from './types';
+
+/**
+ * Resolves a datapoint code, or a whole selection's selectionKey(), to a
+ * display label; undefined falls back to the codes
+ */
+export type ExpressionLabeler = (code: string) => string | undefined;
+
+type Definition = RowDefinition | ColumnDefinition | BaseDefinition;
+
+// Question codes as they appear in IDs: "q42011" in "q42011_3"
+const QUESTION_CODE_PATTERN = /^([a-z]+\d+[a-z\d]*)(?:[_\-.:|/]|$)/i;
+
+// ============================================================================
+// TYPE GUARDS
+// ============================================================================
+
+export function isQuestionExpression(expression: AudienceExpression): expression is QuestionExpression {
+  return 'question' in expression;
+}
+
+function getChildren(expression: AudienceExpression): AudienceExpression[] | undefined {
+  if ('and' in expression) return expression.and;
+  if ('or' in expression) return expression.or;
+  return undefined;
+}
+
+// ============================================================================
+// VALIDATION & PARSING
+// ============================================================================
+
+/**
+ * Check that a raw value is a well-formed audience expression.
+ *
+ * @returns One issue per problem found, empty when the expression is valid
+ */
+export function validateExpression(raw: unknown, path: string = ''): ExpressionIssue[] {
+  const at = (key: string) => (path ? `${path}.${key}` : key);
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return [{ path: path || '(root)', message: 'Expression must be an object' }];
+  }
+
+  const node = raw as Record<string, unknown>;
+  const kinds = ['question', 'and', 'or'].filter(key => key in node);
+  if (kinds.length !== 1) {
+    return [{ path: path || '(root)', message: 'Expression must have exactly one of "question", "and" or "or"' }];
+  }
+
+  const issues: ExpressionIssue[] = [];
+  if ('not' in node && typeof node.not !== 'boolean') {
+    issues.push({ path: at('not'), message: '"not" must be a boolean' });
+  }
+
+  const [kind] = kinds;
+  if (kind === 'and' || kind === 'or') {
+    const children = node[kind];
+    if (!Array.isArray(children) || children.length === 0) {
+      issues.push({ path: at(kind), message: `"${kind}" must be a non-empty array` });
+    } else {
+      children.forEach((child, i) => issues.push(...validateExpression(child, `${at(kind)}[${i}]`)));
+    }
+    return issues;
+  }
+
+  if (typeof node.question !== 'string' || node.question.trim() === '') {
+    issues.push({ path: at('question'), message: '"question" must be a non-empty string' });
+  }
+
+  const datapoints = node.datapoints;
+  if (!Array.isArray(datapoints) || datapoints.length === 0 || datapoints.some(d => typeof d !== 'string' || d === '')) {
+    issues.push({ path: at('datapoints'), message: '"datapoints" must be a non-empty array of datapoint codes' });
+  }
+
+  if ('suffixes' in node && (!Array.isArray(node.suffixes) || node.suffixes.some(s => !Number.isInteger(s)))) {
+    issues.push({ path: at('suffixes'), message: '"suffixes" must be an array of integers' });
+  }
+
+  if ('min_count' in node) {
+    const minCount = node.min_count;
+    if (!Number.isInteger(minCount) || (minCount as number) < 1) {
+      issues.push({ path: at('min_count'), message: '"min_count" must be a positive integer' });
+    } else if (Array.isArray(datapoints) && (minCount as number) > datapoints.length) {
+      issues.push({ path: at('min_count'), message: `"min_count" (${minCount}) exceeds the number of datapoints (${datapoints.length})` });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Read a raw API expression into the typed model.
+ * Unknown keys are dropped and `not: false` / `min_count: 1` are omitted.
+ *
+ * @returns undefined when the value is missing or invalid
+ */
+export function parseExpression(raw: unknown): AudienceExpression | undefined {
+  if (raw === undefined || raw === null || validateExpression(raw).length > 0) return undefined;
+  return normalize(raw as AudienceExpression);
+}
+
+function normalize(expression: AudienceExpression): AudienceExpression {
+  const not = expression.not ? { not: true } : {};
+
+  if ('and' in expression) return { and: expression.and.map(normalize), ...not };
+  if ('or' in expression) return { or: expression.or.map(normalize), ...not };
+
+  return {
+    question: expression.question,
+    datapoints: [...expression.datapoints],
+    ...(expression.suffixes && expression.suffixes.length > 0 ? { suffixes: [...expression.suffixes] } : {}),
+    ...(expression.min_count && expression.min_count > 1 ? { min_count: expression.min_count } : {}),
+    ...not,
+  };
+}
+
+// ============================================================================
+// PRETTY-PRINTING
+// ============================================================================
+
+/**
+ * Render an expression as readable text, e.g. "Gen Z AND TikTok (answer 1)".
+ * Datapoints within a question are alternatives, so they print as OR.
+ * Groups nested inside a different operator, and negated groups, are parenthesized.
+ */
+export function formatExpression(expression: AudienceExpression, labeler: ExpressionLabeler = () => undefined): string {
+  return formatNode(expression, labeler);
+}
+
+function formatNode(expression: AudienceExpression, labeler: ExpressionLabeler): string {
+  const body = formatBody(expression, labeler);
+  if (!expression.not) return body;
+  return childOperatorOf(expression, labeler) ? `NOT (${body})` : `NOT ${body}`;
+}
+
+function formatBody(expression: AudienceExpression, labeler: ExpressionLabeler): string {
+  if (isQuestionExpression(expression)) {
+    // A selection that another definition is built from prints as that definition's name
+    const named = !expression.suffixes?.length && !(expression.min_count && expression.min_count > 1)
+      ? labeler(selectionKey(expression))
+      : undefined;
+    if (named) return named;
+
+    const labels = expression.datapoints.map(code => labeler(code) ?? code);
+    const suffix = expression.suffixes?.length ? ` (answer ${expression.suffixes.join(', ')})` : '';
+
+    if (expression.min_count && expression.min_count > 1) {
+      return `at least ${expression.min_count} of (${labels.join(', ')})${suffix}`;
+    }
+    return labels.length > 1 ? `${labels.join(' OR ')}${suffix}` : `${labels[0]}${suffix}`;
+  }
+
+  const operator = 'and' in expression ? 'AND' : 'OR';
+  const children = getChildren(expression)!;
+  if (children.length === 1) return formatNode(children[0], labeler);
+
+  return children.map(child => {
+    const text = formatNode(child, labeler);
+    // A child that prints its own operator needs parentheses unless it is the same one
+    const childOperator = childOperatorOf(child, labeler);
+    return childOperator && childOperator !== operator && !child.not ? `(${text})` : text;
+  }).join(` ${operator} `);
+}
+
+/**
+ * The top-level operator a node prints with, if any
+ */
+function childOperatorOf(expression: AudienceExpression, labeler: ExpressionLabeler): 'AND' | 'OR' | undefined {
+  if (isQuestionExpression(expression)) {
+    if (expression.datapoints.length < 2 || (expression.min_count && expression.min_count > 1)) return undefined;
+    return !expression.suffixes?.length && labeler(selectionKey(expression)) ? undefined : 'OR';
+  }
+  const children = getChildren(expression)!;
+  if (children.length === 1) return childOperatorOf(children[0], labeler);
+  return 'and' in expression ? 'AND' : 'OR';
+}
+
+/**
+ * Lookup key for "any of these datapoints of this question", independent of order
+ */
+export function selectionKey(expression: QuestionExpression): string {
+  return `${expression.question}:${[...expression.datapoints].sort().join(',')}`;
+}
+
+/**
+ * Labels for the datapoints and selections used in a crosstab's expressions.
+ * A definition whose expression is a single plain selection names it (and,
+ * for a single datapoint, that datapoint); row IDs name themselves as a fallback.
+ */
+export function buildExpressionLabeler(crosstab: Crosstab): ExpressionLabeler {
+  const labels = new Map<string, string>();
+
+  [...crosstab.rows, ...crosstab.columns, ...(crosstab.bases || [])].forEach(definition => {
+    const expression = parseExpression(definition.expression);
+    if (!expression || !isQuestionExpression(expression) || expression.not || expression.suffixes || expression.min_count) return;
+
+    const key = selectionKey(expression);
+    if (!labels.has(key)) labels.set(key, definition.name);
+    if (expression.datapoints.length === 1 && !labels.has(expression.datapoints[0])) {
+      labels.set(expression.datapoints[0], definition.name);
+    }
+  });
+
+  crosstab.rows.forEach(row => {
+    if (!labels.has(row.id)) labels.set(row.id, row.name);
+  });
+
+  return code => labels.get(code);
+}
+
+/**
+ * What a row, column or base actually selects, when that says more than its name
+ *
+ * @returns undefined when there is no valid expression or it prints as the name itself
+ */
+export function describeDefinition(definition: Definition, labeler: ExpressionLabeler): string | undefined {
+  const expression = parseExpression(definition.expression);
+  if (!expression) return undefined;
+
+  const text = formatExpression(expression, labeler);
+  return text === definition.name ? undefined : text;
+}
+
+// ============================================================================
+// QUESTION CODES
+// ============================================================================
+
+/**
+ * Every question code an expression refers to, in first-seen order
+ */
+export function getExpressionQuestions(expression: AudienceExpression): string[] {
+  if (isQuestionExpression(expression)) return [expression.question];
+  return Array.from(new Set(getChildren(expression)!.flatMap(getExpressionQuestions)));
+}
+
+/**
+ * The question a row (or column/base) is built from.
+ * Taken from its expression when that refers to a single question, otherwise
+ * from a code-shaped ID ("q42011_3" → "q42011").
+ */
+export function getQuestionCode(definition: Definition): string | undefined {
+  const expression = parseExpression(definition.expression);
+  if (expression) {
+    const questions = getExpressionQuestions(expression);
+    if (questions.length === 1) return questions[0];
+  }
+  return definition.id.match(QUESTION_CODE_PATTERN)?.[1];
+}
+
+/**
+ * The question a data row's datapoint belongs to
+ */
+export function getDatapointQuestion(datapoint: string, crosstab: Crosstab): string | undefined {
+  const row = findMatchingRow(datapoint, crosstab.rows);
+  return row ? getQuestionCode(row) : datapoint.match(QUESTION_CODE_PATTERN)?.[1];
+}
+
+/**
+ * Group row definitions by their question code; rows with no code are left out
+ */
+export function groupRowsByQuestion(rows: RowDefinition[]): Map<string, RowDefinition[]> {
+  const groups = new Map<string, RowDefinition[]>();
+  rows.forEach(row => {
+    const question = getQuestionCode(row);
+    if (!question) return;
+    const group = groups.get(question) ?? [];
+    group.push(row);
+    groups.set(question, group);
+  });
+  return groups;
+}
@@ -0,0 +1,257 @@
+import type {
+  Crosstab,
+  CrosstabDataRow,
+  AnalysisConfig,
+  AudienceOverlap,
+  AudienceProfile,
+  AudienceDifferentiator,
+  AudienceSimilarity
+} from './types';
+import { getRowName, getColumnName } from './types';
+import { getRowLocation, getLatestWave } from './market-comparison';
+import { twoProportionZTest, audienceSampleSize, adjustPValues } from './significance';
+
+// One column's data for one datapoint, summed across markets
+interface PooledCell {
+  positiveSize: number;     // Weighted
+  positiveSample: number;   // Unweighted
+  universe: number;         // Estimated weighted audience size of the markets present
+  sample: number;           // Estimated unweighted audience sample of the markets present
+  indexSum: number;         // audience_index × universe, for a universe-weighted mean
+}
+
+// Column audience → datapoint → pooled cell
+type PooledData = Map<string, Map<string, PooledCell>>;
+
+const MAX_DIFFERENTIATORS = 10;
+
+// ============================================================================
+// AUDIENCE OVERLAP
+// ============================================================================
+
+/**
+ * Estimate how a crosstab's column audiences relate to one another.
+ *
+ * Audience sizes are not returned directly, so each column's universe is
+ * estimated per market as positive_size / audience % (the median across
+ * datapoints, which shrugs off rounding on tiny cells) and summed across
+ * markets. Every datapoint is then compared with the other columns pooled:
+ * the relative index is this column's audience % over theirs, tested with a
+ * two-proportion z-test and corrected for multiple comparisons.
+ *
+ * Overlap itself cannot be measured from a crosstab, so pairs of audiences
+ * are scored on how alike their index profiles are instead.
+ *
+ * Only the latest wave is used, and cells below the sample floor are skipped.
+ *
+ * @returns undefined when the data does not contain at least two column audiences
+ */
+export function buildAudienceOverlap(crosstab: Crosstab, config: AnalysisConfig): AudienceOverlap | undefined {
+  const wave = getLatestWave(crosstab);
+  const data = (crosstab.data || []).filter(row => !wave || !row.wave || row.wave === wave);
+
+  const audiences = Array.from(new Set(data.map(row => row.audience)));
+  if (audiences.length < 2) return undefined;
+
+  const pooled = poolByAudience(data, crosstab);
+  const sizes = new Map(audiences.map(audience => [audience, estimateSize(data, audience, crosstab)]));
+  const totalSize = Array.from(sizes.values()).reduce((sum, size) => sum + size, 0);
+  const largest = Math.max(...sizes.values());
+
+  // Test every (column, datapoint) against the other columns before correcting
+  const differentiators = new Map<string, AudienceDifferentiator[]>();
+  audiences.forEach(audience => {
+    const cells = pooled.get(audience)!;
+    const items: AudienceDifferentiator[] = [];
+
+    cells.forEach((cell, datapoint) => {
+      if (cell.positiveSample < config.minSample || cell.universe <= 0) return;
+
+      const others = audiences
+        .filter(other => other !== audience)
+        .map(other => pooled.get(other)!.get(datapoint))
+        .filter((c): c is PooledCell => !!c && c.universe > 0);
+      if (others.length === 0) return;
+
+      const othersUniverse = others.reduce((sum, c) => sum + c.universe, 0);
+      const othersSample = others.reduce((sum, c) => sum + c.sample, 0);
+      const p1 = cell.positiveSize / cell.universe;
+      const p2 = others.reduce((sum, c) => sum + c.positiveSize, 0) / othersUniverse;
+      if (!(p2 > 0)) return;
+
+      const { pValue } = twoProportionZTest(p1, cell.sample, p2, othersSample);
+      items.push({
+        datapoint,
+        label: getRowName(datapoint, crosstab.rows),
+        percentage: Math.round(p1 * 1000) / 10,
+        othersPercentage: Math.round(p2 * 1000) / 10,
+        relativeIndex: Math.round((p1 / p2) * 100),
+        index: Math.round(cell.indexSum / cell.universe),
+        sample: cell.positiveSample,
+        pValue,
+        qValue: pValue,
+        significant: false,
+      });
+    });
+
+    differentiators.set(audience, items);
+  });
+
+  const allItems = Array.from(differentiators.values()).flat();
+  const qValues = adjustPValues(allItems.map(item => item.pValue), config.multipleComparison);
+  const alpha = 1 - config.confidenceLevel;
+  allItems.forEach((item, i) => {
+    item.qValue = qValues[i];
+    item.significant = qValues[i] < alpha;
+  });
+
+  const profiles: AudienceProfile[] = audiences.map(audience => {
+    const items = differentiators.get(audience)!.filter(item => item.significant);
+    const size = sizes.get(audience)!;
+
+    return {
+      audience,
+      label: getColumnName(audience, crosstab.columns),
+      size: Math.round(size),
+      share: totalSize > 0 ? Math.round((size / totalSize) * 1000) / 10 : 0,
+      relativeSize: largest > 0 ? Math.round((size / largest) * 100) : 0,
+      distinctive: items
+        .filter(item => item.relativeIndex >= config.overIndex)
+        .sort((a, b) => b.relativeIndex - a.relativeIndex)
+        .slice(0, MAX_DIFFERENTIATORS),
+      lessLikely: items
+        .filter(item => item.relativeIndex <= config.underIndex)
+        .sort((a, b) => a.relativeIndex - b.relativeIndex)
+        .slice(0, MAX_DIFFERENTIATORS),
+    };
+  });
+
+  return {
+    wave,
+    profiles,
+    similarities: buildSimilarities(audiences, pooled, config),
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function marketKey(row: CrosstabDataRow, crosstab: Crosstab): string {
+  return getRowLocation(row, crosstab) ?? '';
+}
+
+/**
+ * Per-market universe and unweighted sample of each column audience
+ */
+function estimateMarketSizes(data: CrosstabDataRow[], crosstab: Crosstab): Map<string, { universe: number; sample: number }> {
+  const groups = new Map<string, CrosstabDataRow[]>();
+  data.forEach(row => {
+    if (!(row.metrics.audience_percentage > 0)) return;
+    const key = `${row.audience}::${marketKey(row, crosstab)}`;
+    const group = groups.get(key) ?? [];
+    group.push(row);
+    groups.set(key, group);
+  });
+
+  const estimates = new Map<string, { universe: number; sample: number }>();
+  groups.forEach((rows, key) => {
+    estimates.set(key, {
+      universe: median(rows.map(row => row.metrics.positive_size / (row.metrics.audience_percentage / 100))),
+      sample: median(rows.map(row => audienceSampleSize(row.metrics))),
+    });
+  });
+  return estimates;
+}
+
+function estimateSize(data: CrosstabDataRow[], audience: string, crosstab: Crosstab): number {
+  let total = 0;
+  estimateMarketSizes(data.filter(row => row.audience === audience), crosstab).forEach(estimate => {
+    total += estimate.universe;
+  });
+  return total;
+}
+
+/**
+ * Sum each column's datapoints across markets, weighting by market universe
+ */
+function poolByAudience(data: CrosstabDataRow[], crosstab: Crosstab): PooledData {
+  const marketSizes = estimateMarketSizes(data, crosstab);
+  const pooled: PooledData = new Map();
+
+  data.forEach(row => {
+    const estimate = marketSizes.get(`${row.audience}::${marketKey(row, crosstab)}`);
+    if (!estimate) return;
+
+    let cells = pooled.get(row.audience);
+    if (!cells) {
+      cells = new Map();
+      pooled.set(row.audience, cells);
+    }
+
+    const cell = cells.get(row.datapoint) ?? { positiveSize: 0, positiveSample: 0, universe: 0, sample: 0, indexSum: 0 };
+    cell.positiveSize += row.metrics.positive_size;
+    cell.positiveSample += row.metrics.positive_sample;
+    cell.universe += estimate.universe;
+    cell.sample += estimate.sample;
+    cell.indexSum += row.metrics.audience_index * estimate.universe;
+    cells.set(row.datapoint, cell);
+  });
+
+  // Columns with no positive audience % anywhere still get an (empty) entry
+  data.forEach(row => {
+    if (!pooled.has(row.audience)) pooled.set(row.audience, new Map());
+  });
+
+  return pooled;
+}
+
+/**
+ * Pearson correlation of each pair of columns' indexes across shared datapoints
+ */
+function buildSimilarities(audiences: string[], pooled: PooledData, config: AnalysisConfig): AudienceSimilarity[] {
+  const similarities: AudienceSimilarity[] = [];
+
+  audiences.forEach((a, i) => {
+    audiences.slice(i + 1).forEach(b => {
+      const cellsA = pooled.get(a)!;
+      const cellsB = pooled.get(b)!;
+      const pairs: [number, number][] = [];
+
+      cellsA.forEach((cellA, datapoint) => {
+        const cellB = cellsB.get(datapoint);
+        if (!cellB || cellA.universe <= 0 || cellB.universe <= 0) return;
+        if (cellA.positiveSample < config.minSample || cellB.positiveSample < config.minSample) return;
+        pairs.push([cellA.indexSum / cellA.universe, cellB.indexSum / cellB.universe]);
+      });
+
+      if (pairs.length < 3) return;
+
+      const meanA = pairs.reduce((sum, [x]) => sum + x, 0) / pairs.length;
+      const meanB = pairs.reduce((sum, [, y]) => sum + y, 0) / pairs.length;
+      let sab = 0;
+      let saa = 0;
+      let sbb = 0;
+      pairs.forEach(([x, y]) => {
+        sab += (x - meanA) * (y - meanB);
+        saa += (x - meanA) ** 2;
+        sbb += (y - meanB) ** 2;
+      });
+
+      similarities.push({
+        audiences: [a, b],
+        correlation: saa > 0 && sbb > 0 ? Math.round((sab / Math.sqrt(saa * sbb)) * 100) / 100 : 0,
+        datapoints: pairs.length,
+      });
+    });
+  });
+
+  return similarities.sort((x, y) => y.correlation - x.correlation);
+}
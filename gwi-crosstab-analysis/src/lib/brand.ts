@@ -0,0 +1,58 @@
+// ============================================================================
+// GWI BRAND PALETTE
+// ============================================================================
+// Shared by the chart components and the server-side exporters, so a chart
+// looks the same in the UI, a deck, a workbook and a PDF.
+
+export const BRAND_COLORS = {
+  blue: '#0066CC',
+  lightBlue: '#60a5fa',
+  green: '#22c55e',
+  red: '#ef4444',
+  gray: '#9ca3af',
+  text: '#1f2937',
+  muted: '#6b7280',
+  border: '#e5e7eb',
+  empty: '#f3f4f6',
+  white: '#ffffff',
+};
+
+// Reach vs. index scatter, keyed by quadrant
+export const QUADRANT_COLORS = {
+  core: BRAND_COLORS.blue,
+  niche: BRAND_COLORS.green,
+  mainstream: BRAND_COLORS.lightBlue,
+  'low-priority': BRAND_COLORS.gray,
+};
+
+// Line chart series, in order
+export const SERIES_COLORS = ['#0066CC', '#22c55e', '#ef4444', '#f59e0b', '#8b5cf6', '#60a5fa'];
+
+/**
+ * Bar colour for an index value relative to the baseline (100 = average)
+ */
+export function getIndexColor(value: number, referenceValue: number = 100): string {
+  if (value >= referenceValue + 20) return BRAND_COLORS.blue;       // Strong over-index
+  if (value >= referenceValue) return BRAND_COLORS.lightBlue;       // Slight over-index
+  if (value >= referenceValue - 20) return BRAND_COLORS.gray;       // Near baseline
+  return BRAND_COLORS.red;                                          // Under-index
+}
+
+/**
+ * Heatmap cell colour: blend from white towards blue (over-index) or red
+ * (under-index), reaching full strength at ±80 points from the baseline.
+ */
+export function getHeatmapColor(value: number | null, referenceValue: number = 100): string {
+  if (value === null) return BRAND_COLORS.empty;
+
+  const diff = value - referenceValue;
+  const strength = Math.min(Math.abs(diff) / 80, 1);
+  const target = diff >= 0 ? BRAND_COLORS.blue : BRAND_COLORS.red;
+
+  const mix = (offset: number) => {
+    const channel = parseInt(target.slice(offset, offset + 2), 16);
+    return Math.round(255 + (channel - 255) * strength).toString(16).padStart(2, '0');
+  };
+
+  return `#${mix(1)}${mix(3)}${mix(5)}`;
+}
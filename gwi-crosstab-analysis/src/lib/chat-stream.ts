@@ -0,0 +1,50 @@
+import type { ChatStreamEvents } from './types';
+
+export type ChatStreamEvent = {
+  [K in keyof ChatStreamEvents]: { event: K; data: ChatStreamEvents[K] }
+}[keyof ChatStreamEvents];
+
+/**
+ * Read the Server-Sent Events emitted by POST /api/chat/stream.
+ * EventSource only supports GET, so the stream is parsed from a fetch body.
+ *
+ * @param onEvent - Called for every complete event, in order
+ */
+export async function readChatStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ChatStreamEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (block: string) => {
+    let event = 'message';
+    const dataLines: string[] = [];
+
+    block.split('\n').forEach(line => {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) dataLines.push(line.slice(5).replace(/^ /, ''));
+    });
+
+    if (dataLines.length === 0) return;
+
+    try {
+      onEvent({ event, data: JSON.parse(dataLines.join('\n')) } as ChatStreamEvent);
+    } catch (error) {
+      console.error('Failed to parse chat stream event:', error);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = done ? '' : blocks.pop()!;
+    blocks.forEach(block => block.trim() && dispatch(block));
+
+    if (done) break;
+  }
+}
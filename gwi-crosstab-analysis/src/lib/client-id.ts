@@ -0,0 +1,33 @@
+const STORAGE_KEY = 'gwi-client-id';
+
+// Header the API scopes chat sessions by (SESSION_OWNER_HEADER on the server)
+export const CLIENT_ID_HEADER = 'X-Client-Id';
+
+let clientId: string | null = null;
+
+/**
+ * This browser's ID, created on first use and kept in localStorage so its
+ * conversations survive reloads
+ */
+export function getClientId(): string {
+  if (clientId) return clientId;
+
+  try {
+    clientId = localStorage.getItem(STORAGE_KEY);
+    if (!clientId) {
+      clientId = crypto.randomUUID();
+      localStorage.setItem(STORAGE_KEY, clientId);
+    }
+  } catch {
+    // Storage disabled: the ID lasts until the page is reloaded
+    clientId = clientId || crypto.randomUUID();
+  }
+  return clientId;
+}
+
+/**
+ * Request headers with the client ID added, for calls to the session and chat endpoints
+ */
+export function clientHeaders(headers: Record<string, string> = {}): Record<string, string> {
+  return { ...headers, [CLIENT_ID_HEADER]: getClientId() };
+}
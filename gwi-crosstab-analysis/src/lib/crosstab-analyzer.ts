@@ -6,24 +6,54 @@ import type {
   StatisticsAnalysis,
   IndexedItem,
   Insight,
-  Recommendation
+  Recommendation,
+  AnalysisConfig,
+  MarketComparison,
+  TrendAnalysis
 } from './types';
 import { findMatchingRow, findMatchingColumn } from './types';
+import { adjustPValues, criticalZ, testCellSignificance } from './significance';
+import { DEFAULT_ANALYSIS_CONFIG } from './analysis-config';
+import { buildMarketComparison, getMarketData, getLatestWave } from './market-comparison';
+import { buildTrendAnalysis } from './trend-analysis';
+import { buildAudienceOverlap } from './audience-overlap';
+import { categorizeDatapoint } from './taxonomy';
 
 export class CrosstabAnalyzer {
+  private config: AnalysisConfig;
+
+  /**
+   * @param config - Default thresholds, used when analyze() is not given a config
+   */
+  constructor(config: AnalysisConfig = DEFAULT_ANALYSIS_CONFIG) {
+    // Validates the confidence level up front rather than on the first analysis
+    criticalZ(config.confidenceLevel);
+    this.config = config;
+  }
+
   /**
    * Main analysis function
    */
-  analyze(crosstab: Crosstab): Analysis {
+  analyze(crosstab: Crosstab, config: AnalysisConfig = this.config): Analysis {
     if (!crosstab.data || crosstab.data.length === 0) {
       throw new Error('Crosstab has no data to analyze');
     }
 
+    this.annotateSignificance(crosstab, config);
+
+    // Built once: the insights read them as well
+    const markets = buildMarketComparison(crosstab, config);
+    const trends = buildTrendAnalysis(crosstab, config);
+
     return {
+      config,
       structure: this.analyzeStructure(crosstab),
-      statistics: this.calculateStatistics(crosstab),
-      insights: this.extractInsights(crosstab),
-      recommendations: this.generateRecommendations(crosstab)
+      statistics: this.calculateStatistics(crosstab, config),
+      insights: this.extractInsights(crosstab, config, markets, trends),
+      recommendations: this.generateRecommendations(crosstab, config),
+      markets,
+      trends,
+      audienceOverlap: buildAudienceOverlap(crosstab, config)
     };
   }
 
@@ -48,14 +78,35 @@ export class CrosstabAnalyzer {
     };
   }
 
+  /**
+   * Run a two-proportion z-test on every cell and store the result on the row,
+   * then adjust the p-values across all tested cells for multiple comparisons
+   */
+  annotateSignificance(crosstab: Crosstab, config: AnalysisConfig = this.config): void {
+    const data = crosstab.data || [];
+    data.forEach(row => {
+      row.significance = testCellSignificance(row.metrics, config.confidenceLevel);
+    });
+
+    const tested = data.filter(row => row.significance);
+    const qValues = adjustPValues(tested.map(row => row.significance!.pValue), config.multipleComparison);
+    const alpha = 1 - config.confidenceLevel;
+
+    tested.forEach((row, i) => {
+      row.significance!.qValue = qValues[i];
+      row.significance!.significant = qValues[i] < alpha;
+    });
+  }
+
   /**
    * Calculate key statistics
    */
-  private calculateStatistics(crosstab: Crosstab): StatisticsAnalysis {
+  private calculateStatistics(crosstab: Crosstab, config: AnalysisConfig): StatisticsAnalysis {
     const data = crosstab.data!;
 
-    // Filter for statistically significant data (n >= 50)
-    const validData = data.filter(d => d.metrics.positive_sample >= 50);
+    // Apply the sample floor, then keep cells that pass the significance test
+    const validData = data.filter(d => d.metrics.positive_sample >= config.minSample);
+    const significantData = validData.filter(d => d.significance?.significant);
 
     // Top and bottom indexes
     const sortedByIndex = [...validData].sort((a, b) =>
@@ -65,15 +116,15 @@ export class CrosstabAnalyzer {
     const topIndexes = sortedByIndex.slice(0, 10).map(d => this.toIndexedItem(d, crosstab));
     const bottomIndexes = sortedByIndex.slice(-10).reverse().map(d => this.toIndexedItem(d, crosstab));
 
-    // Over/under indexed (threshold: 20 points from 100)
+    // Over/under indexed
     const overIndexed = validData
-      .filter(d => d.metrics.audience_index >= 120)
+      .filter(d => d.metrics.audience_index >= config.overIndex)
       .sort((a, b) => b.metrics.audience_index - a.metrics.audience_index)
       .slice(0, 20)
       .map(d => this.toIndexedItem(d, crosstab));
 
     const underIndexed = validData
-      .filter(d => d.metrics.audience_index <= 80)
+      .filter(d => d.metrics.audience_index <= config.underIndex)
       .sort((a, b) => a.metrics.audience_index - b.metrics.audience_index)
       .slice(0, 20)
       .map(d => this.toIndexedItem(d, crosstab));
@@ -92,7 +143,16 @@ export class CrosstabAnalyzer {
       bottomIndexes,
       overIndexed,
       underIndexed,
-      statistically_significant: validData,
+      statistically_significant: significantData,
+      significance: {
+        confidenceLevel: config.confidenceLevel,
+        correction: config.multipleComparison,
+        testedCells: validData.filter(d => d.significance).length,
+        rawSignificantCells: validData.filter(d =>
+          d.significance && d.significance.pValue < 1 - config.confidenceLevel
+        ).length,
+        significantCells: significantData.length
+      },
       averages: {
         mean_index: Math.round(mean_index),
         mean_sample: Math.round(mean_sample)
@@ -103,37 +163,45 @@ export class CrosstabAnalyzer {
   /**
    * Extract insights from data
    */
-  private extractInsights(crosstab: Crosstab): Insight[] {
+  private extractInsights(
+    crosstab: Crosstab,
+    config: AnalysisConfig,
+    markets: MarketComparison | undefined,
+    trends: TrendAnalysis | undefined
+  ): Insight[] {
     const insights: Insight[] = [];
     const data = crosstab.data!;
-    const validData = data.filter(d => d.metrics.positive_sample >= 50);
-
-    // Insight 1: Strong affinities (index > 150)
-    const strongAffinities = validData.filter(d =>
-      d.metrics.audience_index > 150
+    const validData = data.filter(d => d.metrics.positive_sample >= config.minSample);
+    // Over/under-indexing is only reported when the cell passes the significance test
+    const significantData = validData.filter(d => d.significance?.significant);
+    const confidence = `${Math.round(config.confidenceLevel * 100)}% confidence`;
+
+    // Insight 1: Strong affinities
+    const strongAffinities = significantData.filter(d =>
+      d.metrics.audience_index > config.strongAffinity
     );
 
     if (strongAffinities.length > 0) {
       insights.push({
         type: 'STRONG_AFFINITY',
         title: 'Strong Behavioral Affinities Detected',
-        description: `Found ${strongAffinities.length} behaviors with very high over-indexing (>150). These represent core characteristics of the audience.`,
+        description: `Found ${strongAffinities.length} behaviors with very high over-indexing (>${config.strongAffinity}), significant at ${confidence}. These represent core characteristics of the audience.`,
         data: strongAffinities.slice(0, 20),
         significance: 'high'
       });
     }
 
-    // Insight 2: Moderate over-indexing (120-150)
-    const moderateAffinities = validData.filter(d =>
-      d.metrics.audience_index >= 120 &&
-      d.metrics.audience_index <= 150
+    // Insight 2: Moderate over-indexing
+    const moderateAffinities = significantData.filter(d =>
+      d.metrics.audience_index >= config.overIndex &&
+      d.metrics.audience_index <= config.strongAffinity
     );
 
     if (moderateAffinities.length > 0) {
       insights.push({
         type: 'MODERATE_AFFINITY',
         title: 'Moderate Over-Indexing Behaviors',
-        description: `Found ${moderateAffinities.length} behaviors with moderate over-indexing (120-150). These represent secondary audience characteristics worth considering.`,
+        description: `Found ${moderateAffinities.length} behaviors with moderate over-indexing (${config.overIndex}-${config.strongAffinity}), significant at ${confidence}. These represent secondary audience characteristics worth considering.`,
         data: moderateAffinities.sort((a, b) => b.metrics.audience_index - a.metrics.audience_index).slice(0, 20),
         significance: 'medium'
       });
@@ -141,7 +209,7 @@ export class CrosstabAnalyzer {
 
     // Insight 3: High reach opportunities (high audience percentage with good index)
     const highReach = validData.filter(d =>
-      d.metrics.audience_percentage >= 50 &&
+      d.metrics.audience_percentage >= config.highReach &&
       d.metrics.audience_index >= 100
     );
 
@@ -149,23 +217,23 @@ export class CrosstabAnalyzer {
       insights.push({
         type: 'HIGH_REACH',
         title: 'High Reach Opportunities',
-        description: `Found ${highReach.length} behaviors with high audience penetration (>50%) and positive indexing. These offer scale for broad campaigns.`,
+        description: `Found ${highReach.length} behaviors with high audience penetration (>${config.highReach}%) and positive indexing. These offer scale for broad campaigns.`,
         data: highReach.sort((a, b) => b.metrics.audience_percentage - a.metrics.audience_percentage).slice(0, 20),
         significance: 'high'
       });
     }
 
     // Insight 4: Niche targeting opportunities (high index, lower reach)
-    const nicheTargeting = validData.filter(d =>
-      d.metrics.audience_index >= 140 &&
-      d.metrics.audience_percentage < 30
+    const nicheTargeting = significantData.filter(d =>
+      d.metrics.audience_index >= config.nicheIndex &&
+      d.metrics.audience_percentage < config.nicheMaxReach
     );
 
     if (nicheTargeting.length > 0) {
       insights.push({
         type: 'NICHE_TARGETING',
         title: 'Niche Targeting Opportunities',
-        description: `Found ${nicheTargeting.length} behaviors with high over-indexing but lower reach (<30%). These are ideal for precision targeting strategies.`,
+        description: `Found ${nicheTargeting.length} behaviors with significant high over-indexing but lower reach (<${config.nicheMaxReach}%). These are ideal for precision targeting strategies.`,
         data: nicheTargeting.sort((a, b) => b.metrics.audience_index - a.metrics.audience_index).slice(0, 20),
         significance: 'medium'
       });
@@ -173,7 +241,7 @@ export class CrosstabAnalyzer {
 
     // Insight 5: Market variations
     if (crosstab.country_codes.length > 1) {
-      const marketVariations = this.analyzeMarketVariations(crosstab);
+      const marketVariations = this.analyzeMarketVariations(markets, config);
       if (marketVariations.hasSignificantVariation) {
         insights.push({
           type: 'MARKET_VARIATION',
@@ -187,44 +255,54 @@ export class CrosstabAnalyzer {
 
     // Insight 6: Trends (if time series data)
     if (crosstab.wave_codes.length > 1) {
-      const trends = this.analyzeTrends(crosstab);
-      if (trends.length > 0) {
+      if (trends && trends.significant.length > 0) {
+        const growing = trends.significant.filter(t => t.direction === 'increasing').length;
         insights.push({
           type: 'TREND',
           title: 'Temporal Trends Identified',
-          description: `Detected ${trends.length} significant trends across time periods.`,
-          data: trends,
+          description: `Detected ${trends.significant.length} significant trends across ${trends.waves.length} waves (${growing} growing, ${trends.significant.length - growing} declining, ${trends.accelerating.length} accelerating), each moving at least ${config.minTrendChange} index points.`,
+          data: trends.significant.slice(0, 20),
+          significance: 'medium'
+        });
+      }
+
+      if (trends && trends.reversals.length > 0) {
+        insights.push({
+          type: 'TREND_REVERSAL',
+          title: 'Trend Reversals',
+          description: `Found ${trends.reversals.length} behaviors whose direction reversed by at least ${config.minTrendChange} index points between waves. Check whether recent momentum is sustainable before acting on it.`,
+          data: trends.reversals.slice(0, 10),
           significance: 'medium'
         });
       }
     }
 
     // Insight 7: Unexpected under-indexing
-    const unexpectedLow = validData.filter(d =>
-      d.metrics.audience_index < 50
+    const unexpectedLow = significantData.filter(d =>
+      d.metrics.audience_index < config.strongNegative
     );
 
     if (unexpectedLow.length > 0) {
       insights.push({
         type: 'NEGATIVE_AFFINITY',
         title: 'Notable Negative Affinities',
-        description: `Found ${unexpectedLow.length} behaviors with strong under-indexing (<50). These represent areas where the audience differs significantly from the general population.`,
+        description: `Found ${unexpectedLow.length} behaviors with strong under-indexing (<${config.strongNegative}), significant at ${confidence}. These represent areas where the audience differs significantly from the general population.`,
         data: unexpectedLow.slice(0, 20),
         significance: 'medium'
       });
     }
 
-    // Insight 8: Moderate under-indexing (50-80)
-    const moderateLow = validData.filter(d =>
-      d.metrics.audience_index >= 50 &&
-      d.metrics.audience_index <= 80
+    // Insight 8: Moderate under-indexing
+    const moderateLow = significantData.filter(d =>
+      d.metrics.audience_index >= config.strongNegative &&
+      d.metrics.audience_index <= config.underIndex
     );
 
     if (moderateLow.length > 0) {
       insights.push({
         type: 'MODERATE_NEGATIVE',
         title: 'Moderate Under-Indexing Behaviors',
-        description: `Found ${moderateLow.length} behaviors with moderate under-indexing (50-80). Consider avoiding or de-prioritizing these in targeting.`,
+        description: `Found ${moderateLow.length} behaviors with moderate under-indexing (${config.strongNegative}-${config.underIndex}), significant at ${confidence}. Consider avoiding or de-prioritizing these in targeting.`,
         data: moderateLow.sort((a, b) => a.metrics.audience_index - b.metrics.audience_index).slice(0, 20),
         significance: 'low'
       });
@@ -232,7 +310,7 @@ export class CrosstabAnalyzer {
 
     // Insight 9: High confidence data points (large sample sizes)
     const highConfidence = validData.filter(d =>
-      d.metrics.positive_sample >= 200
+      d.metrics.positive_sample >= config.highConfidenceSample
     );
 
     if (highConfidence.length > 0) {
@@ -243,7 +321,7 @@ export class CrosstabAnalyzer {
       insights.push({
         type: 'HIGH_CONFIDENCE',
         title: 'High Confidence Findings',
-        description: `Found ${highConfidence.length} data points with large sample sizes (n>=200). These findings are statistically robust.`,
+        description: `Found ${highConfidence.length} data points with large sample sizes (n>=${config.highConfidenceSample}). These findings are statistically robust.`,
         data: topHighConfidence,
         significance: 'high'
       });
@@ -251,15 +329,15 @@ export class CrosstabAnalyzer {
 
     // Insight 10: Baseline behaviors (index near 100)
     const baselineBehaviors = validData.filter(d =>
-      d.metrics.audience_index >= 95 &&
-      d.metrics.audience_index <= 105
+      d.metrics.audience_index >= config.baselineLower &&
+      d.metrics.audience_index <= config.baselineUpper
     );
 
     if (baselineBehaviors.length > 0) {
       insights.push({
         type: 'BASELINE',
         title: 'Baseline Behaviors (No Differentiation)',
-        description: `Found ${baselineBehaviors.length} behaviors where this audience matches the general population (index 95-105). These don't provide targeting differentiation.`,
+        description: `Found ${baselineBehaviors.length} behaviors where this audience matches the general population (index ${config.baselineLower}-${config.baselineUpper}). These don't provide targeting differentiation.`,
         data: baselineBehaviors.slice(0, 20),
         significance: 'low'
       });
@@ -271,9 +349,9 @@ export class CrosstabAnalyzer {
   /**
    * Generate actionable recommendations
    */
-  private generateRecommendations(crosstab: Crosstab): Recommendation[] {
+  private generateRecommendations(crosstab: Crosstab, config: AnalysisConfig): Recommendation[] {
     const recommendations: Recommendation[] = [];
-    const stats = this.calculateStatistics(crosstab);
+    const stats = this.calculateStatistics(crosstab, config);
 
     // Recommendation based on top indexes
     if (stats.topIndexes.length > 0) {
@@ -286,21 +364,21 @@ export class CrosstabAnalyzer {
 
     // Market-specific recommendations
     if (crosstab.country_codes.length > 1) {
+      const latestWave = getLatestWave(crosstab);
       crosstab.country_codes.forEach(market => {
-        const marketData = crosstab.data!.filter(d =>
-          d.segment === market || !d.segment
-        );
+        const marketData = getMarketData(crosstab, market, latestWave);
 
         if (marketData.length > 0) {
           const topForMarket = marketData
-            .filter(d => d.metrics.positive_sample >= 50)
+            .filter(d => d.metrics.positive_sample >= config.minSample)
             .sort((a, b) => b.metrics.audience_index - a.metrics.audience_index)
             .slice(0, 3);
 
           if (topForMarket.length > 0) {
+            const labels = topForMarket.map(d => findMatchingRow(d.datapoint, crosstab.rows)?.name || d.datapoint);
             recommendations.push({
               title: `${market.toUpperCase()} Market Strategy`,
-              description: `In ${market.toUpperCase()}, prioritize these high-index behaviors for targeting and messaging.`,
+              description: `In ${market.toUpperCase()}, prioritize these high-index behaviors for targeting and messaging: ${labels.join(', ')}.`,
               priority: 'medium',
               market: market.toUpperCase()
             });
@@ -311,13 +389,13 @@ export class CrosstabAnalyzer {
 
     // Sample size recommendations
     const lowSampleData = crosstab.data!.filter(d =>
-      d.metrics.positive_sample < 50
+      d.metrics.positive_sample < config.minSample
     );
 
     if (lowSampleData.length > crosstab.data!.length * 0.3) {
       recommendations.push({
         title: 'Sample Size Consideration',
-        description: `${Math.round(lowSampleData.length / crosstab.data!.length * 100)}% of cells have sample sizes below 50. Consider these findings as directional rather than conclusive.`,
+        description: `${Math.round(lowSampleData.length / crosstab.data!.length * 100)}% of cells have sample sizes below ${config.minSample}. Consider these findings as directional rather than conclusive.`,
         priority: 'low'
       });
     }
@@ -335,121 +413,54 @@ export class CrosstabAnalyzer {
     const label = [
       rowDef?.name || row.datapoint,
       colDef?.name || row.audience,
-      row.segment
+      crosstab.country_codes.length > 1 ? row.location?.toUpperCase() : undefined
     ].filter(Boolean).join(' - ');
 
+    const taxonomy = categorizeDatapoint(row.datapoint, crosstab);
+
     return {
       label,
+      datapoint: row.datapoint,
+      audience: row.audience,
       index: Math.round(row.metrics.audience_index),
       percentage: Math.round(row.metrics.audience_percentage),
       sample: row.metrics.positive_sample,
-      segment: row.segment
+      segment: row.segment,
+      location: row.location,
+      significant: row.significance?.significant,
+      pValue: row.significance?.pValue,
+      qValue: row.significance?.qValue,
+      confidenceInterval: row.significance?.confidenceInterval,
+      category: taxonomy?.category,
+      subcategory: taxonomy?.subcategory,
+      metrics: row.metrics
     };
   }
 
-  private analyzeMarketVariations(crosstab: Crosstab): {
+  private analyzeMarketVariations(comparison: MarketComparison | undefined, config: AnalysisConfig): {
     hasSignificantVariation: boolean;
     description: string;
     examples: unknown[]
   } {
-    const dataByMarket: { [key: string]: CrosstabDataRow[] } = {};
-
-    crosstab.data!.forEach(row => {
-      const market = row.segment || 'unknown';
-      if (!dataByMarket[market]) {
-        dataByMarket[market] = [];
-      }
-      dataByMarket[market].push(row);
-    });
-
-    const markets = Object.keys(dataByMarket);
-    if (markets.length < 2) {
+    if (!comparison) {
       return { hasSignificantVariation: false, description: '', examples: [] };
     }
 
-    // Find behaviors with >30 point index difference across markets
-    const variations: { datapoint: string; spread: number; max: number; min: number }[] = [];
-    const datapoints = new Set(crosstab.data!.map(d => d.datapoint));
-
-    datapoints.forEach(dp => {
-      const indexes = markets.map(m => {
-        const row = dataByMarket[m].find(r => r.datapoint === dp);
-        return row ? row.metrics.audience_index : null;
-      }).filter((i): i is number => i !== null);
-
-      if (indexes.length >= 2) {
-        const max = Math.max(...indexes);
-        const min = Math.min(...indexes);
-        if (max - min > 30) {
-          variations.push({ datapoint: dp, spread: max - min, max, min });
-        }
-      }
-    });
+    // Behaviors whose index spread across markets exceeds the configured threshold
+    const variations = comparison.variations.map(row => ({
+      datapoint: row.datapoint,
+      label: row.label,
+      spread: row.spread,
+      max: row.cells[row.highMarket!]!.index,
+      min: row.cells[row.lowMarket!]!.index,
+      highMarket: row.highMarket,
+      lowMarket: row.lowMarket
+    }));
 
     return {
       hasSignificantVariation: variations.length > 0,
-      description: `Found ${variations.length} behaviors with >30 point variation across markets. Market-specific strategies are recommended.`,
+      description: `Found ${variations.length} behaviors with >${config.marketSpread} point variation across markets. Market-specific strategies are recommended.`,
       examples: variations.slice(0, 5)
     };
   }
-
-  private analyzeTrends(crosstab: Crosstab): {
-    datapoint: string;
-    change: number;
-    direction: string;
-    firstValue: number;
-    lastValue: number
-  }[] {
-    // Simplified trend detection
-    const trends: {
-      datapoint: string;
-      change: number;
-      direction: string;
-      firstValue: number;
-      lastValue: number
-    }[] = [];
-    const waves = crosstab.wave_codes;
-
-    if (waves.length < 2) return trends;
-
-    const dataByWave: { [key: string]: CrosstabDataRow[] } = {};
-    crosstab.data!.forEach(row => {
-      const wave = row.wave || waves[0];
-      if (!dataByWave[wave]) {
-        dataByWave[wave] = [];
-      }
-      dataByWave[wave].push(row);
-    });
-
-    // Detect changes >20 points between first and last wave
-    const firstWave = waves[0];
-    const lastWave = waves[waves.length - 1];
-
-    if (dataByWave[firstWave] && dataByWave[lastWave]) {
-      const datapoints = new Set([
-        ...dataByWave[firstWave].map(d => d.datapoint),
-        ...dataByWave[lastWave].map(d => d.datapoint)
-      ]);
-
-      datapoints.forEach(dp => {
-        const first = dataByWave[firstWave].find(d => d.datapoint === dp);
-        const last = dataByWave[lastWave].find(d => d.datapoint === dp);
-
-        if (first && last) {
-          const change = last.metrics.audience_index - first.metrics.audience_index;
-          if (Math.abs(change) > 20) {
-            trends.push({
-              datapoint: dp,
-              change,
-              direction: change > 0 ? 'increasing' : 'decreasing',
-              firstValue: first.metrics.audience_index,
-              lastValue: last.metrics.audience_index
-            });
-          }
-        }
-      });
-    }
-
-    return trends.sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
-  }
 }
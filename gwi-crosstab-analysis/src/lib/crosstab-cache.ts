@@ -0,0 +1,159 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Crosstab } from './types';
+
+// ============================================================================
+// CACHE INTERFACE
+// ============================================================================
+
+/**
+ * Storage for fetched crosstab data, keyed by crosstab UUID.
+ * An entry is only valid for the `updated_at` it was stored with, so editing
+ * the saved crosstab in the GWI platform invalidates it automatically.
+ * Callers own the crosstab `get` returns and may annotate its rows.
+ */
+export interface CrosstabCache {
+  get(crosstabId: string, updatedAt: string): Promise<Crosstab | null>;
+  set(crosstab: Crosstab): Promise<void>;
+  delete(crosstabId: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// ============================================================================
+// BACKENDS
+// ============================================================================
+
+/**
+ * In-process cache. Oldest entries are evicted beyond `maxEntries`.
+ * Crosstabs are copied in and out: the analyzer annotates rows with the
+ * caller's significance results, so concurrent requests must never share rows.
+ */
+export class MemoryCrosstabCache implements CrosstabCache {
+  private entries = new Map<string, Crosstab>();
+
+  constructor(private maxEntries: number = 50) {}
+
+  async get(crosstabId: string, updatedAt: string): Promise<Crosstab | null> {
+    const cached = this.entries.get(crosstabId);
+    if (!cached) return null;
+
+    if (cached.updated_at !== updatedAt) {
+      this.entries.delete(crosstabId);
+      return null;
+    }
+
+    return structuredClone(cached);
+  }
+
+  async set(crosstab: Crosstab): Promise<void> {
+    // Re-insert so the most recently stored entry is evicted last
+    this.entries.delete(crosstab.uuid);
+    this.entries.set(crosstab.uuid, structuredClone(crosstab));
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(crosstabId: string): Promise<void> {
+    this.entries.delete(crosstabId);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * One JSON file per crosstab, so data survives server restarts.
+ */
+export class FileCrosstabCache implements CrosstabCache {
+  constructor(private directory: string) {}
+
+  private filePath(crosstabId: string): string {
+    // UUIDs are safe already; anything else is reduced to a safe file name
+    return path.join(this.directory, `${crosstabId.replace(/[^\w-]/g, '_')}.json`);
+  }
+
+  async get(crosstabId: string, updatedAt: string): Promise<Crosstab | null> {
+    let cached: Crosstab;
+    try {
+      cached = JSON.parse(await fs.readFile(this.filePath(crosstabId), 'utf-8'));
+    } catch {
+      // Missing or unreadable entries are treated as a miss
+      return null;
+    }
+
+    if (cached.updated_at !== updatedAt) {
+      await this.delete(crosstabId);
+      return null;
+    }
+
+    return cached;
+  }
+
+  async set(crosstab: Crosstab): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write to a temp file first so a crash never leaves a truncated entry
+    const target = this.filePath(crosstab.uuid);
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(crosstab));
+    await fs.rename(temp, target);
+  }
+
+  async delete(crosstabId: string): Promise<void> {
+    await fs.rm(this.filePath(crosstabId), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    const files = await fs.readdir(this.directory).catch(() => [] as string[]);
+    await Promise.all(
+      files
+        .filter(f => f.endsWith('.json'))
+        .map(f => fs.rm(path.join(this.directory, f), { force: true }))
+    );
+  }
+}
+
+/**
+ * Cache that stores nothing, for disabling caching entirely
+ */
+export class NoopCrosstabCache implements CrosstabCache {
+  async get(): Promise<Crosstab | null> {
+    return null;
+  }
+
+  async set(): Promise<void> {}
+
+  async delete(): Promise<void> {}
+
+  async clear(): Promise<void> {}
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * Create the cache backend selected by environment variables:
+ * - CROSSTAB_CACHE: "memory" (default), "file" or "none"
+ * - CROSSTAB_CACHE_DIR: directory for the file backend (default ".cache/crosstabs")
+ */
+export function createCrosstabCache(): CrosstabCache {
+  const backend = (process.env.CROSSTAB_CACHE || 'memory').toLowerCase();
+
+  switch (backend) {
+    case 'file':
+      return new FileCrosstabCache(process.env.CROSSTAB_CACHE_DIR || path.join('.cache', 'crosstabs'));
+    case 'none':
+      return new NoopCrosstabCache();
+    case 'memory':
+      return new MemoryCrosstabCache();
+    default:
+      console.warn(`Unknown CROSSTAB_CACHE backend "${backend}", falling back to memory`);
+      return new MemoryCrosstabCache();
+  }
+}
@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GWICrosstabClient } from './crosstab-client';
+import { NoopCrosstabCache } from './crosstab-cache';
+import { buildMarketComparison } from './market-comparison';
+import { DEFAULT_ANALYSIS_CONFIG } from './analysis-config';
+
+const RS = '\x1e';
+
+const config = {
+  uuid: 'crosstab-1',
+  name: 'Social platforms',
+  updated_at: '2024-01-01T00:00:00Z',
+  rows: [{ id: 'q1_1', name: 'TikTok' }, { id: 'q1_2', name: 'Instagram' }],
+  columns: [{ id: 'aud1', name: 'Gen Z' }],
+  country_codes: ['gb', 'us'],
+  wave_codes: ['q1_2024'],
+  bases: []
+};
+
+// Index per market and row; the Bulk Query records carry no location of their own
+const indexes: Record<string, number[]> = { gb: [150, 90], us: [110, 130] };
+
+function bulkQueryResponse(location: string): Response {
+  const records = indexes[location].map((index, rowIndex) => JSON.stringify({
+    row_index: rowIndex,
+    column_index: 0,
+    wave: 'q1_2024',
+    intersect: { sample: 400, size: 1000, percentage: 40, index },
+    audiences: { row: { percentage: 30 } }
+  }));
+  return new Response(records.map(record => `${RS}${record}\n`).join(''));
+}
+
+function stubApi() {
+  const bulkQueries: Array<{ locations: string[] }> = [];
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+    if (url.endsWith('/v2/query/crosstab')) {
+      const body = JSON.parse(String(init?.body));
+      bulkQueries.push(body);
+      return bulkQueryResponse(body.locations[0]);
+    }
+    return new Response(JSON.stringify(config));
+  }));
+  return bulkQueries;
+}
+
+describe('GWICrosstabClient.getCrosstab', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('queries each market separately and tags its rows', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const bulkQueries = stubApi();
+
+    const crosstab = await new GWICrosstabClient('key', true, new NoopCrosstabCache()).getCrosstab('crosstab-1');
+
+    expect(bulkQueries.map(q => q.locations)).toEqual([['gb'], ['us']]);
+    expect(crosstab.data?.map(row => [row.location, row.datapoint, row.metrics.audience_index])).toEqual([
+      ['gb', 'q1_1', 150],
+      ['gb', 'q1_2', 90],
+      ['us', 'q1_1', 110],
+      ['us', 'q1_2', 130]
+    ]);
+  });
+
+  it('yields a market comparison matrix for a two-market crosstab', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    stubApi();
+
+    const crosstab = await new GWICrosstabClient('key', true, new NoopCrosstabCache()).getCrosstab('crosstab-1');
+    const comparison = buildMarketComparison(crosstab, DEFAULT_ANALYSIS_CONFIG);
+
+    expect(comparison?.markets).toEqual(['gb', 'us']);
+    expect(comparison?.rows.map(row => [row.datapoint, row.cells.gb?.index, row.cells.us?.index, row.spread])).toEqual([
+      ['q1_1', 150, 110, 40],
+      ['q1_2', 90, 130, 40]
+    ]);
+  });
+});
@@ -1,4 +1,7 @@
-import type { Crosstab, CrosstabSummary, CrosstabDataRow } from './types';
+import type { Crosstab, CrosstabSummary, CrosstabDataRow, BulkQueryStats } from './types';
+import { createCrosstabCache, type CrosstabCache } from './crosstab-cache';
+import { parseJsonSeq, createJsonSeqStats, type JsonSeqStats } from './json-seq';
+import { validateExpression } from './audience-expression';
 
 // API Response types based on official documentation
 // https://api.globalwebindex.com/docs/platform-api/reference/crosstabs/v2-list-crosstabs
@@ -16,8 +19,13 @@ interface APIProject {
 export class GWICrosstabClient {
   private baseUrl: string;
   private apiKey: string;
+  private cache: CrosstabCache;
 
-  constructor(apiKey: string, useAlphaEnv: boolean = true) {
+  /**
+   * @param cache - Storage for fetched crosstab data (defaults to the backend selected by CROSSTAB_CACHE)
+   */
+  constructor(apiKey: string, useAlphaEnv: boolean = true, cache: CrosstabCache = createCrosstabCache()) {
+    this.cache = cache;
     // Store API key as-is (no Bearer prefix needed per documentation)
     this.apiKey = apiKey.startsWith('Bearer ') ? apiKey.replace('Bearer ', '') : apiKey;
     this.baseUrl = useAlphaEnv
@@ -125,6 +133,7 @@ export class GWICrosstabClient {
     console.log('Crosstab name:', config.name);
     console.log('Rows count:', config.rows?.length || 0);
     console.log('Columns count:', config.columns?.length || 0);
+    this.warnOnInvalidExpressions(config);
 
     // If we don't need data, just return the config
     if (!includeData) {
@@ -135,17 +144,38 @@ export class GWICrosstabClient {
       };
     }
 
+    // Reuse previously fetched data while the saved crosstab is unchanged
+    const id = config.uuid || config.id;
+    if (config.updated_at) {
+      const cached = await this.cache.get(id, config.updated_at);
+      if (cached) {
+        console.log(`Using cached data for crosstab ${id} (updated_at ${config.updated_at})`);
+        return cached;
+      }
+    }
+
     // Fetch actual data using the Bulk Query endpoint
     console.log('=== FETCHING CROSSTAB DATA VIA BULK QUERY ===');
     try {
-      const data = await this.queryCrosstabData(config);
+      const { data, stats } = await this.queryCrosstabData(config);
       console.log(`Fetched ${data.length} data rows`);
 
-      return {
+      const crosstab: Crosstab = {
         ...config,
-        id: config.uuid || config.id,
-        data
+        id,
+        uuid: id,
+        data,
+        queryStats: stats
       };
+
+      // Only cache successful, non-empty results so a failed query is retried next time
+      if (config.updated_at && data.length > 0) {
+        await this.cache.set(crosstab).catch(error =>
+          console.warn(`Failed to cache crosstab ${id}:`, error)
+        );
+      }
+
+      return crosstab;
     } catch (error) {
       console.error('Failed to fetch crosstab data:', error);
       // Return config without data if query fails
@@ -161,15 +191,54 @@ export class GWICrosstabClient {
    * Query actual crosstab data using the Bulk Query endpoint
    * POST /v2/query/crosstab
    * Docs: https://api.globalwebindex.com/docs/platform-api/reference/query/v2-crosstab-bulk-query
+   *
+   * The endpoint aggregates cells across every requested location, so each market
+   * is queried on its own and its rows are tagged with that market's code.
+   */
+  private async queryCrosstabData(config: any): Promise<{ data: CrosstabDataRow[]; stats: BulkQueryStats }> {
+    const locations: string[] = config.country_codes || [];
+    const data: CrosstabDataRow[] = [];
+    const parseStats = createJsonSeqStats();
+
+    // Without markets the crosstab is queried once, unscoped
+    for (const location of locations.length > 0 ? locations : [undefined]) {
+      await this.queryLocation(config, location, data, parseStats);
+    }
+
+    const stats: BulkQueryStats = { ...parseStats, rows: data.length };
+
+    console.log(`Parsed ${data.length} data rows across ${Math.max(locations.length, 1)} market queries (${stats.records} records, ${stats.malformed} malformed)`);
+    if (stats.malformed > 0) {
+      console.warn('Malformed Bulk Query records:', stats.errors);
+    }
+    if (data.length > 0) {
+      console.log('First data row:', JSON.stringify(data[0], null, 2));
+      // Show if ID mapping worked
+      const firstRow = data[0];
+      console.log(`First row datapoint ID: "${firstRow.datapoint}" (mapped from config: ${config.rows?.[0]?.id})`);
+      console.log(`First row audience ID: "${firstRow.audience}" (mapped from config: ${config.columns?.[0]?.id})`);
+    }
+
+    return { data, stats };
+  }
+
+  /**
+   * Run one Bulk Query for a single market (or none), appending its rows to `data`
    */
-  private async queryCrosstabData(config: any): Promise<CrosstabDataRow[]> {
+  private async queryLocation(
+    config: any,
+    location: string | undefined,
+    data: CrosstabDataRow[],
+    parseStats: JsonSeqStats
+  ): Promise<void> {
     const url = `${this.baseUrl}/v2/query/crosstab`;
 
-    // Build the request body from the crosstab config
+    // Build the request body from the crosstab config.
+    // Only documented Bulk Query fields are sent
     const requestBody = {
       rows: config.rows || [],
       columns: config.columns || [],
-      locations: config.country_codes || [],
+      locations: location ? [location] : [],
       waves: config.wave_codes || [],
       base_audience: config.bases?.[0] || null
     };
@@ -186,8 +255,6 @@ export class GWICrosstabClient {
     // Store rows and columns for index-to-ID mapping
     const rowsArray = config.rows || [];
     const columnsArray = config.columns || [];
-    console.log('Row definitions for mapping:', rowsArray.slice(0, 3).map((r: any) => ({ id: r.id, name: r.name })));
-    console.log('Column definitions for mapping:', columnsArray.slice(0, 3).map((c: any) => ({ id: c.id, name: c.name })));
 
     const response = await fetch(url, {
       method: 'POST',
@@ -199,7 +266,7 @@ export class GWICrosstabClient {
       body: JSON.stringify(requestBody)
     });
 
-    console.log('Bulk Query response status:', response.status);
+    console.log(`Bulk Query response status (${location ?? 'all markets'}):`, response.status);
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -207,69 +274,94 @@ export class GWICrosstabClient {
       throw new Error(`Failed to query crosstab data: ${response.status} - ${errorText.substring(0, 500)}`);
     }
 
-    // Parse JSON-seq response (stream of JSON objects)
-    const text = await response.text();
-    console.log('Bulk Query response length:', text.length);
-    console.log('Bulk Query response (first 1000 chars):', text.substring(0, 1000));
-
-    const data: CrosstabDataRow[] = [];
-    const lines = text.split('\n').filter(l => l.trim());
-
-    for (const line of lines) {
-      try {
-        const row = JSON.parse(line);
-
-        // Map row_index and column_index back to actual IDs from config
-        // The Bulk Query API returns indices that correspond to the order of rows/columns in the request
-        let datapointId: string;
-        let audienceId: string;
-
-        // Priority: use row.id if available, otherwise map index to config ID
-        if (row.row?.id) {
-          datapointId = row.row.id;
-        } else if (typeof row.row_index === 'number' && rowsArray[row.row_index]) {
-          datapointId = rowsArray[row.row_index].id;
-        } else {
-          datapointId = row.row_index?.toString() || '';
+    // Parse the JSON-seq response incrementally as records arrive
+    const body = response.body ?? new Response(await response.text()).body!;
+
+    for await (const record of parseJsonSeq(body, parseStats)) {
+      if (!record || typeof record !== 'object' || Array.isArray(record)) {
+        parseStats.malformed++;
+        if (parseStats.errors.length < 10) {
+          parseStats.errors.push({
+            record: parseStats.records,
+            message: 'Record is not a JSON object',
+            sample: JSON.stringify(record).substring(0, 100)
+          });
         }
+        continue;
+      }
 
-        if (row.column?.id) {
-          audienceId = row.column.id;
-        } else if (typeof row.column_index === 'number' && columnsArray[row.column_index]) {
-          audienceId = columnsArray[row.column_index].id;
-        } else {
-          audienceId = row.column_index?.toString() || '';
-        }
+      data.push(this.toDataRow(record, rowsArray, columnsArray, location));
+    }
+  }
 
-        // Transform the response to match our CrosstabDataRow format
-        data.push({
-          datapoint: datapointId,
-          audience: audienceId,
-          segment: row.column?.name || (typeof row.column_index === 'number' && columnsArray[row.column_index] ? columnsArray[row.column_index].name : undefined),
-          wave: row.wave,
-          metrics: {
-            positive_sample: row.intersect?.sample || 0,
-            positive_size: row.intersect?.size || 0,
-            audience_percentage: row.intersect?.percentage || 0,
-            datapoint_percentage: row.audiences?.row?.percentage || 0,
-            audience_index: row.intersect?.index || 100
-          }
-        });
-      } catch (e) {
-        console.warn('Failed to parse data row:', line.substring(0, 100), e);
+  /**
+   * Log definitions whose audience expression does not parse. They are left
+   * as-is, since the Bulk Query is sent exactly what the API returned.
+   */
+  private warnOnInvalidExpressions(config: any): void {
+    const definitions: any[] = [...(config.rows || []), ...(config.columns || []), ...(config.bases || [])];
+    definitions.forEach(definition => {
+      if (definition?.expression === undefined || definition.expression === null) return;
+      const issues = validateExpression(definition.expression);
+      if (issues.length > 0) {
+        console.warn(`Invalid expression on "${definition.name}" (${definition.id}):`, issues.map(i => `${i.path}: ${i.message}`));
       }
+    });
+  }
+
+  /**
+   * Transform a Bulk Query record into our CrosstabDataRow format
+   */
+  private toDataRow(row: any, rowsArray: any[], columnsArray: any[], location: string | undefined): CrosstabDataRow {
+    // Map row_index and column_index back to actual IDs from config
+    // The Bulk Query API returns indices that correspond to the order of rows/columns in the request
+    let datapointId: string;
+    let audienceId: string;
+
+    // Priority: use row.id if available, otherwise map index to config ID
+    if (row.row?.id) {
+      datapointId = row.row.id;
+    } else if (typeof row.row_index === 'number' && rowsArray[row.row_index]) {
+      datapointId = rowsArray[row.row_index].id;
+    } else {
+      datapointId = row.row_index?.toString() || '';
     }
 
-    console.log(`Parsed ${data.length} data rows from Bulk Query`);
-    if (data.length > 0) {
-      console.log('First data row:', JSON.stringify(data[0], null, 2));
-      // Show if ID mapping worked
-      const firstRow = data[0];
-      console.log(`First row datapoint ID: "${firstRow.datapoint}" (mapped from config: ${rowsArray[0]?.id})`);
-      console.log(`First row audience ID: "${firstRow.audience}" (mapped from config: ${columnsArray[0]?.id})`);
+    if (row.column?.id) {
+      audienceId = row.column.id;
+    } else if (typeof row.column_index === 'number' && columnsArray[row.column_index]) {
+      audienceId = columnsArray[row.column_index].id;
+    } else {
+      audienceId = row.column_index?.toString() || '';
     }
 
-    return data;
+    return {
+      datapoint: datapointId,
+      audience: audienceId,
+      segment: row.column?.name || (typeof row.column_index === 'number' && columnsArray[row.column_index] ? columnsArray[row.column_index].name : undefined),
+      location: this.resolveLocation(row, location),
+      wave: row.wave,
+      metrics: {
+        positive_sample: row.intersect?.sample || 0,
+        positive_size: row.intersect?.size || 0,
+        audience_percentage: row.intersect?.percentage || 0,
+        datapoint_percentage: row.audiences?.row?.percentage || 0,
+        audience_index: row.intersect?.index || 100,
+        audience_sample: row.audiences?.column?.sample,
+        base_sample: row.audiences?.base?.sample
+      }
+    };
+  }
+
+  /**
+   * Read the market code from a Bulk Query row, if it carries one,
+   * otherwise use the market the query was scoped to
+   */
+  private resolveLocation(row: any, location: string | undefined): string | undefined {
+    const code = row.location?.code ?? row.location_code ??
+      (typeof row.location === 'string' ? row.location : undefined) ?? location;
+
+    return code ? String(code).toLowerCase() : undefined;
   }
 
   /**
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { compareCrosstabs } from './crosstab-comparison';
+import { resolveAnalysisConfig } from './analysis-config';
+import { ResponseFormatter } from './response-formatter';
+import { makeCrosstab } from '../test/fixtures';
+
+const config = resolveAnalysisConfig();
+
+function crosstab(id: string, waves: string[]) {
+  return { ...makeCrosstab({ waves }), id, uuid: id, name: `Crosstab ${id}` };
+}
+
+describe('compareCrosstabs', () => {
+  it('reads every crosstab from the latest wave they share', () => {
+    const comparison = compareCrosstabs([
+      crosstab('a', ['q1_2024', 'q2_2024']),
+      crosstab('b', ['q4_2023', 'q1_2024']),
+    ], config);
+
+    expect(comparison.wave).toBe('q1_2024');
+    expect(comparison.crosstabs.map(c => c.wave)).toEqual(['q1_2024', 'q1_2024']);
+    expect(comparison.rows.length).toBeGreaterThan(0);
+  });
+
+  it('falls back to each latest wave and says so when no wave is shared', () => {
+    const comparison = compareCrosstabs([
+      crosstab('a', ['q2_2024']),
+      crosstab('b', ['q1_2024']),
+    ], config);
+
+    expect(comparison.wave).toBeUndefined();
+    expect(comparison.crosstabs.map(c => c.wave)).toEqual(['q2_2024', 'q1_2024']);
+    expect(new ResponseFormatter().formatCrosstabComparison(comparison)).toContain('share no wave');
+  });
+});
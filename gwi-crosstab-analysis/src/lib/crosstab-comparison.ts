@@ -0,0 +1,199 @@
+import type {
+  Crosstab,
+  CrosstabDataRow,
+  AnalysisConfig,
+  ComparedCrosstab,
+  CrosstabComparison,
+  CrosstabComparisonCell,
+  CrosstabComparisonDelta,
+  CrosstabComparisonRow,
+  GroupedBarData
+} from './types';
+import { findMatchingRow, findMatchingColumn, getColumnName } from './types';
+import { getRowLocation, getLatestWave } from './market-comparison';
+import { twoProportionZTest, audienceSampleSize, adjustPValues } from './significance';
+
+interface CrosstabSlice {
+  meta: ComparedCrosstab;
+  cells: Map<string, { label: string; row: CrosstabDataRow }>;  // Keyed by row definition ID
+}
+
+// ============================================================================
+// CROSSTAB COMPARISON
+// ============================================================================
+
+/**
+ * Compare two or more crosstabs datapoint by datapoint.
+ *
+ * Rows are aligned on the row definition each data row resolves to through
+ * `findMatchingRow`, so crosstabs built from the same questions line up even
+ * when their audiences differ. Each crosstab is reduced to one audience (its
+ * first column), and to the latest wave and first market shared by all of
+ * them where possible; without a shared wave each is read from its own latest
+ * wave and the comparison's `wave` is left unset. The first crosstab is the reference every delta is taken against.
+ *
+ * Differences are tested with a two-proportion z-test on audience % and
+ * corrected for multiple comparisons across all matched rows.
+ */
+export function compareCrosstabs(crosstabs: Crosstab[], config: AnalysisConfig): CrosstabComparison {
+  if (crosstabs.length < 2) {
+    throw new Error('At least two crosstabs are needed for a comparison');
+  }
+
+  const sharedMarket = findSharedMarket(crosstabs);
+  const sharedWave = findSharedWave(crosstabs);
+  const slices = crosstabs.map(crosstab => sliceCrosstab(crosstab, config, sharedMarket, sharedWave));
+
+  // Row IDs reported (above the sample floor) by every crosstab, in reference order
+  const [reference, ...others] = slices;
+  const matchedIds = Array.from(reference.cells.keys()).filter(id => others.every(slice => slice.cells.has(id)));
+
+  const rows: CrosstabComparisonRow[] = matchedIds.map(id => {
+    const entries = slices.map(slice => slice.cells.get(id)!);
+    const referenceMetrics = entries[0].row.metrics;
+
+    return {
+      rowId: id,
+      label: entries[0].label,
+      cells: entries.map(entry => toComparisonCell(entry.row)),
+      deltas: entries.slice(1).map(entry => {
+        const metrics = entry.row.metrics;
+        const { zScore, pValue } = twoProportionZTest(
+          metrics.audience_percentage / 100,
+          audienceSampleSize(metrics),
+          referenceMetrics.audience_percentage / 100,
+          audienceSampleSize(referenceMetrics)
+        );
+        return {
+          indexDelta: Math.round(metrics.audience_index - referenceMetrics.audience_index),
+          reachDelta: Math.round((metrics.audience_percentage - referenceMetrics.audience_percentage) * 10) / 10,
+          zScore,
+          pValue,
+          qValue: pValue,
+          significant: false,
+        };
+      }),
+    };
+  });
+
+  // Correct across every (row, crosstab) test at once
+  const deltas: CrosstabComparisonDelta[] = rows.flatMap(row => row.deltas);
+  const qValues = adjustPValues(deltas.map(d => d.pValue), config.multipleComparison);
+  const alpha = 1 - config.confidenceLevel;
+  deltas.forEach((delta, i) => {
+    delta.qValue = qValues[i];
+    delta.significant = qValues[i] < alpha;
+  });
+
+  rows.sort((a, b) => maxAbsDelta(b) - maxAbsDelta(a));
+
+  // Rows no other crosstab has at all, regardless of sample
+  const rowIds = crosstabs.map(getRowIds);
+  const unique = slices.map((slice, i) => ({
+    crosstabId: slice.meta.id,
+    labels: Array.from(slice.cells.entries())
+      .filter(([id]) => rowIds.every((ids, j) => j === i || !ids.has(id)))
+      .map(([, entry]) => entry.label),
+  }));
+
+  return {
+    crosstabs: slices.map(slice => slice.meta),
+    wave: sharedWave,
+    rows,
+    unique,
+    significantDifferences: rows.filter(row => row.deltas.some(d => d.significant)).length,
+  };
+}
+
+/**
+ * Side-by-side index bars for the rows with the largest differences
+ */
+export function toComparisonBars(comparison: CrosstabComparison, limit: number = 10): GroupedBarData {
+  const rows = comparison.rows.slice(0, limit);
+
+  return {
+    categories: rows.map(row => row.label),
+    series: comparison.crosstabs.map((crosstab, i) => ({
+      label: crosstab.name,
+      values: rows.map(row => row.cells[i].index),
+    })),
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * First market (in the reference crosstab's order) that every crosstab covers
+ */
+function findSharedMarket(crosstabs: Crosstab[]): string | undefined {
+  const [reference, ...others] = crosstabs.map(c => c.country_codes.map(code => code.toLowerCase()));
+  return reference.find(market => others.every(markets => markets.includes(market)));
+}
+
+/**
+ * Latest wave (in the reference crosstab's order) that every crosstab has data for
+ */
+function findSharedWave(crosstabs: Crosstab[]): string | undefined {
+  const [reference, ...others] = crosstabs.map(c => new Set((c.data || []).map(row => row.wave).filter(Boolean)));
+  return [...crosstabs[0].wave_codes].reverse()
+    .find(wave => reference.has(wave) && others.every(waves => waves.has(wave)));
+}
+
+function sliceCrosstab(crosstab: Crosstab, config: AnalysisConfig, sharedMarket?: string, sharedWave?: string): CrosstabSlice {
+  const data = crosstab.data || [];
+  const wave = sharedWave ?? getLatestWave(crosstab);
+  const location = sharedMarket ?? crosstab.country_codes[0]?.toLowerCase();
+
+  // The crosstab's first column, falling back to whatever audience the data starts with
+  const firstColumn = crosstab.columns[0];
+  const audience = (firstColumn && data.find(row => findMatchingColumn(row.audience, crosstab.columns)?.id === firstColumn.id)?.audience)
+    ?? data[0]?.audience;
+
+  const cells = new Map<string, { label: string; row: CrosstabDataRow }>();
+  data.forEach(row => {
+    if (row.audience !== audience) return;
+    if (wave && row.wave && row.wave !== wave) return;
+    if (location && getRowLocation(row, crosstab) !== location) return;
+    if (row.metrics.positive_sample < config.minSample) return;
+
+    const rowDef = findMatchingRow(row.datapoint, crosstab.rows);
+    const id = rowDef?.id ?? row.datapoint;
+    if (!cells.has(id)) {
+      cells.set(id, { label: rowDef?.name ?? row.datapoint, row });
+    }
+  });
+
+  return {
+    meta: {
+      id: crosstab.uuid || crosstab.id,
+      name: crosstab.name,
+      audience: getColumnName(audience, crosstab.columns),
+      location,
+      wave,
+    },
+    cells,
+  };
+}
+
+/**
+ * Every row definition ID the crosstab defines or reports data for
+ */
+function getRowIds(crosstab: Crosstab): Set<string> {
+  const ids = new Set(crosstab.rows.map(row => row.id));
+  (crosstab.data || []).forEach(row => ids.add(findMatchingRow(row.datapoint, crosstab.rows)?.id ?? row.datapoint));
+  return ids;
+}
+
+function toComparisonCell(row: CrosstabDataRow): CrosstabComparisonCell {
+  return {
+    index: Math.round(row.metrics.audience_index),
+    percentage: Math.round(row.metrics.audience_percentage),
+    sample: row.metrics.positive_sample,
+  };
+}
+
+function maxAbsDelta(row: CrosstabComparisonRow): number {
+  return Math.max(...row.deltas.map(d => Math.abs(d.indexDelta)));
+}
@@ -0,0 +1,46 @@
+import type { Crosstab, AnalysisConfig, TableData } from './types';
+import { getRowName, getColumnName } from './types';
+import { getRowLocation } from './market-comparison';
+
+// ============================================================================
+// FULL DATA GRID
+// ============================================================================
+
+/**
+ * Flatten every crosstab cell into a table row with resolved row and column
+ * names, in the order the API returned them.
+ *
+ * Low-sample cells are kept and flagged rather than dropped, so the table can
+ * grey them out. Significance is read from the rows, so run the analyzer on
+ * the crosstab first to have it filled in.
+ */
+export function buildCrosstabGrid(crosstab: Crosstab, config: AnalysisConfig): TableData {
+  const data = crosstab.data || [];
+  const markets = new Set<string>();
+  const waves = new Set<string>();
+
+  const rows = data.map(row => {
+    const location = getRowLocation(row, crosstab);
+    if (location) markets.add(location);
+    if (row.wave) waves.add(row.wave);
+
+    return {
+      datapoint: row.datapoint,
+      label: getRowName(row.datapoint, crosstab.rows),
+      audience: row.audience,
+      audienceLabel: getColumnName(row.audience, crosstab.columns),
+      location,
+      wave: row.wave,
+      metrics: row.metrics,
+      significant: row.significance?.significant,
+      lowSample: row.metrics.positive_sample < config.minSample,
+    };
+  });
+
+  return {
+    rows,
+    minSample: config.minSample,
+    markets: Array.from(markets),
+    waves: crosstab.wave_codes.filter(wave => waves.has(wave)),
+  };
+}
@@ -0,0 +1,93 @@
+import type { AnalysisReport, IndexedItem, StatisticsAnalysis } from './types';
+
+/**
+ * CSV columns, in order. Names and order are a contract with downstream
+ * warehouse loads: add new columns at the end, never rename or reorder.
+ */
+export const INDEXED_ITEM_COLUMNS = [
+  'crosstab_id',
+  'crosstab_name',
+  'list',
+  'rank',
+  'label',
+  'segment',
+  'market',
+  'audience_index',
+  'audience_percentage',
+  'sample',
+  'significant',
+  'p_value',
+  'q_value',
+  'ci_lower',
+  'ci_upper',
+  'datapoint_id',
+  'audience_id',
+] as const;
+
+// Value of the `list` column for each IndexedItem list in the statistics
+const INDEXED_ITEM_LISTS: [string, keyof Pick<StatisticsAnalysis, 'topIndexes' | 'bottomIndexes' | 'overIndexed' | 'underIndexed'>][] = [
+  ['top', 'topIndexes'],
+  ['bottom', 'bottomIndexes'],
+  ['over_indexed', 'overIndexed'],
+  ['under_indexed', 'underIndexed'],
+];
+
+// ============================================================================
+// CSV BUILDER
+// ============================================================================
+
+/**
+ * Flatten an analysis to one CSV row per IndexedItem, tagged with the list
+ * it came from. Metrics are written unrounded, as the data row holds them;
+ * missing values are written as empty cells.
+ *
+ * @returns The .csv file contents (UTF-8, CRLF line endings per RFC 4180)
+ */
+export async function buildIndexedItemsCsv(report: AnalysisReport): Promise<Buffer> {
+  const { crosstab, analysis } = report;
+  const lines = [INDEXED_ITEM_COLUMNS.join(',')];
+
+  INDEXED_ITEM_LISTS.forEach(([list, key]) => {
+    analysis.statistics[key].forEach((item, i) => {
+      lines.push(toCsvRow([
+        crosstab.uuid || crosstab.id,
+        crosstab.name,
+        list,
+        i + 1,
+        ...indexedItemValues(item),
+      ]));
+    });
+  });
+
+  return Buffer.from(lines.join('\r\n') + '\r\n', 'utf8');
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function indexedItemValues(item: IndexedItem): (string | number | boolean | undefined)[] {
+  return [
+    item.label,
+    item.segment,
+    item.location,
+    item.metrics.audience_index,
+    item.metrics.audience_percentage,
+    item.metrics.positive_sample,
+    item.significant,
+    item.pValue,
+    item.qValue,
+    item.confidenceInterval?.[0],
+    item.confidenceInterval?.[1],
+    item.datapoint,
+    item.audience,
+  ];
+}
+
+function toCsvRow(values: (string | number | boolean | undefined)[]): string {
+  return values.map(value => {
+    if (value === undefined || value === null) return '';
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',');
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { extractThresholds, looksLikeDataQuery, mergeDataQuery, parseDataQuery } from './data-query';
+import { extractEntities } from './intent-classifier';
+import { makeCrosstab } from '../test/fixtures';
+
+const crosstab = makeCrosstab({
+  markets: ['gb', 'us'],
+  waves: ['q1_2024', 'q2_2024'],
+  audiences: ['Gen Z', 'Millennials'],
+});
+
+// Parse the way the chat does, with the classifier's entities
+const parse = (message: string) => parseDataQuery(message, crosstab, extractEntities(message));
+
+describe('extractThresholds', () => {
+  it('reads index, reach and sample thresholds', () => {
+    expect(extractThresholds('index above 150 and reach under 20% with a sample of at least 100')).toEqual({
+      minIndex: 150,
+      maxReach: 20,
+      minSample: 100,
+    });
+  });
+
+  it('returns undefined when the message has none', () => {
+    expect(extractThresholds('what does Gen Z watch?')).toBeUndefined();
+  });
+});
+
+describe('looksLikeDataQuery', () => {
+  it('recognises thresholds, rankings and restrictions', () => {
+    expect(looksLikeDataQuery('index over 120')).toBe(true);
+    expect(looksLikeDataQuery('top 10')).toBe(true);
+    expect(looksLikeDataQuery('only social platforms')).toBe(true);
+  });
+
+  it('treats "only …" as a refinement only when a query is open', () => {
+    expect(looksLikeDataQuery('only in the UK')).toBe(false);
+    expect(looksLikeDataQuery('only in the UK', true)).toBe(true);
+  });
+});
+
+describe('parseDataQuery', () => {
+  it('sets only what the message mentions', () => {
+    expect(parse('Show rows with index above 150')).toEqual({ thresholds: { minIndex: 150 } });
+  });
+
+  it('reads rankings, sort metric and markets', () => {
+    expect(parse('Top 5 by reach in the US')).toEqual({
+      slice: { markets: ['us'], waves: [], columns: [], unmatched: [] },
+      order: 'top',
+      limit: 5,
+      sortBy: 'reach',
+    });
+  });
+
+  it('resolves waves and audiences to the crosstab', () => {
+    expect(parse('bottom 10 in Q2 2024 for Millennials')).toMatchObject({
+      slice: { markets: [], waves: ['q2_2024'], columns: ['aud2'] },
+      order: 'bottom',
+      limit: 10,
+    });
+  });
+
+  it('reads category and significance restrictions', () => {
+    expect(parse('only social platforms').categories).toEqual([{ category: 'media', subcategory: 'social' }]);
+    expect(parse('only significant results')).toEqual({ significantOnly: true });
+  });
+
+  it('keeps markets the crosstab does not cover as unmatched', () => {
+    expect(parse('only in France').slice?.unmatched).toEqual(['France']);
+  });
+});
+
+describe('mergeDataQuery', () => {
+  it('keeps earlier filters a follow-up does not touch', () => {
+    const merged = mergeDataQuery(parse('index above 150'), parse('only in UK'));
+
+    expect(merged.thresholds).toEqual({ minIndex: 150 });
+    expect(merged.slice?.markets).toEqual(['gb']);
+  });
+
+  it('merges thresholds and slice dimensions one by one', () => {
+    const previous = mergeDataQuery(parse('index above 150 in Q1 2024'), parse('only in the US'));
+    const merged = mergeDataQuery(previous, parse('reach under 30 in UK'));
+
+    expect(merged.thresholds).toEqual({ minIndex: 150, maxReach: 30 });
+    expect(merged.slice).toMatchObject({ markets: ['gb'], waves: ['q1_2024'] });
+  });
+
+  it('lets the follow-up replace ranking and limit', () => {
+    const merged = mergeDataQuery(parse('top 10 by index'), parse('bottom 5'));
+
+    expect(merged).toMatchObject({ order: 'bottom', limit: 5, sortBy: 'index' });
+  });
+});
@@ -0,0 +1,251 @@
+import type {
+  Crosstab,
+  AnalysisConfig,
+  DataQuery,
+  DataQueryResult,
+  IntentEntities,
+  IntentThresholds,
+  QueryMetric,
+  TableRow,
+  TaxonomyCategory,
+  Taxonomy
+} from './types';
+import { buildCrosstabGrid } from './crosstab-grid';
+import { getTaxonomy, categorizeDatapoint } from './taxonomy';
+import { resolveSlice, getSliceData, isEmptySlice, describeSlice } from './entity-resolver';
+
+// Most cells a query result keeps when it has no limit of its own
+const MAX_RESULT_ROWS = 200;
+
+// Words that introduce a restriction: "only social platforms", "just brands"
+const FILTER_PATTERN = /\b(?:only|just|filter(?:ed)?\s+(?:to|by|on)|limit(?:ed)?\s+to|restrict(?:ed)?\s+to|narrow(?:ed)?\s+to)\b/i;
+const RANKING_PATTERN = /\b(top|bottom|highest|lowest)\s+(\d+)\b/i;
+const CLEAR_PATTERN = /\b(?:clear|reset|remove|drop)\s+(?:all\s+|the\s+)?filters?\b/i;
+
+const METRIC_NAMES: Record<QueryMetric, string> = { index: 'Index', reach: 'Reach', sample: 'Sample' };
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Thresholds written as "index above 150", "reach under 20%" or "sample of at least 100"
+ */
+export function extractThresholds(message: string): IntentThresholds | undefined {
+  const above = '(?:above|over|greater than|more than|higher than|at least|>=?|≥)';
+  const below = '(?:below|under|less than|lower than|at most|<=?|≤)';
+  const number = '(\\d+(?:\\.\\d+)?)';
+  const find = (subject: string, comparison: string) => {
+    const match = message.match(new RegExp(`\\b${subject}\\b(?:\\s+(?:size|of|is|was))*\\s*${comparison}\\s*${number}`, 'i'));
+    return match ? parseFloat(match[1]) : undefined;
+  };
+
+  const thresholds: IntentThresholds = {
+    minIndex: find('index(?:es)?', above),
+    maxIndex: find('index(?:es)?', below),
+    minReach: find('(?:reach|penetration)', above),
+    maxReach: find('(?:reach|penetration)', below),
+    minSample: find('(?:sample|n)', above),
+  };
+
+  const present = Object.entries(thresholds).filter(([, value]) => value !== undefined);
+  return present.length > 0 ? Object.fromEntries(present) as IntentThresholds : undefined;
+}
+
+/**
+ * True when a message asks to filter or rank a crosstab's cells rather than
+ * for an analysis: thresholds, "top 10", "only social platforms", "clear filters".
+ *
+ * @param refining - A query is already open, so any "only …" restriction refines it
+ */
+export function looksLikeDataQuery(message: string, refining: boolean = false): boolean {
+  if (extractThresholds(message) || RANKING_PATTERN.test(message) || CLEAR_PATTERN.test(message)) return true;
+  if (!FILTER_PATTERN.test(message)) return false;
+  return refining || /\bsignificant\b/i.test(message) || findCategoryFilters(message).length > 0;
+}
+
+/**
+ * True when a message asks to drop the open query
+ */
+export function isClearFiltersRequest(message: string): boolean {
+  return CLEAR_PATTERN.test(message);
+}
+
+/**
+ * Read the filters a message asks for. Only what it mentions is set, so the
+ * result can be merged onto the previous query with mergeDataQuery().
+ *
+ * @param entities - Entities the intent classifier already extracted
+ */
+export function parseDataQuery(message: string, crosstab: Crosstab, entities: IntentEntities = {}): DataQuery {
+  const query: DataQuery = {};
+
+  const thresholds = { ...entities.thresholds, ...extractThresholds(message) };
+  if (Object.keys(thresholds).length > 0) query.thresholds = thresholds;
+
+  const categories = findCategoryFilters(message);
+  if (categories.length > 0) query.categories = categories;
+
+  if (FILTER_PATTERN.test(message) && /\bsignificant\b/i.test(message)) query.significantOnly = true;
+
+  const slice = resolveSlice(message, crosstab, entities);
+  if (!isEmptySlice(slice) || slice.unmatched.length > 0) query.slice = slice;
+
+  const ranking = message.match(RANKING_PATTERN) ?? message.match(/\b(top|bottom|highest|lowest)\b/i);
+  if (ranking) {
+    query.order = /bottom|lowest/i.test(ranking[1]) ? 'bottom' : 'top';
+    if (ranking[2]) query.limit = parseInt(ranking[2]);
+  }
+
+  const sortBy = message.match(/\bby\s+(index|reach|penetration|audience\s*%|sample(?:\s+size)?)\b/i)?.[1].toLowerCase();
+  if (sortBy) query.sortBy = sortBy.startsWith('sample') ? 'sample' : sortBy === 'index' ? 'index' : 'reach';
+
+  return query;
+}
+
+/**
+ * Refine a previous query with a follow-up. Whatever the follow-up sets
+ * replaces the previous value; thresholds and slice dimensions are merged
+ * one by one, so "only in the US" keeps the earlier index filter.
+ */
+export function mergeDataQuery(previous: DataQuery, next: DataQuery): DataQuery {
+  const slice = previous.slice && next.slice
+    ? {
+      markets: next.slice.markets.length > 0 ? next.slice.markets : previous.slice.markets,
+      waves: next.slice.waves.length > 0 ? next.slice.waves : previous.slice.waves,
+      columns: next.slice.columns.length > 0 ? next.slice.columns : previous.slice.columns,
+      unmatched: next.slice.unmatched,
+    }
+    : next.slice ?? previous.slice;
+
+  return {
+    thresholds: previous.thresholds || next.thresholds ? { ...previous.thresholds, ...next.thresholds } : undefined,
+    categories: next.categories ?? previous.categories,
+    significantOnly: next.significantOnly ?? previous.significantOnly,
+    slice,
+    order: next.order ?? previous.order,
+    sortBy: next.sortBy ?? previous.sortBy,
+    limit: next.limit ?? previous.limit,
+  };
+}
+
+// ============================================================================
+// EXECUTION
+// ============================================================================
+
+/**
+ * Run a query over a crosstab's cells. Cells below the sample floor are never
+ * returned. Significance is read from the rows, so run the analyzer on the
+ * crosstab first.
+ */
+export function runDataQuery(crosstab: Crosstab, query: DataQuery, config: AnalysisConfig): DataQueryResult {
+  const data = query.slice ? getSliceData(crosstab, query.slice) : crosstab.data || [];
+  const grid = buildCrosstabGrid({ ...crosstab, data }, config);
+  const { thresholds = {}, categories, significantOnly } = query;
+
+  const candidates = grid.rows.filter(row => !row.lowSample);
+  const matching = candidates.filter(row => {
+    const { audience_index: index, audience_percentage: reach, positive_sample: sample } = row.metrics;
+    if (thresholds.minIndex !== undefined && index < thresholds.minIndex) return false;
+    if (thresholds.maxIndex !== undefined && index > thresholds.maxIndex) return false;
+    if (thresholds.minReach !== undefined && reach < thresholds.minReach) return false;
+    if (thresholds.maxReach !== undefined && reach > thresholds.maxReach) return false;
+    if (thresholds.minSample !== undefined && sample < thresholds.minSample) return false;
+    if (significantOnly && !row.significant) return false;
+
+    if (categories && categories.length > 0) {
+      const match = categorizeDatapoint(row.datapoint, crosstab);
+      if (!match || !categories.some(c => c.category === match.category && (!c.subcategory || c.subcategory === match.subcategory))) {
+        return false;
+      }
+    }
+    return true;
+  });
+
+  const metric = query.sortBy ?? 'index';
+  const direction = query.order === 'bottom' ? 1 : -1;
+  matching.sort((a, b) => direction * (getMetric(a, metric) - getMetric(b, metric)));
+
+  return {
+    query,
+    rows: matching.slice(0, query.limit ?? MAX_RESULT_ROWS),
+    matched: matching.length,
+    total: candidates.length,
+    minSample: config.minSample,
+  };
+}
+
+/**
+ * Value of a query metric for a result row
+ */
+export function getMetric(row: TableRow, metric: QueryMetric): number {
+  switch (metric) {
+    case 'reach': return row.metrics.audience_percentage;
+    case 'sample': return row.metrics.positive_sample;
+    default: return row.metrics.audience_index;
+  }
+}
+
+/**
+ * Readable summary of a query, e.g. "Index ≥ 150 · Social Media · USA · Bottom 10 by index"
+ */
+export function describeDataQuery(query: DataQuery, crosstab: Crosstab, taxonomy: Taxonomy = getTaxonomy()): string {
+  const { thresholds = {} } = query;
+  const parts: string[] = [];
+
+  if (thresholds.minIndex !== undefined) parts.push(`Index ≥ ${thresholds.minIndex}`);
+  if (thresholds.maxIndex !== undefined) parts.push(`Index ≤ ${thresholds.maxIndex}`);
+  if (thresholds.minReach !== undefined) parts.push(`Reach ≥ ${thresholds.minReach}%`);
+  if (thresholds.maxReach !== undefined) parts.push(`Reach ≤ ${thresholds.maxReach}%`);
+  if (thresholds.minSample !== undefined) parts.push(`Sample ≥ ${thresholds.minSample}`);
+
+  query.categories?.forEach(({ category, subcategory }) => {
+    const definition = taxonomy.categories[category];
+    parts.push((subcategory ? definition?.subcategories?.[subcategory]?.label : definition?.label) ?? subcategory ?? category);
+  });
+
+  if (query.significantOnly) parts.push('Significant only');
+  if (query.slice && !isEmptySlice(query.slice)) parts.push(describeSlice(query.slice, crosstab));
+
+  const metric = METRIC_NAMES[query.sortBy ?? 'index'].toLowerCase();
+  const order = query.order === 'bottom' ? 'Bottom' : 'Top';
+  parts.push(query.limit ? `${order} ${query.limit} by ${metric}` : `${order === 'Top' ? 'Highest' : 'Lowest'} ${metric} first`);
+
+  return parts.join(' · ');
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Taxonomy categories and subcategories named after "only", "just", "filter to" …
+ * A category is named by its key or a word of its label ("purchases",
+ * "shopping"); a subcategory by its key or the first word of its label
+ * ("social"), and replaces its parent category.
+ */
+function findCategoryFilters(message: string, taxonomy: Taxonomy = getTaxonomy()): NonNullable<DataQuery['categories']> {
+  const filter = message.match(FILTER_PATTERN);
+  if (!filter) return [];
+  const text = message.slice(filter.index!);
+
+  const names = (value: string) => new RegExp(`\\b${value.toLowerCase().replace(/s$/, '')}(?:s|es)?\\b`, 'i');
+  const found: NonNullable<DataQuery['categories']> = [];
+
+  (Object.entries(taxonomy.categories) as [TaxonomyCategory, NonNullable<Taxonomy['categories'][TaxonomyCategory]>][])
+    .forEach(([category, definition]) => {
+      const subcategories = Object.entries(definition.subcategories ?? {})
+        .filter(([key, group]) => [key, group.label.split(/\s+/)[0]].some(term => names(term).test(text)))
+        .map(([subcategory]) => ({ category, subcategory }));
+
+      if (subcategories.length > 0) {
+        found.push(...subcategories);
+        return;
+      }
+
+      const terms = [category, ...definition.label.split(/[^A-Za-z]+/).filter(word => word.length >= 4)];
+      if (terms.some(term => names(term).test(text))) found.push({ category });
+    });
+
+  return found;
+}
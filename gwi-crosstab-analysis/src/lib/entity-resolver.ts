@@ -0,0 +1,304 @@
+import type { Crosstab, CrosstabDataRow, CrosstabSlice, IntentEntities } from './types';
+import { findMatchingColumn } from './types';
+import { getRowLocation } from './market-comparison';
+
+// Names people type for GWI markets, by lowercase ISO code. Two-letter codes
+// are recognised on their own only when written in capitals ("in" is India).
+const MARKET_NAMES: Record<string, string[]> = {
+  ar: ['Argentina'],
+  au: ['Australia'],
+  at: ['Austria'],
+  be: ['Belgium'],
+  br: ['Brazil'],
+  ca: ['Canada'],
+  cl: ['Chile'],
+  cn: ['China'],
+  co: ['Colombia'],
+  dk: ['Denmark'],
+  eg: ['Egypt'],
+  fi: ['Finland'],
+  fr: ['France'],
+  de: ['Germany'],
+  gh: ['Ghana'],
+  gr: ['Greece'],
+  hk: ['Hong Kong'],
+  in: ['India'],
+  id: ['Indonesia'],
+  ie: ['Ireland'],
+  il: ['Israel'],
+  it: ['Italy'],
+  jp: ['Japan'],
+  ke: ['Kenya'],
+  my: ['Malaysia'],
+  mx: ['Mexico'],
+  ma: ['Morocco'],
+  nl: ['Netherlands', 'Holland'],
+  nz: ['New Zealand'],
+  ng: ['Nigeria'],
+  no: ['Norway'],
+  pk: ['Pakistan'],
+  pe: ['Peru'],
+  ph: ['Philippines'],
+  pl: ['Poland'],
+  pt: ['Portugal'],
+  ro: ['Romania'],
+  ru: ['Russia'],
+  sa: ['Saudi Arabia', 'KSA'],
+  sg: ['Singapore'],
+  za: ['South Africa'],
+  kr: ['South Korea', 'Korea'],
+  es: ['Spain'],
+  se: ['Sweden'],
+  ch: ['Switzerland'],
+  tw: ['Taiwan'],
+  th: ['Thailand'],
+  tr: ['Turkey', 'Türkiye'],
+  ae: ['UAE', 'United Arab Emirates'],
+  gb: ['UK', 'United Kingdom', 'Great Britain', 'Britain'],
+  us: ['USA', 'United States', 'United States of America'],
+  vn: ['Vietnam'],
+};
+
+// Written codes that differ from the ISO code GWI uses
+const MARKET_CODE_ALIASES: Record<string, string> = { uk: 'gb' };
+
+// Quarters as people write them: "Q3 2024", "q3_2024", "Q3-2024"
+const QUARTER_PATTERN = /\bq([1-4])[\s_-]*((?:19|20)\d{2})\b/gi;
+
+/**
+ * Display name for a market code, e.g. "gb" → "UK"
+ */
+export function getMarketName(code: string): string {
+  return MARKET_NAMES[code.toLowerCase()]?.[0] ?? code.toUpperCase();
+}
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+/**
+ * Resolve the markets, waves and audiences a message names against a crosstab.
+ * Country names or codes must be among country_codes, quarters and years
+ * among wave_codes, and audiences among the columns; what the crosstab does
+ * not have is reported as unmatched rather than dropped silently.
+ *
+ * @param entities - Entities the intent classifier already extracted
+ */
+export function resolveSlice(message: string, crosstab: Crosstab, entities: IntentEntities = {}): CrosstabSlice {
+  const slice: CrosstabSlice = { markets: [], waves: [], columns: [], unmatched: [] };
+
+  // Markets
+  const available = new Map((crosstab.country_codes || []).map(code => [code.toLowerCase(), code]));
+  const named = [
+    ...findMarketMentions(message),
+    ...(entities.markets || []).map(written => ({ code: resolveMarketCode(written), byName: false })),
+  ];
+  named.forEach(({ code, byName }) => {
+    if (!code) return;
+    const market = available.get(code);
+    if (market) {
+      if (!slice.markets.includes(market)) slice.markets.push(market);
+    } else if (byName && !slice.unmatched.includes(getMarketName(code))) {
+      // A stray capitalised word ("IT", "NO") is only a market when the crosstab has it
+      slice.unmatched.push(getMarketName(code));
+    }
+  });
+
+  // Waves
+  const waves = crosstab.wave_codes || [];
+  const quarters = [
+    ...Array.from(message.matchAll(QUARTER_PATTERN), m => ({ quarter: m[1], year: m[2] })),
+    ...(entities.waves || []).flatMap(w => Array.from(w.matchAll(QUARTER_PATTERN), m => ({ quarter: m[1], year: m[2] }))),
+  ];
+  quarters.forEach(({ quarter, year }) => {
+    const wave = waves.find(code => parseWave(code)?.quarter === quarter && parseWave(code)?.year === year);
+    const label = `Q${quarter} ${year}`;
+    if (wave) {
+      if (!slice.waves.includes(wave)) slice.waves.push(wave);
+    } else if (!slice.unmatched.includes(label)) {
+      slice.unmatched.push(label);
+    }
+  });
+
+  // A bare year after "in"/"during" selects every wave of that year, unless quarters were named
+  if (quarters.length === 0) {
+    Array.from(message.matchAll(/\b(?:in|for|during|from)\s+((?:19|20)\d{2})\b/gi), m => m[1]).forEach(year => {
+      const inYear = waves.filter(code => parseWave(code)?.year === year || code.includes(year));
+      if (inYear.length === 0) {
+        if (!slice.unmatched.includes(year)) slice.unmatched.push(year);
+      }
+      inYear.forEach(wave => {
+        if (!slice.waves.includes(wave)) slice.waves.push(wave);
+      });
+    });
+  }
+
+  // Audiences: columns named in the message, longest names first so "Gen Z Women" beats "Gen Z"
+  const columns = [...crosstab.columns].filter(c => c.name.trim().length >= 3).sort((a, b) => b.name.length - a.name.length);
+  let remaining = message;
+  columns.forEach(column => {
+    const pattern = new RegExp(`(^|[^a-z0-9])${escapeRegExp(column.name.trim())}(?=$|[^a-z0-9])`, 'i');
+    if (pattern.test(remaining)) {
+      slice.columns.push(column.id);
+      remaining = remaining.replace(pattern, '$1');
+    }
+  });
+
+  // Naming everything is the same as naming nothing
+  if (slice.markets.length === available.size) slice.markets = [];
+  if (slice.waves.length === waves.length) slice.waves = [];
+  if (slice.columns.length === crosstab.columns.length) slice.columns = [];
+
+  return slice;
+}
+
+/**
+ * True when the text is nothing but a market, wave or audience: "Germany",
+ * "UK", "Q3 2024", "2024" or one of the crosstab's column or base names.
+ * Markets and waves count whether or not the crosstab has them.
+ */
+export function isEntityName(text: string, crosstab: Crosstab): boolean {
+  const name = text.replace(/[?.!]+$/, '').replace(/^the\s+/i, '').trim();
+  if (!name) return false;
+
+  // Short codes only in capitals, as in findMarketMentions ("in" is India); "uk" and "usa" either way
+  const code = resolveMarketCode(name);
+  if (code && (name.length > 3 || name === name.toUpperCase() || name.toLowerCase() in MARKET_CODE_ALIASES || name.toLowerCase() === 'usa')) {
+    return true;
+  }
+
+  if (/^q[1-4][\s_-]*(?:19|20)\d{2}$/i.test(name) || /^(?:19|20)\d{2}$/.test(name)) return true;
+
+  const lower = name.toLowerCase();
+  return [...crosstab.columns, ...(crosstab.bases || [])].some(definition => definition.name.trim().toLowerCase() === lower);
+}
+
+/**
+ * True when the slice keeps the whole crosstab
+ */
+export function isEmptySlice(slice: CrosstabSlice): boolean {
+  return slice.markets.length === 0 && slice.waves.length === 0 && slice.columns.length === 0;
+}
+
+/**
+ * The crosstab's data rows that fall inside a slice, as they are (not copied)
+ */
+export function getSliceData(crosstab: Crosstab, slice: CrosstabSlice): CrosstabDataRow[] {
+  const data = crosstab.data || [];
+  if (isEmptySlice(slice)) return data;
+
+  const markets = new Set(slice.markets.map(code => code.toLowerCase()));
+  const waves = new Set(slice.waves);
+  const columns = new Set(slice.columns);
+
+  return data.filter(row => {
+    if (markets.size > 0) {
+      const location = getRowLocation(row, crosstab);
+      if (!location || !markets.has(location)) return false;
+    }
+    if (waves.size > 0 && row.wave && !waves.has(row.wave)) return false;
+    if (columns.size > 0) {
+      const column = findMatchingColumn(row.audience, crosstab.columns);
+      if (!column || !columns.has(column.id)) return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Copy of the crosstab restricted to a slice. Markets, waves and columns are
+ * narrowed along with the data, so every analysis downstream sees only the slice.
+ * Data rows are copied so significance annotations do not leak into the cached crosstab.
+ */
+export function applySlice(crosstab: Crosstab, slice: CrosstabSlice): Crosstab {
+  if (isEmptySlice(slice)) return crosstab;
+
+  const markets = new Set(slice.markets.map(code => code.toLowerCase()));
+  const waves = new Set(slice.waves);
+  const columns = new Set(slice.columns);
+
+  return {
+    ...crosstab,
+    country_codes: markets.size > 0 ? crosstab.country_codes.filter(code => markets.has(code.toLowerCase())) : crosstab.country_codes,
+    wave_codes: waves.size > 0 ? crosstab.wave_codes.filter(code => waves.has(code)) : crosstab.wave_codes,
+    columns: columns.size > 0 ? crosstab.columns.filter(column => columns.has(column.id)) : crosstab.columns,
+    data: getSliceData(crosstab, slice).map(row => ({ ...row, significance: undefined })),
+  };
+}
+
+/**
+ * One-line summary of a slice, e.g. "Germany, UK · Q3 2024 · Gen Z"
+ */
+export function describeSlice(slice: CrosstabSlice, crosstab: Crosstab): string {
+  return [
+    slice.markets.map(getMarketName).join(', '),
+    slice.waves.map(formatWave).join(', '),
+    slice.columns.map(id => crosstab.columns.find(c => c.id === id)?.name ?? id).join(', '),
+  ].filter(Boolean).join(' · ');
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Market codes mentioned by name ("Germany"), alias ("uk") or capitalised code ("DE"),
+ * in the order they appear
+ */
+function findMarketMentions(message: string): { code: string; byName: boolean }[] {
+  const found: { code: string; at: number; byName: boolean }[] = [];
+
+  Object.entries(MARKET_NAMES).forEach(([code, names]) => {
+    names.forEach(name => {
+      // Short all-caps names ("UK", "KSA") are codes themselves, matched below
+      if (name.length <= 3 && name === name.toUpperCase()) return;
+      const match = message.match(new RegExp(`(^|[^a-z])${escapeRegExp(name)}(?=$|[^a-z])`, 'i'));
+      if (match) found.push({ code, at: match.index!, byName: true });
+    });
+  });
+
+  Array.from(message.matchAll(/\b[A-Z]{2,3}\b/g)).forEach(match => {
+    const code = resolveMarketCode(match[0]);
+    if (code) found.push({ code, at: match.index!, byName: match[0].toLowerCase() in MARKET_CODE_ALIASES || match[0].length === 3 });
+  });
+
+  // Lowercase aliases people type for the UK and US
+  Array.from(message.matchAll(/\b(uk|usa)\b/g)).forEach(match => {
+    found.push({ code: resolveMarketCode(match[0])!, at: match.index!, byName: true });
+  });
+
+  // "United States" and "United States of America" both match: keep each code once
+  const seen = new Set<string>();
+  return found.sort((a, b) => a.at - b.at).filter(f => !seen.has(f.code) && !!seen.add(f.code));
+}
+
+/**
+ * Lowercase ISO code for a written code or short name ("UK", "USA", "KSA", "DE")
+ */
+function resolveMarketCode(written: string): string | undefined {
+  const lower = written.toLowerCase();
+  if (MARKET_CODE_ALIASES[lower]) return MARKET_CODE_ALIASES[lower];
+  if (MARKET_NAMES[lower]) return lower;
+  return Object.entries(MARKET_NAMES).find(([, names]) => names.some(name => name.toLowerCase() === lower))?.[0];
+}
+
+/**
+ * Quarter and year of a wave code such as "q3_2024" or "2024_q3"
+ */
+function parseWave(code: string): { quarter: string; year: string } | undefined {
+  const quarter = code.match(/q([1-4])/i)?.[1];
+  const year = code.match(/((?:19|20)\d{2})/)?.[1];
+  return quarter && year ? { quarter, year } : undefined;
+}
+
+/**
+ * "q3_2024" → "Q3 2024"; other codes are shown as they are
+ */
+function formatWave(code: string): string {
+  const wave = parseWave(code);
+  return wave ? `Q${wave.quarter} ${wave.year}` : code;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
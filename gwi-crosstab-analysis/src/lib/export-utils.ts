@@ -0,0 +1,11 @@
+// ============================================================================
+// SHARED EXPORT HELPERS
+// ============================================================================
+
+/**
+ * File name for a download, derived from the crosstab name
+ */
+export function exportFileName(crosstabName: string, extension: string): string {
+  const base = crosstabName.replace(/[^\w\s-]/g, '').trim().replace(/\s+/g, '-').substring(0, 80);
+  return `${base || 'crosstab-analysis'}.${extension}`;
+}
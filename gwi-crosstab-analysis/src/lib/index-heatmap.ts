@@ -0,0 +1,157 @@
+import type {
+  Crosstab,
+  CrosstabDataRow,
+  AnalysisConfig,
+  HeatmapCell,
+  HeatmapData
+} from './types';
+import { getRowName, getColumnName } from './types';
+import { getRowLocation, getLatestWave } from './market-comparison';
+
+// Dimension spread across the heatmap columns; rows are always datapoints
+export type HeatmapDimension = 'audience' | 'location' | 'wave';
+
+export interface IndexHeatmapOptions {
+  columns: HeatmapDimension;
+  // Fixed values for the other dimensions; default to the first audience,
+  // the first market and the latest wave
+  audience?: string;
+  location?: string;
+  wave?: string;
+  limit?: number;
+}
+
+export interface IndexHeatmap {
+  heatmap: HeatmapData;
+  audience?: string;   // Fixed audience name, when columns are not audiences
+  location?: string;   // Fixed market, when columns are not markets
+  wave?: string;       // Fixed wave, when columns are not waves
+}
+
+// ============================================================================
+// HEATMAP BUILDER
+// ============================================================================
+
+/**
+ * Build a datapoint × audience (or × market / × wave) index grid.
+ *
+ * The dimensions not spread across the columns are pinned to a single value
+ * so every cell is one crosstab cell. Cells below the sample floor keep their
+ * metrics for tooltips but are masked out of the values.
+ *
+ * @returns undefined when the chosen dimension has fewer than two values in the data
+ */
+export function buildIndexHeatmap(
+  crosstab: Crosstab,
+  config: AnalysisConfig,
+  options: IndexHeatmapOptions
+): IndexHeatmap | undefined {
+  const data = crosstab.data || [];
+  const limit = options.limit ?? 20;
+
+  const audience = options.columns === 'audience' ? undefined : options.audience ?? data[0]?.audience;
+  const location = options.columns === 'location'
+    ? undefined
+    : (options.location ?? crosstab.country_codes[0])?.toLowerCase();
+  const wave = options.columns === 'wave' ? undefined : options.wave ?? getLatestWave(crosstab);
+
+  const filtered = data.filter(row =>
+    (!audience || row.audience === audience) &&
+    (!location || getRowLocation(row, crosstab) === location) &&
+    (!wave || !row.wave || row.wave === wave)
+  );
+
+  const columnKeys = getColumnKeys(crosstab, filtered, options.columns);
+  if (columnKeys.length < 2) return undefined;
+
+  // datapoint → column key → data row
+  const grid = new Map<string, Map<string, CrosstabDataRow>>();
+  filtered.forEach(row => {
+    const key = getDimensionValue(row, crosstab, options.columns);
+    if (!key) return;
+    if (!grid.has(row.datapoint)) grid.set(row.datapoint, new Map());
+    grid.get(row.datapoint)!.set(key, row);
+  });
+
+  const rows = Array.from(grid.entries()).map(([datapoint, cellsByKey]) => {
+    const cells: (HeatmapCell | null)[] = columnKeys.map(key => {
+      const row = cellsByKey.get(key);
+      if (!row) return null;
+      return {
+        metrics: row.metrics,
+        masked: row.metrics.positive_sample < config.minSample,
+        significant: row.significance?.significant,
+      };
+    });
+    const values = cells.map(cell => (cell && !cell.masked ? Math.round(cell.metrics.audience_index) : null));
+    const filled = values.filter((v): v is number => v !== null);
+
+    return {
+      label: getRowName(datapoint, crosstab.rows),
+      cells,
+      values,
+      peak: filled.length > 0 ? Math.max(...filled) : -Infinity,
+    };
+  });
+
+  // Most distinctive datapoints first; rows with no reportable cells last
+  rows.sort((a, b) => b.peak - a.peak);
+  const shown = rows.slice(0, limit);
+
+  return {
+    heatmap: {
+      rows: shown.map(r => r.label),
+      columns: columnKeys.map(key => getDimensionLabel(key, crosstab, options.columns)),
+      values: shown.map(r => r.values),
+      cells: shown.map(r => r.cells),
+      minSample: config.minSample,
+      referenceValue: 100,
+    },
+    audience: audience ? getColumnName(audience, crosstab.columns) : undefined,
+    location,
+    wave,
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function getDimensionValue(row: CrosstabDataRow, crosstab: Crosstab, dimension: HeatmapDimension): string | undefined {
+  switch (dimension) {
+    case 'audience': return row.audience;
+    case 'location': return getRowLocation(row, crosstab);
+    case 'wave': return row.wave;
+  }
+}
+
+function getDimensionLabel(key: string, crosstab: Crosstab, dimension: HeatmapDimension): string {
+  switch (dimension) {
+    case 'audience': return getColumnName(key, crosstab.columns);
+    case 'location': return key.toUpperCase();
+    case 'wave': return key;
+  }
+}
+
+/**
+ * Column values present in the data, in the crosstab's own order where it has one
+ */
+function getColumnKeys(crosstab: Crosstab, data: CrosstabDataRow[], dimension: HeatmapDimension): string[] {
+  const present: string[] = [];
+  data.forEach(row => {
+    const key = getDimensionValue(row, crosstab, dimension);
+    if (key && !present.includes(key)) present.push(key);
+  });
+
+  const order = dimension === 'location'
+    ? crosstab.country_codes.map(c => c.toLowerCase())
+    : dimension === 'wave'
+      ? crosstab.wave_codes
+      : [];
+  const rank = (key: string) => {
+    const i = order.indexOf(key);
+    return i === -1 ? order.length : i;
+  };
+
+  return [...present].sort((a, b) => rank(a) - rank(b));
+}
@@ -0,0 +1,133 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  ModelIntentClassifier,
+  RuleBasedIntentClassifier,
+  createIntentClassifier,
+  createStubIntentModel,
+  extractComparisonTerms,
+  extractEntities,
+  type IntentModel,
+} from './intent-classifier';
+
+const SELECTED = '0b6f3a52-4c1e-4d8a-9f2b-7e5c1d3a9b10';
+
+const rules = new RuleBasedIntentClassifier();
+const stub = new ModelIntentClassifier(createStubIntentModel());
+
+describe('RuleBasedIntentClassifier', () => {
+  it('pages through the crosstab list from the offset given', async () => {
+    const intent = await rules.classify('Show more crosstabs from 10', {});
+
+    expect(intent).toMatchObject({ type: 'show_more_crosstabs', offset: 10, confidence: 1 });
+  });
+
+  it('treats a crosstab ID in the message as certain', async () => {
+    const intent = await rules.classify(`Analyze ${SELECTED}`, {});
+
+    expect(intent).toMatchObject({ type: 'analyze_crosstab', crosstabId: SELECTED, confidence: 1 });
+  });
+});
+
+describe('ModelIntentClassifier with the stub model', () => {
+  it('keeps paging requests the model cannot classify', async () => {
+    const intent = await stub.classify('Show more crosstabs from 10', {});
+
+    expect(intent).toMatchObject({ type: 'show_more_crosstabs', offset: 10, source: 'rules' });
+  });
+
+  it('keeps library prompts without asking the model', async () => {
+    let asked = false;
+    const model: IntentModel = async () => {
+      asked = true;
+      return { intent: 'help', confidence: 1 };
+    };
+
+    const intent = await new ModelIntentClassifier(model).classify('Who are they?', {
+      crosstabId: SELECTED,
+      promptMetadata: { promptId: 'audience-profile', promptCategory: 'audience', promptTitle: 'Audience profile' },
+    });
+
+    expect(intent.type).toBe('prompt_library');
+    expect(asked).toBe(false);
+  });
+
+  it('reads "list price" as a question about the selected crosstab, not a list request', async () => {
+    const message = 'What is the list price sensitivity of this audience?';
+
+    expect((await rules.classify(message, { crosstabId: SELECTED })).type).not.toBe('list_crosstabs');
+    expect(await stub.classify(message, { crosstabId: SELECTED })).toMatchObject({
+      type: 'analyze_crosstab',
+      crosstabId: SELECTED,
+      source: 'model',
+    });
+  });
+
+  it('searches for a named crosstab when none is selected', async () => {
+    const intent = await stub.classify('Show me my crosstabs about gaming', {});
+
+    expect(intent).toMatchObject({ type: 'list_crosstabs', searchTerm: 'gaming', source: 'model' });
+  });
+
+  it('falls back to the rules when the model is unsure', async () => {
+    const intent = await stub.classify('Compare', {});
+
+    expect(intent.source).toBe('rules');
+  });
+
+  it('falls back to the rules when the model fails', async () => {
+    const failing: IntentModel = async () => {
+      throw new Error('timeout');
+    };
+
+    const intent = await new ModelIntentClassifier(failing).classify('help', {});
+
+    expect(intent).toMatchObject({ type: 'help', source: 'rules' });
+  });
+
+  it('falls back to the rules when the model answers with an intent it may not use', async () => {
+    const malformed: IntentModel = async () => ({ intent: 'show_more_crosstabs', confidence: 1 });
+
+    const intent = await new ModelIntentClassifier(malformed).classify('help', {});
+
+    expect(intent).toMatchObject({ type: 'help', source: 'rules' });
+  });
+});
+
+describe('createIntentClassifier', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it.each(['abc', '1.5', '-0.1'])('uses the default minimum confidence for INTENT_MIN_CONFIDENCE=%s', async value => {
+    vi.stubEnv('INTENT_CLASSIFIER', 'stub');
+    vi.stubEnv('INTENT_MIN_CONFIDENCE', value);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const intent = await createIntentClassifier().classify('Compare', {});
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('INTENT_MIN_CONFIDENCE'));
+    expect(intent.source).toBe('rules');
+  });
+});
+
+describe('extractComparisonTerms', () => {
+  it('splits "compare A with B" and maps the selection to "this"', () => {
+    expect(extractComparisonTerms('Compare Gen Z gamers with Millennial gamers')).toEqual(['Gen Z gamers', 'Millennial gamers']);
+    expect(extractComparisonTerms('compare this with Boomers')).toEqual(['this', 'Boomers']);
+  });
+
+  it('drops market and wave qualifiers from the names', () => {
+    expect(extractComparisonTerms('Gen Z vs Millennials in UK')).toEqual(['Gen Z', 'Millennials']);
+  });
+});
+
+describe('extractEntities', () => {
+  it('reads waves, markets and thresholds as written', () => {
+    const entities = extractEntities('Which rows index above 150 in UK and US in Q3 2024?');
+
+    expect(entities.waves).toEqual(['Q3 2024']);
+    expect(entities.markets).toEqual(['UK', 'US']);
+    expect(entities.thresholds).toBeDefined();
+  });
+});
@@ -0,0 +1,476 @@
+import { z } from 'zod';
+import { shouldUseSparkAPI } from './spark-client';
+import { extractThresholds, looksLikeDataQuery } from './data-query';
+import type {
+  Intent,
+  IntentType,
+  IntentContext,
+  IntentClassifier,
+  IntentEntities
+} from './types';
+
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i;
+
+// Word-level so "list price" and "canvas" are not list / comparison requests
+const COMPARISON_PATTERN = /\bcompare\b|\bvs\b\.?|\bversus\b/i;
+const LIST_PATTERN = /\blist\b(?!\s+prices?\b)/i;
+
+// Intents a model may return; prompt_library and show_more come from the UI, not free text
+const MODEL_INTENTS = [
+  'list_crosstabs',
+  'analyze_crosstab',
+  'search_and_analyze',
+  'compare_crosstabs',
+  'spark_query',
+  'help',
+  'filter_data',
+  'unknown',
+] as const satisfies readonly IntentType[];
+
+function isModelIntent(type: IntentType): type is typeof MODEL_INTENTS[number] {
+  return (MODEL_INTENTS as readonly IntentType[]).includes(type);
+}
+
+// ============================================================================
+// ENTITY EXTRACTION
+// ============================================================================
+
+/**
+ * Pull the crosstab names out of "compare A with B", "A vs B" or
+ * "compare this with B". 'this' stands for the selected crosstab.
+ */
+export function extractComparisonTerms(message: string): string[] | undefined {
+  const clean = (term: string) => {
+    const cleaned = term
+      .replace(/[?.!]+$/, '')
+      // Market and wave qualifiers are entities, not part of the name
+      .replace(/\s+(?:in|for|across|during)\s+(?:[A-Z]{2,3}\b|[qQ][1-4][\s_-]*\d{4}\b).*$/, '')
+      .replace(/\b(the|my|crosstabs?|audiences?)\b/gi, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+    return /^(this|it|current|selected|one)?$/i.test(cleaned) ? 'this' : cleaned;
+  };
+
+  const pair = message.match(/compare\s+(.+?)\s+(?:with|and|to|against|vs\.?|versus)\s+(.+)/i)
+    || message.match(/^(.+?)\s+(?:vs\.?|versus)\s+(.+)$/i);
+  if (pair) return [clean(pair[1]), clean(pair[2])];
+
+  const single = message.match(/compare\s+(?:with|to|against)\s+(.+)/i);
+  if (single) return ['this', clean(single[1])];
+
+  return undefined;
+}
+
+/**
+ * Entities as written in the message: waves like "Q3 2024", market codes
+ * after "in"/"for"/"across" (e.g. "in UK and US"), and numeric thresholds.
+ * Crosstab names come from the classification itself.
+ */
+export function extractEntities(message: string): IntentEntities {
+  const entities: IntentEntities = {};
+
+  const waves = Array.from(message.matchAll(/\bq([1-4])[\s_-]*(\d{4})\b/gi), m => `Q${m[1]} ${m[2]}`);
+  if (waves.length > 0) entities.waves = Array.from(new Set(waves));
+
+  const marketLists = Array.from(message.matchAll(/\b(?:in|for|across|between)\s+((?:[A-Z]{2,3}\b(?:\s*(?:,|and|&|vs\.?|versus|or)\s*)?)+)/g), m => m[1]);
+  const markets = marketLists.flatMap(list => list.match(/\b[A-Z]{2,3}\b/g) || []);
+  if (markets.length > 0) entities.markets = Array.from(new Set(markets));
+
+  const thresholds = extractThresholds(message);
+  if (thresholds) entities.thresholds = thresholds;
+
+  return entities;
+}
+
+// ============================================================================
+// RULE-BASED CLASSIFIER
+// ============================================================================
+
+/**
+ * Keyword rules. Structural signals (a library prompt, a crosstab ID, paging
+ * through the list) are certain; keyword matches carry lower confidence.
+ */
+export class RuleBasedIntentClassifier implements IntentClassifier {
+  readonly name = 'rules';
+
+  async classify(message: string, context: IntentContext): Promise<Intent> {
+    const intent = this.classifyType(message, context);
+    const entities = extractEntities(message);
+
+    const names = intent.compareTerms?.filter(term => term !== 'this') ?? (intent.searchTerm ? [intent.searchTerm] : []);
+    if (names.length > 0) entities.crosstabNames = names;
+
+    return { ...intent, entities, source: 'rules' };
+  }
+
+  private classifyType(message: string, context: IntentContext): Omit<Intent, 'entities' | 'source'> {
+    const lower = message.toLowerCase();
+    const { crosstabId, promptMetadata } = context;
+
+    // If we have prompt metadata from the library, use it for classification
+    if (promptMetadata) {
+      console.log(`Using prompt metadata for classification: ${promptMetadata.promptCategory} - ${promptMetadata.promptTitle}`);
+      return {
+        type: 'prompt_library',
+        confidence: 1,
+        promptCategory: promptMetadata.promptCategory,
+        crosstabId: crosstabId || undefined,
+      };
+    }
+
+    // Check for "show more" requests
+    if (lower.includes('show more') || lower.includes('more crosstabs') || lower.includes('next 10') || lower.includes('show all')) {
+      // Extract offset from message if present (e.g., "show more from 10")
+      const offsetMatch = lower.match(/from (\d+)|offset (\d+)/);
+      const offset = offsetMatch ? parseInt(offsetMatch[1] || offsetMatch[2]) : 10;
+      return { type: 'show_more_crosstabs', confidence: 1, offset };
+    }
+
+    // Check for UUID pattern (crosstab ID) in the message
+    const uuidMatch = message.match(UUID_PATTERN);
+    const wantsComparison = COMPARISON_PATTERN.test(message);
+
+    // Several crosstab IDs, or one plus the selected crosstab, means a crosstab-vs-crosstab comparison
+    if (uuidMatch && wantsComparison) {
+      const ids = Array.from(new Set([
+        ...(crosstabId ? [crosstabId] : []),
+        ...(message.match(new RegExp(UUID_PATTERN.source, 'gi')) || []),
+      ]));
+      if (ids.length >= 2) {
+        return { type: 'compare_crosstabs', confidence: 1, crosstabIds: ids };
+      }
+    }
+
+    // If message contains a UUID, treat it as analyze request
+    if (uuidMatch) {
+      return { type: 'analyze_crosstab', confidence: 1, crosstabId: uuidMatch[0] };
+    }
+
+    // Filtering or ranking the selected crosstab's cells: "index above 150", "bottom 10 in the US"
+    if (crosstabId && looksLikeDataQuery(message, context.hasDataQuery)) {
+      return { type: 'filter_data', confidence: 0.8, crosstabId };
+    }
+
+    // List crosstabs
+    if (LIST_PATTERN.test(message) || (lower.includes('show me') && lower.includes('crosstab'))) {
+      const searchMatch = lower.match(/about (.+)|for (.+)|with (.+)/);
+      return {
+        type: 'list_crosstabs',
+        confidence: lower.includes('crosstab') ? 0.9 : 0.5,
+        searchTerm: searchMatch ? searchMatch[1] || searchMatch[2] || searchMatch[3] : undefined
+      };
+    }
+
+    // What crosstabs do I have
+    if (lower.includes('what crosstabs') || lower.includes('my crosstabs')) {
+      return { type: 'list_crosstabs', confidence: 0.9 };
+    }
+
+    // Compare - requires crosstab context
+    if (wantsComparison) {
+      const compareTerms = extractComparisonTerms(message);
+      return { type: 'compare_crosstabs', confidence: compareTerms ? 0.7 : 0.5, compareTerms };
+    }
+
+    // Analyze specific (with context)
+    if (crosstabId && (lower.includes('analyze') || lower.includes('tell me about') || lower.includes('insights'))) {
+      return { type: 'analyze_crosstab', confidence: 0.8, crosstabId };
+    }
+
+    // Generic analyze request without crosstab - prompt to list crosstabs
+    // Detect phrases like "analyze this crosstab", "analyze data", etc.
+    if (!crosstabId && (lower.includes('analyze') || lower.includes('insights'))) {
+      const searchTerm = message.replace(/analyze|look at|the|my|this|crosstab|and|give|me|all|insights|data/gi, '').trim();
+      // If after removing common words the search term is empty or very short, it's a generic analyze request
+      if (searchTerm.length <= 3) {
+        return { type: 'list_crosstabs', confidence: 0.7 };  // Redirect to list crosstabs
+      }
+      // Otherwise try to search for the specific term
+      return { type: 'search_and_analyze', confidence: 0.6, searchTerm };
+    }
+
+    // Search and analyze
+    if (lower.includes('look at')) {
+      const searchTerm = message.replace(/look at|the|my/gi, '').trim();
+      if (searchTerm.length > 2) {
+        return { type: 'search_and_analyze', confidence: 0.5, searchTerm };
+      }
+    }
+
+    // Trends query - route to Spark or prompt for crosstab
+    if (lower.includes('trend') || lower.includes('over time') || lower.includes('changes')) {
+      if (crosstabId) {
+        return { type: 'analyze_crosstab', confidence: 0.7, crosstabId };  // Analyze with trend focus
+      }
+      // Without crosstab, this becomes a spark query or list crosstabs prompt
+      if (shouldUseSparkAPI(message)) {
+        return { type: 'spark_query', confidence: 0.6 };
+      }
+      return { type: 'list_crosstabs', confidence: 0.5 };  // Prompt to select a crosstab
+    }
+
+    // Help
+    if (lower.includes('help') || lower.includes('what can you do')) {
+      return { type: 'help', confidence: 0.9 };
+    }
+
+    // Check if it's a Spark API query
+    if (shouldUseSparkAPI(message)) {
+      return { type: 'spark_query', confidence: 0.5 };
+    }
+
+    return { type: 'unknown', confidence: 0 };
+  }
+}
+
+// ============================================================================
+// MODEL-BACKED CLASSIFIER
+// ============================================================================
+
+// Request sent to the model endpoint
+export interface IntentModelRequest {
+  message: string;
+  hasCrosstab: boolean;
+  hasDataQuery: boolean;  // Follow-ups may refine the open data query
+  intents: readonly IntentType[];
+}
+
+/** Anything that can answer an IntentModelRequest: an HTTP endpoint, a local stub, a test double */
+export type IntentModel = (request: IntentModelRequest) => Promise<unknown>;
+
+const thresholdsSchema = z.object({
+  minIndex: z.number().optional(),
+  maxIndex: z.number().optional(),
+  minReach: z.number().optional(),
+  maxReach: z.number().optional(),
+  minSample: z.number().optional(),
+});
+
+// IntentEntities, as the model returns them and as intent handlers accept them
+export const intentEntitiesSchema = z.object({
+  crosstabNames: z.array(z.string()).optional(),
+  markets: z.array(z.string()).optional(),
+  waves: z.array(z.string()).optional(),
+  thresholds: thresholdsSchema.optional(),
+});
+
+// What the model endpoint must return
+const modelResponseSchema = z.object({
+  intent: z.enum(MODEL_INTENTS),
+  confidence: z.number().min(0).max(1),
+  searchTerm: z.string().optional(),
+  entities: intentEntitiesSchema.default({}),
+});
+
+// Model answers below this confidence defer to the rules
+const DEFAULT_MIN_CONFIDENCE = 0.6;
+
+/**
+ * Classifies with a model, keeping the rules for what they are certain about
+ * (library prompts, crosstab IDs, paging) or what the model cannot answer with,
+ * and falling back to them when the model is unsure, fails, or returns
+ * something malformed.
+ */
+export class ModelIntentClassifier implements IntentClassifier {
+  readonly name = 'model';
+
+  /**
+   * @param minConfidence - Model answers below this defer to the rules
+   */
+  constructor(
+    private model: IntentModel,
+    private fallback: IntentClassifier = new RuleBasedIntentClassifier(),
+    private minConfidence: number = DEFAULT_MIN_CONFIDENCE
+  ) {}
+
+  async classify(message: string, context: IntentContext): Promise<Intent> {
+    const ruled = await this.fallback.classify(message, context);
+    if (ruled.confidence >= 1 || !isModelIntent(ruled.type)) return ruled;
+
+    let parsed: z.infer<typeof modelResponseSchema>;
+    try {
+      const result = modelResponseSchema.safeParse(await this.model({
+        message,
+        hasCrosstab: !!context.crosstabId,
+        hasDataQuery: !!context.hasDataQuery,
+        intents: MODEL_INTENTS,
+      }));
+      if (!result.success) {
+        console.warn('Intent model returned an invalid response:', result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`));
+        return ruled;
+      }
+      parsed = result.data;
+    } catch (error) {
+      console.warn('Intent model failed, using rules:', error instanceof Error ? error.message : error);
+      return ruled;
+    }
+
+    if (parsed.confidence < this.minConfidence) {
+      console.log(`Intent model unsure (${parsed.intent} @ ${parsed.confidence}), using rules (${ruled.type})`);
+      return ruled;
+    }
+
+    // Entities the model missed are taken from the rules
+    const entities: IntentEntities = { ...ruled.entities, ...stripEmpty(parsed.entities) };
+    const names = entities.crosstabNames ?? [];
+
+    const intent: Intent = {
+      type: parsed.intent,
+      confidence: parsed.confidence,
+      source: 'model',
+      entities,
+    };
+
+    switch (parsed.intent) {
+      case 'analyze_crosstab':
+        // Without a selected crosstab, a named one has to be searched for
+        if (context.crosstabId) {
+          intent.crosstabId = context.crosstabId;
+        } else {
+          intent.type = names.length > 0 || parsed.searchTerm ? 'search_and_analyze' : 'list_crosstabs';
+          intent.searchTerm = parsed.searchTerm ?? names[0];
+        }
+        break;
+      case 'search_and_analyze':
+      case 'list_crosstabs':
+        intent.searchTerm = parsed.searchTerm ?? names[0];
+        break;
+      case 'filter_data':
+        // Filters only make sense over a selected crosstab
+        if (context.crosstabId) {
+          intent.crosstabId = context.crosstabId;
+        } else {
+          intent.type = 'list_crosstabs';
+        }
+        break;
+      case 'compare_crosstabs':
+        intent.compareTerms = names.length >= 2 ? names : names.length === 1 ? ['this', names[0]] : ruled.compareTerms;
+        break;
+    }
+
+    return intent;
+  }
+}
+
+function stripEmpty(entities: IntentEntities): IntentEntities {
+  return Object.fromEntries(
+    Object.entries(entities).filter(([, value]) =>
+      value !== undefined && !(Array.isArray(value) && value.length === 0) && !(typeof value === 'object' && Object.keys(value).length === 0)
+    )
+  ) as IntentEntities;
+}
+
+/**
+ * Model served over HTTP: POSTs the IntentModelRequest as JSON and expects
+ * `{ intent, confidence, entities?, searchTerm? }` back.
+ */
+export function createHttpIntentModel(url: string, apiKey?: string, timeoutMs: number = 5000): IntentModel {
+  return async request => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify(request),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Intent model error: ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+  };
+}
+
+/**
+ * Deterministic local stand-in for a model, for tests and offline development.
+ * Scores word-level cues, so it disagrees with the rules on exactly the
+ * phrasings the rules get wrong ("list price", words containing "vs").
+ */
+export function createStubIntentModel(): IntentModel {
+  return async ({ message, hasCrosstab, hasDataQuery }) => {
+    const entities = extractEntities(message);
+    const respond = (intent: typeof MODEL_INTENTS[number], confidence: number, extra: { searchTerm?: string; crosstabNames?: string[] } = {}) => ({
+      intent,
+      confidence,
+      searchTerm: extra.searchTerm,
+      entities: { ...entities, crosstabNames: extra.crosstabNames },
+    });
+
+    if (/\b(list|show|what)\b.*\bcrosstabs\b|\bmy crosstabs\b/i.test(message)) {
+      const search = message.match(/\b(?:about|for|with)\s+(.+?)[?.!]*$/i)?.[1];
+      return respond('list_crosstabs', 0.9, { searchTerm: search });
+    }
+    if (hasCrosstab && looksLikeDataQuery(message, hasDataQuery)) {
+      return respond('filter_data', 0.85);
+    }
+    if (COMPARISON_PATTERN.test(message)) {
+      const terms = extractComparisonTerms(message)?.filter(term => term !== 'this');
+      if (terms && terms.length > 0) return respond('compare_crosstabs', 0.85, { crosstabNames: terms });
+      return respond('compare_crosstabs', 0.4);
+    }
+    if (/\b(help|what can you do)\b/i.test(message)) {
+      return respond('help', 0.9);
+    }
+    if (/\b(analy[sz]e|insights?|tell me about|profile)\b/i.test(message)) {
+      return respond('analyze_crosstab', hasCrosstab ? 0.85 : 0.5);
+    }
+    if (hasCrosstab) {
+      // A question about the selected crosstab, e.g. "what's the list price sensitivity of this audience?"
+      return respond('analyze_crosstab', 0.7);
+    }
+    return respond('unknown', 0.2);
+  };
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * Create the intent classifier selected by environment variables:
+ * - INTENT_CLASSIFIER: "rules" (default), "model" or "stub"
+ * - INTENT_MODEL_URL / INTENT_MODEL_KEY: endpoint (and bearer key) for "model"
+ * - INTENT_MODEL_TIMEOUT_MS: request timeout for "model" (default 5000)
+ * - INTENT_MIN_CONFIDENCE: model answers below this use the rules (default 0.6)
+ */
+export function createIntentClassifier(): IntentClassifier {
+  const backend = (process.env.INTENT_CLASSIFIER || 'rules').toLowerCase();
+  const minConfidence = parseMinConfidence(process.env.INTENT_MIN_CONFIDENCE);
+  const rules = new RuleBasedIntentClassifier();
+
+  switch (backend) {
+    case 'model': {
+      const url = process.env.INTENT_MODEL_URL;
+      if (!url) {
+        console.warn('INTENT_CLASSIFIER=model needs INTENT_MODEL_URL, falling back to rules');
+        return rules;
+      }
+      const timeout = parseInt(process.env.INTENT_MODEL_TIMEOUT_MS || '5000');
+      return new ModelIntentClassifier(createHttpIntentModel(url, process.env.INTENT_MODEL_KEY, timeout), rules, minConfidence);
+    }
+    case 'stub':
+      return new ModelIntentClassifier(createStubIntentModel(), rules, minConfidence);
+    case 'rules':
+      return rules;
+    default:
+      console.warn(`Unknown INTENT_CLASSIFIER "${backend}", falling back to rules`);
+      return rules;
+  }
+}
+
+/**
+ * Read INTENT_MIN_CONFIDENCE, warning and using the default unless it is a number from 0 to 1
+ */
+function parseMinConfidence(value: string | undefined): number {
+  if (!value) return DEFAULT_MIN_CONFIDENCE;
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0 || parsed > 1) {
+    console.warn(`INTENT_MIN_CONFIDENCE must be a number from 0 to 1, got "${value}"; using ${DEFAULT_MIN_CONFIDENCE}`);
+    return DEFAULT_MIN_CONFIDENCE;
+  }
+  return parsed;
+}
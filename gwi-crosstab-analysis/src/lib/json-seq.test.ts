@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { createJsonSeqStats, parseJsonSeq } from './json-seq';
+
+const RS = '\x1e';
+
+// A response body delivering the text in the given chunks
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+async function collect(stream: ReadableStream<Uint8Array>, stats = createJsonSeqStats()): Promise<unknown[]> {
+  const values: unknown[] = [];
+  for await (const value of parseJsonSeq(stream, stats)) values.push(value);
+  return values;
+}
+
+describe('parseJsonSeq', () => {
+  it('splits RS-delimited records', async () => {
+    const values = await collect(streamOf(`${RS}{"a":1}\n${RS}{"a":2}\n`));
+
+    expect(values).toEqual([{ a: 1 }, { a: 2 }]);
+  });
+
+  it('reassembles records split across chunks', async () => {
+    const values = await collect(streamOf(`${RS}{"name":"Gen`, ` Z"}\n${RS}[1,`, '2]'));
+
+    expect(values).toEqual([{ name: 'Gen Z' }, [1, 2]]);
+  });
+
+  it('reassembles multi-byte characters split across chunks', async () => {
+    const bytes = new TextEncoder().encode(`${RS}{"market":"Côte d'Ivoire"}`);
+    const split = bytes.indexOf(0xc3) + 1;
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, split));
+        controller.enqueue(bytes.slice(split));
+        controller.close();
+      },
+    });
+
+    expect(await collect(stream)).toEqual([{ market: "Côte d'Ivoire" }]);
+  });
+
+  it('falls back to newline framing when the stream never sends RS', async () => {
+    const values = await collect(streamOf('  {"a":1}\n{"a":', '2}\n\n'));
+
+    expect(values).toEqual([{ a: 1 }, { a: 2 }]);
+  });
+
+  it('skips malformed records and reports them', async () => {
+    const stats = createJsonSeqStats();
+    const values = await collect(streamOf(`${RS}{"a":1}${RS}{oops${RS}{"a":3}`), stats);
+
+    expect(values).toEqual([{ a: 1 }, { a: 3 }]);
+    expect(stats).toMatchObject({ records: 3, malformed: 1 });
+    expect(stats.errors).toEqual([expect.objectContaining({ record: 2, sample: '{oops' })]);
+  });
+
+  it('yields nothing for an empty body', async () => {
+    const stats = createJsonSeqStats();
+
+    expect(await collect(streamOf('', '  \n'), stats)).toEqual([]);
+    expect(stats.records).toBe(0);
+  });
+});
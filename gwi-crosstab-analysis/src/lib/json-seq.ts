@@ -0,0 +1,97 @@
+// ============================================================================
+// JSON TEXT SEQUENCES (RFC 7464)
+// ============================================================================
+
+const RS = '\x1e';
+
+export interface JsonSeqError {
+  record: number;    // 1-based position of the record in the stream
+  message: string;
+  sample: string;    // Start of the offending record
+}
+
+export interface JsonSeqStats {
+  records: number;     // Non-empty records seen, valid or not
+  malformed: number;
+  errors: JsonSeqError[];  // First few malformed records, for diagnostics
+}
+
+const MAX_REPORTED_ERRORS = 10;
+
+/**
+ * Incrementally parse an `application/json-seq` body, yielding each JSON value
+ * as soon as its record is complete.
+ *
+ * Records are delimited by the RS (0x1E) separator. Streams that never send RS
+ * are treated as newline-delimited JSON, which is what the Bulk Query endpoint
+ * has been observed to return in some environments. Malformed records are
+ * skipped and counted in `stats` rather than aborting the stream.
+ *
+ * @param stream - Response body
+ * @param stats - Populated as the stream is consumed
+ */
+export async function* parseJsonSeq(
+  stream: ReadableStream<Uint8Array>,
+  stats: JsonSeqStats = createJsonSeqStats()
+): AsyncGenerator<unknown, JsonSeqStats> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let delimiter: string | null = null;
+
+  const parseRecord = (text: string): { ok: true; value: unknown } | { ok: false } => {
+    const trimmed = text.trim();
+    if (!trimmed) return { ok: false };
+
+    stats.records++;
+    try {
+      return { ok: true, value: JSON.parse(trimmed) };
+    } catch (error) {
+      stats.malformed++;
+      if (stats.errors.length < MAX_REPORTED_ERRORS) {
+        stats.errors.push({
+          record: stats.records,
+          message: error instanceof Error ? error.message : String(error),
+          sample: trimmed.substring(0, 100)
+        });
+      }
+      return { ok: false };
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      // The first non-whitespace character decides between RS and newline framing
+      if (delimiter === null) {
+        const first = buffer.trimStart();
+        if (first.length > 0) {
+          delimiter = first.startsWith(RS) ? RS : '\n';
+        }
+      }
+
+      if (delimiter !== null) {
+        const parts = buffer.split(delimiter);
+        // The last part may be an incomplete record until the stream ends
+        buffer = done ? '' : parts.pop()!;
+
+        for (const part of parts) {
+          const result = parseRecord(part);
+          if (result.ok) yield result.value;
+        }
+      }
+
+      if (done) break;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  return stats;
+}
+
+export function createJsonSeqStats(): JsonSeqStats {
+  return { records: 0, malformed: 0, errors: [] };
+}
@@ -0,0 +1,143 @@
+import type {
+  Crosstab,
+  CrosstabDataRow,
+  AnalysisConfig,
+  MarketComparison,
+  MarketComparisonRow,
+  MarketCell,
+  HeatmapData
+} from './types';
+import { getRowName, getColumnName } from './types';
+
+// ============================================================================
+// LOCATION HELPERS
+// ============================================================================
+
+/**
+ * Resolve the market a data row belongs to.
+ * Single-market crosstabs may come back without a per-row location, in which
+ * case every row belongs to the only market.
+ */
+export function getRowLocation(row: CrosstabDataRow, crosstab: Crosstab): string | undefined {
+  if (row.location) return row.location.toLowerCase();
+  return crosstab.country_codes.length === 1 ? crosstab.country_codes[0].toLowerCase() : undefined;
+}
+
+/**
+ * Filter the crosstab data down to a single market, optionally for one wave
+ */
+export function getMarketData(crosstab: Crosstab, market: string, wave?: string): CrosstabDataRow[] {
+  const code = market.toLowerCase();
+  return (crosstab.data || []).filter(row =>
+    getRowLocation(row, crosstab) === code && (!wave || !row.wave || row.wave === wave)
+  );
+}
+
+/**
+ * Latest of the crosstab's waves that actually appears in the data
+ */
+export function getLatestWave(crosstab: Crosstab): string | undefined {
+  const wavesInData = new Set((crosstab.data || []).map(row => row.wave).filter(Boolean));
+  return [...crosstab.wave_codes].reverse().find(w => wavesInData.has(w));
+}
+
+// ============================================================================
+// COMPARISON MATRIX
+// ============================================================================
+
+/**
+ * Build a datapoint × market index matrix with the spread across markets.
+ *
+ * When the crosstab spans several waves only the latest wave is compared, so
+ * a market's cell is never an average of different fieldwork periods. Cells
+ * below the sample floor are left empty and excluded from the spread.
+ *
+ * @returns undefined when the data does not contain at least two markets
+ */
+export function buildMarketComparison(crosstab: Crosstab, config: AnalysisConfig): MarketComparison | undefined {
+  const data = crosstab.data || [];
+
+  const presentMarkets = new Set(
+    data.map(row => getRowLocation(row, crosstab)).filter((m): m is string => !!m)
+  );
+  // Keep the crosstab's market order, then anything the API returned on top
+  const markets = [
+    ...crosstab.country_codes.map(c => c.toLowerCase()).filter(c => presentMarkets.has(c)),
+    ...Array.from(presentMarkets).filter(m => !crosstab.country_codes.some(c => c.toLowerCase() === m))
+  ];
+
+  if (markets.length < 2) return undefined;
+
+  const wave = getLatestWave(crosstab);
+  const waveData = wave ? data.filter(row => !row.wave || row.wave === wave) : data;
+
+  const showAudience = crosstab.columns.length > 1;
+  const byKey = new Map<string, MarketComparisonRow>();
+
+  waveData.forEach(row => {
+    const market = getRowLocation(row, crosstab);
+    if (!market) return;
+
+    const key = `${row.datapoint}::${row.audience}`;
+    let entry = byKey.get(key);
+    if (!entry) {
+      const rowName = getRowName(row.datapoint, crosstab.rows);
+      entry = {
+        datapoint: row.datapoint,
+        audience: row.audience,
+        label: showAudience ? `${rowName} - ${getColumnName(row.audience, crosstab.columns)}` : rowName,
+        cells: {},
+        spread: 0
+      };
+      byKey.set(key, entry);
+    }
+
+    if (row.metrics.positive_sample < config.minSample) return;
+
+    const cell: MarketCell = {
+      index: Math.round(row.metrics.audience_index),
+      percentage: Math.round(row.metrics.audience_percentage),
+      sample: row.metrics.positive_sample,
+      significant: row.significance?.significant
+    };
+    entry.cells[market] = cell;
+  });
+
+  const rows: MarketComparisonRow[] = [];
+
+  byKey.forEach(entry => {
+    const filled = markets.filter(m => entry.cells[m]);
+    if (filled.length < 2) return;
+
+    const sorted = [...filled].sort((a, b) => entry.cells[b]!.index - entry.cells[a]!.index);
+    entry.highMarket = sorted[0];
+    entry.lowMarket = sorted[sorted.length - 1];
+    entry.spread = entry.cells[entry.highMarket]!.index - entry.cells[entry.lowMarket]!.index;
+    rows.push(entry);
+  });
+
+  rows.sort((a, b) => b.spread - a.spread);
+
+  return {
+    markets,
+    wave,
+    rows,
+    variations: rows.filter(r => r.spread > config.marketSpread)
+  };
+}
+
+/**
+ * Convert the comparison matrix into heatmap data for the frontend
+ *
+ * @param limit - Maximum number of rows, taken in order of spread
+ */
+export function toMarketHeatmap(comparison: MarketComparison, limit: number = 15): HeatmapData {
+  const rows = comparison.rows.slice(0, limit);
+
+  return {
+    rows: rows.map(r => r.label),
+    columns: comparison.markets.map(m => m.toUpperCase()),
+    values: rows.map(r => comparison.markets.map(m => r.cells[m]?.index ?? null)),
+    referenceValue: 100
+  };
+}
@@ -1,6 +1,7 @@
 import { GWICrosstabClient } from './crosstab-client';
 import { CrosstabAnalyzer } from './crosstab-analyzer';
 import { ResponseFormatter } from './response-formatter';
+import type { AnalysisConfig } from './types';
 
 export class CrosstabAnalysisOrchestrator {
   public client: GWICrosstabClient;
@@ -49,13 +50,13 @@ export class CrosstabAnalysisOrchestrator {
   /**
    * Analyze a specific crosstab
    */
-  async analyzeCrosstab(crosstabId: string): Promise<string> {
+  async analyzeCrosstab(crosstabId: string, config?: AnalysisConfig): Promise<string> {
     try {
       // Fetch crosstab data
       const crosstab = await this.client.getCrosstab(crosstabId);
 
       // Analyze
-      const analysis = this.analyzer.analyze(crosstab);
+      const analysis = this.analyzer.analyze(crosstab, config);
 
       // Format response
       return this.formatter.formatAnalysis(crosstab, analysis);
@@ -0,0 +1,639 @@
+import PDFDocument from 'pdfkit';
+import type { AnalysisReport, VisualizationData } from './types';
+import { ResponseFormatter } from './response-formatter';
+import { TemplateAnalysisEngine } from './analysis-templates';
+import { BRAND_COLORS, SERIES_COLORS, QUADRANT_COLORS, getIndexColor, getHeatmapColor } from './brand';
+import { getReachIndexQuadrant } from './reach-index';
+
+type Doc = PDFKit.PDFDocument;
+
+interface TocEntry {
+  title: string;
+  page: number;   // 0-based buffered page index
+}
+
+const MARGIN = 56;
+const FOOTER_HEIGHT = 36;
+const FONTS = {
+  regular: 'Helvetica',
+  bold: 'Helvetica-Bold',
+  italic: 'Helvetica-Oblique',
+};
+
+const MULTIPLE_COMPARISON_LABELS = {
+  'benjamini-hochberg': 'Benjamini–Hochberg (false discovery rate)',
+  'bonferroni': 'Bonferroni (family-wise error rate)',
+  'none': 'None',
+};
+
+// ============================================================================
+// REPORT BUILDER
+// ============================================================================
+
+/**
+ * Render an analysis as a client-ready PDF: cover, contents, the formatted
+ * analysis and template sections, charts, methodology notes and page footers.
+ *
+ * Runs entirely server-side so reports can also be generated off-request.
+ *
+ * @returns The .pdf file contents
+ */
+export async function buildAnalysisPdf(report: AnalysisReport): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: 'A4',
+    margins: { top: MARGIN, left: MARGIN, right: MARGIN, bottom: MARGIN + FOOTER_HEIGHT },
+    bufferPages: true,   // Needed to write the contents and footers once page numbers are known
+    info: {
+      Title: report.crosstab.name,
+      Subject: 'GWI crosstab analysis',
+      Creator: 'GWI Crosstab Analysis',
+      CreationDate: report.generatedAt,
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const toc: TocEntry[] = [];
+  const formatter = new ResponseFormatter();
+  const templateEngine = new TemplateAnalysisEngine();
+
+  renderCover(doc, report);
+
+  doc.addPage();
+  const tocPage = currentPage(doc);
+
+  doc.addPage();
+  renderMarkdown(doc, formatter.formatAnalysis(report.crosstab, report.analysis), toc);
+
+  Object.entries(report.templates).forEach(([name, template]) => {
+    renderMarkdown(doc, templateEngine.formatTemplateAnalysis(name, template), toc);
+  });
+
+  if (report.visualizations.length > 0) {
+    startSection(doc, 'Charts', toc);
+    report.visualizations.forEach(visualization => renderChart(doc, visualization));
+  }
+
+  startSection(doc, 'Methodology', toc);
+  renderMethodology(doc, report);
+
+  renderContents(doc, tocPage, toc);
+  renderFooters(doc, report);
+
+  doc.end();
+  return finished;
+}
+
+// ============================================================================
+// PAGES
+// ============================================================================
+
+function renderCover(doc: Doc, report: AnalysisReport): void {
+  const { crosstab } = report;
+  const width = contentWidth(doc);
+
+  doc.rect(0, 0, doc.page.width, 14).fill(BRAND_COLORS.blue);
+
+  doc.font(FONTS.bold).fontSize(30).fillColor(BRAND_COLORS.text)
+    .text(toPdfText(crosstab.name), MARGIN, 220, { width });
+
+  doc.moveDown(0.5);
+  doc.font(FONTS.regular).fontSize(13).fillColor(BRAND_COLORS.muted);
+  [
+    `Base: ${crosstab.bases?.map(b => b.name).join(', ') || 'All Internet Users'}`,
+    `Markets: ${crosstab.country_codes.map(c => c.toUpperCase()).join(', ')}`,
+    `Waves: ${crosstab.wave_codes.join(', ')}`,
+  ].forEach(line => doc.text(toPdfText(line), { width }));
+
+  doc.font(FONTS.regular).fontSize(10).fillColor(BRAND_COLORS.gray)
+    .text(
+      `Generated ${formatDate(report.generatedAt)} · Crosstab last updated ${formatDate(new Date(crosstab.updated_at))}`,
+      MARGIN, doc.page.height - MARGIN - FOOTER_HEIGHT - 20, { width }
+    );
+}
+
+function renderContents(doc: Doc, tocPage: number, toc: TocEntry[]): void {
+  doc.switchToPage(tocPage);
+  const width = contentWidth(doc);
+
+  doc.font(FONTS.bold).fontSize(20).fillColor(BRAND_COLORS.text).text('Contents', MARGIN, MARGIN);
+  doc.moveDown(1);
+
+  doc.font(FONTS.regular).fontSize(11);
+  toc.forEach(entry => {
+    const y = doc.y;
+    const pageLabel = String(entry.page + 1);
+    const pageWidth = doc.widthOfString(pageLabel);
+
+    doc.fillColor(BRAND_COLORS.text).text(toPdfText(entry.title), MARGIN, y, { width: width - 40, lineBreak: false });
+    doc.text(pageLabel, MARGIN + width - pageWidth, y, { lineBreak: false });
+
+    // Dotted leader between title and page number
+    const titleEnd = MARGIN + Math.min(doc.widthOfString(toPdfText(entry.title)), width - 40) + 6;
+    doc.moveTo(titleEnd, y + 9).lineTo(MARGIN + width - pageWidth - 6, y + 9)
+      .dash(1, { space: 3 }).strokeColor(BRAND_COLORS.gray).stroke().undash();
+
+    doc.y = y + 20;
+  });
+}
+
+function renderMethodology(doc: Doc, report: AnalysisReport): void {
+  const { config } = report.analysis;
+  const significance = report.analysis.statistics.significance;
+  const bases = report.crosstab.bases?.map(b => b.name).join(', ') || 'All Internet Users';
+
+  const notes: [string, string][] = [
+    ['Base', `${bases}. Index compares each audience with this base: index = audience % / base % × 100, so 100 is the base average.`],
+    ['Sample floor', `Cells with fewer than ${config.minSample} respondents are excluded from findings; n ≥ ${config.highConfidenceSample} is treated as high confidence.`],
+    ['Significance', `Each cell's audience % is tested against the base % with a two-proportion z-test at ${Math.round(config.confidenceLevel * 100)}% confidence. ${significance.significantCells} of ${significance.testedCells} tested cells are significant.`],
+    ['Multiple comparisons', MULTIPLE_COMPARISON_LABELS[config.multipleComparison]],
+    ['Index thresholds', `Over-indexed ≥ ${config.overIndex}, under-indexed ≤ ${config.underIndex}, strong affinity > ${config.strongAffinity}, strong negative < ${config.strongNegative}; ${config.baselineLower}–${config.baselineUpper} is treated as no differentiation.`],
+    ['Reach thresholds', `High reach ≥ ${config.highReach}%; niche opportunities index ≥ ${config.nicheIndex} with reach below ${config.nicheMaxReach}%.`],
+    ['Markets and trends', `Market differences are reported above a ${config.marketSpread}-point index spread; trends need at least a ${config.minTrendChange}-point change between first and last wave.`],
+    ['Preset', config.preset],
+  ];
+
+  notes.forEach(([label, text]) => {
+    ensureSpace(doc, 40);
+    doc.font(FONTS.bold).fontSize(10).fillColor(BRAND_COLORS.text).text(label, MARGIN);
+    doc.font(FONTS.regular).fontSize(10).fillColor(BRAND_COLORS.muted)
+      .text(toPdfText(text), { width: contentWidth(doc) });
+    doc.moveDown(0.6);
+  });
+}
+
+function renderFooters(doc: Doc, report: AnalysisReport): void {
+  const range = doc.bufferedPageRange();
+  const total = range.count;
+
+  // The cover has no footer
+  for (let i = range.start + 1; i < range.start + total; i++) {
+    doc.switchToPage(i);
+
+    // Writing inside the bottom margin would otherwise trigger a page break
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+
+    const y = doc.page.height - MARGIN - FOOTER_HEIGHT / 2;
+    const width = contentWidth(doc);
+    doc.moveTo(MARGIN, y - 6).lineTo(MARGIN + width, y - 6).lineWidth(0.5).strokeColor(BRAND_COLORS.blue).stroke();
+    doc.font(FONTS.regular).fontSize(8).fillColor(BRAND_COLORS.muted);
+    doc.text(toPdfText(`${report.crosstab.name} · ${formatDate(report.generatedAt)}`), MARGIN, y, { width: width - 80, lineBreak: false });
+    doc.text(`Page ${i + 1} of ${total}`, MARGIN, y, { width, align: 'right', lineBreak: false });
+
+    doc.page.margins.bottom = bottomMargin;
+  }
+}
+
+// ============================================================================
+// MARKDOWN
+// ============================================================================
+
+/**
+ * Render the subset of markdown the formatter produces: headings, bold runs,
+ * italic lines, numbered and bulleted lists, horizontal rules and tables.
+ * Level-2 headings become contents entries.
+ */
+function renderMarkdown(doc: Doc, markdown: string, toc: TocEntry[]): void {
+  const lines = markdown.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      doc.moveDown(0.3);
+      continue;
+    }
+
+    if (trimmed.startsWith('|')) {
+      const tableLines: string[] = [];
+      while (i < lines.length && lines[i].trim().startsWith('|')) {
+        tableLines.push(lines[i].trim());
+        i++;
+      }
+      i--;
+      renderTable(doc, tableLines);
+      continue;
+    }
+
+    const heading = trimmed.match(/^(#{1,4})\s+(.*)$/);
+    if (heading) {
+      const level = heading[1].length;
+      // The crosstab name is already on the cover
+      if (level === 1) continue;
+      if (level === 2) {
+        startSection(doc, stripMarkdown(heading[2]), toc);
+      } else {
+        ensureSpace(doc, 40);
+        doc.moveDown(0.4);
+        doc.font(FONTS.bold).fontSize(level === 3 ? 12 : 11).fillColor(BRAND_COLORS.text)
+          .text(toPdfText(stripMarkdown(heading[2])), MARGIN, doc.y, { width: contentWidth(doc) });
+        doc.moveDown(0.2);
+      }
+      continue;
+    }
+
+    if (/^-{3,}$/.test(trimmed)) {
+      doc.moveDown(0.3);
+      doc.moveTo(MARGIN, doc.y).lineTo(MARGIN + contentWidth(doc), doc.y)
+        .lineWidth(0.5).strokeColor(BRAND_COLORS.border).stroke();
+      doc.moveDown(0.5);
+      continue;
+    }
+
+    const indent = line.length - line.trimStart().length;
+    const item = trimmed.match(/^(\d+\.|[-*])\s+(.*)$/);
+    if (item) {
+      const marker = /\d/.test(item[1]) ? item[1] : '•';
+      renderInline(doc, `${marker} ${item[2]}`, 12 + indent * 4);
+    } else {
+      renderInline(doc, trimmed, indent > 0 ? 12 + indent * 4 : 0);
+    }
+  }
+}
+
+/**
+ * Render one line with **bold** runs; a line wrapped in single asterisks is italic
+ */
+function renderInline(doc: Doc, text: string, indent: number): void {
+  const width = contentWidth(doc) - indent;
+  const x = MARGIN + indent;
+  doc.fontSize(10).fillColor(BRAND_COLORS.text);
+
+  const italic = text.match(/^\*([^*].*[^*])\*$/);
+  if (italic) {
+    doc.font(FONTS.italic).fillColor(BRAND_COLORS.muted).text(toPdfText(italic[1]), x, doc.y, { width });
+    return;
+  }
+
+  const segments = text.split(/(\*\*[^*]+\*\*)/).filter(Boolean);
+  segments.forEach((segment, index) => {
+    const bold = segment.startsWith('**') && segment.endsWith('**');
+    doc.font(bold ? FONTS.bold : FONTS.regular);
+    const content = toPdfText(bold ? segment.slice(2, -2) : segment);
+    const continued = index < segments.length - 1;
+    if (index === 0) {
+      doc.text(content, x, doc.y, { width, continued });
+    } else {
+      doc.text(content, { continued });
+    }
+  });
+}
+
+function renderTable(doc: Doc, tableLines: string[]): void {
+  const parseRow = (row: string) => row.replace(/^\||\|$/g, '').split('|').map(cell => cell.trim());
+
+  const header = parseRow(tableLines[0]);
+  const hasAlignRow = tableLines.length > 1 && /^\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?$/.test(tableLines[1]);
+  const alignments = hasAlignRow
+    ? parseRow(tableLines[1]).map(cell => (cell.endsWith(':') ? 'right' : 'left') as 'left' | 'right')
+    : header.map(() => 'left' as const);
+  const rows = tableLines.slice(hasAlignRow ? 2 : 1).map(parseRow);
+
+  const width = contentWidth(doc);
+  const firstWidth = header.length > 1 ? width * 0.4 : width;
+  const otherWidth = header.length > 1 ? (width - firstWidth) / (header.length - 1) : 0;
+  const columnWidths = header.map((_, i) => (i === 0 ? firstWidth : otherWidth));
+  const padding = 4;
+
+  const drawRow = (cells: string[], isHeader: boolean) => {
+    doc.fontSize(8.5);
+    const heights = cells.map((cell, i) => {
+      doc.font(isHeader || /^\*\*.*\*\*$/.test(cell) ? FONTS.bold : FONTS.regular);
+      return doc.heightOfString(toPdfText(stripMarkdown(cell)), { width: columnWidths[i] - padding * 2 });
+    });
+    const rowHeight = Math.max(...heights, 10) + padding * 2;
+
+    if (doc.y + rowHeight > pageBottom(doc)) {
+      doc.addPage();
+      if (!isHeader) drawRow(header, true);
+    }
+
+    const y = doc.y;
+    if (isHeader) {
+      doc.rect(MARGIN, y, width, rowHeight).fill(BRAND_COLORS.empty);
+    }
+
+    let x = MARGIN;
+    cells.forEach((cell, i) => {
+      const bold = isHeader || /^\*\*.*\*\*$/.test(cell);
+      doc.font(bold ? FONTS.bold : FONTS.regular)
+        .fillColor(bold && !isHeader ? BRAND_COLORS.blue : BRAND_COLORS.text)
+        .text(toPdfText(stripMarkdown(cell)), x + padding, y + padding, {
+          width: columnWidths[i] - padding * 2,
+          align: alignments[i] || 'left',
+        });
+      x += columnWidths[i];
+    });
+
+    doc.moveTo(MARGIN, y + rowHeight).lineTo(MARGIN + width, y + rowHeight)
+      .lineWidth(0.5).strokeColor(BRAND_COLORS.border).stroke();
+    doc.x = MARGIN;
+    doc.y = y + rowHeight;
+  };
+
+  ensureSpace(doc, 60);
+  drawRow(header, true);
+  rows.forEach(row => drawRow(row, false));
+  doc.moveDown(0.5);
+}
+
+// ============================================================================
+// CHARTS
+// ============================================================================
+
+function renderChart(doc: Doc, visualization: VisualizationData): void {
+  switch (visualization.type) {
+    case 'bar':
+    case 'horizontalBar':
+      return renderBarChart(doc, visualization);
+    case 'heatmap':
+      return renderHeatmap(doc, visualization);
+    case 'line':
+      return renderLineChart(doc, visualization);
+    case 'scatter':
+      return renderScatterChart(doc, visualization);
+    case 'table':
+    case 'groupedBar':
+      // Only produced for chat responses, never part of a single-crosstab report
+      return;
+  }
+}
+
+function renderChartTitle(doc: Doc, visualization: VisualizationData, bodyHeight: number): void {
+  ensureSpace(doc, bodyHeight + 50);
+  doc.moveDown(0.5);
+  doc.font(FONTS.bold).fontSize(12).fillColor(BRAND_COLORS.text)
+    .text(toPdfText(visualization.title), MARGIN, doc.y, { width: contentWidth(doc) });
+  if (visualization.subtitle) {
+    doc.font(FONTS.regular).fontSize(9).fillColor(BRAND_COLORS.muted)
+      .text(toPdfText(visualization.subtitle), { width: contentWidth(doc) });
+  }
+  doc.moveDown(0.5);
+}
+
+function renderBarChart(doc: Doc, visualization: VisualizationData): void {
+  const points = visualization.data;
+  if (points.length === 0) return;
+
+  const barHeight = 14;
+  const gap = 5;
+  const bodyHeight = points.length * (barHeight + gap);
+  renderChartTitle(doc, visualization, bodyHeight);
+
+  const referenceValue = visualization.config?.referenceValue ?? 100;
+  const labelWidth = 170;
+  const valueWidth = 30;
+  const plotX = MARGIN + labelWidth;
+  const plotWidth = contentWidth(doc) - labelWidth - valueWidth;
+  const maxValue = Math.max(referenceValue, ...points.map(p => p.value)) * 1.05;
+  const top = doc.y;
+
+  points.forEach((point, i) => {
+    const y = top + i * (barHeight + gap);
+    doc.font(FONTS.regular).fontSize(8).fillColor(BRAND_COLORS.text)
+      .text(toPdfText(point.label), MARGIN, y + 3, { width: labelWidth - 8, height: barHeight, ellipsis: true, lineBreak: false });
+
+    const barWidth = Math.max(1, (point.value / maxValue) * plotWidth);
+    doc.rect(plotX, y, barWidth, barHeight).fill(getIndexColor(point.value, referenceValue));
+    doc.fillColor(BRAND_COLORS.muted).text(String(Math.round(point.value)), plotX + barWidth + 4, y + 3, { lineBreak: false });
+  });
+
+  // Baseline marker
+  const referenceX = plotX + (referenceValue / maxValue) * plotWidth;
+  doc.moveTo(referenceX, top - 4).lineTo(referenceX, top + bodyHeight)
+    .dash(3, { space: 3 }).lineWidth(0.75).strokeColor(BRAND_COLORS.gray).stroke().undash();
+
+  doc.x = MARGIN;
+  doc.y = top + bodyHeight + 10;
+}
+
+function renderHeatmap(doc: Doc, visualization: VisualizationData): void {
+  const heatmap = visualization.heatmap;
+  if (!heatmap || heatmap.rows.length === 0) return;
+
+  const cellHeight = 14;
+  const headerHeight = 16;
+  renderChartTitle(doc, visualization, Math.min(heatmap.rows.length * cellHeight + headerHeight, 300));
+
+  const referenceValue = heatmap.referenceValue ?? visualization.config?.referenceValue ?? 100;
+  const labelWidth = 170;
+  const cellWidth = (contentWidth(doc) - labelWidth) / heatmap.columns.length;
+
+  const drawHeader = () => {
+    const y = doc.y;
+    doc.font(FONTS.bold).fontSize(7.5).fillColor(BRAND_COLORS.text);
+    heatmap.columns.forEach((column, i) => {
+      doc.text(toPdfText(column), MARGIN + labelWidth + i * cellWidth, y + 4, { width: cellWidth, align: 'center', lineBreak: false });
+    });
+    doc.y = y + headerHeight;
+  };
+
+  drawHeader();
+  heatmap.rows.forEach((row, rowIndex) => {
+    if (doc.y + cellHeight > pageBottom(doc)) {
+      doc.addPage();
+      drawHeader();
+    }
+
+    const y = doc.y;
+    doc.font(FONTS.regular).fontSize(7.5).fillColor(BRAND_COLORS.text)
+      .text(toPdfText(row), MARGIN, y + 3, { width: labelWidth - 8, ellipsis: true, lineBreak: false });
+
+    heatmap.values[rowIndex].forEach((value, i) => {
+      const x = MARGIN + labelWidth + i * cellWidth;
+      doc.rect(x + 1, y + 1, cellWidth - 2, cellHeight - 2).fill(getHeatmapColor(value, referenceValue));
+      doc.fillColor(BRAND_COLORS.text)
+        .text(value === null ? '–' : String(Math.round(value)), x, y + 3, { width: cellWidth, align: 'center', lineBreak: false });
+    });
+
+    doc.y = y + cellHeight;
+  });
+
+  doc.x = MARGIN;
+  doc.moveDown(0.8);
+}
+
+function renderLineChart(doc: Doc, visualization: VisualizationData): void {
+  const timeSeries = visualization.timeSeries;
+  if (!timeSeries || timeSeries.series.length === 0 || timeSeries.categories.length === 0) return;
+
+  const plotHeight = 180;
+  const legendHeight = timeSeries.series.length * 12 + 8;
+  renderChartTitle(doc, visualization, plotHeight + 30 + legendHeight);
+
+  const referenceValue = visualization.config?.referenceValue ?? 100;
+  const axisWidth = 30;
+  const plotX = MARGIN + axisWidth;
+  const plotWidth = contentWidth(doc) - axisWidth - 10;
+  const top = doc.y;
+
+  const values = timeSeries.series.flatMap(s => s.values).filter((v): v is number => v !== null);
+  const min = Math.min(referenceValue, ...values);
+  const max = Math.max(referenceValue, ...values);
+  const padding = Math.max((max - min) * 0.1, 5);
+  const low = min - padding;
+  const high = max + padding;
+
+  const xFor = (i: number) => timeSeries.categories.length === 1
+    ? plotX + plotWidth / 2
+    : plotX + (i / (timeSeries.categories.length - 1)) * plotWidth;
+  const yFor = (value: number) => top + plotHeight - ((value - low) / (high - low)) * plotHeight;
+
+  // Axes, y-axis labels and the baseline
+  doc.lineWidth(0.5).strokeColor(BRAND_COLORS.border)
+    .moveTo(plotX, top).lineTo(plotX, top + plotHeight).lineTo(plotX + plotWidth, top + plotHeight).stroke();
+  doc.font(FONTS.regular).fontSize(7).fillColor(BRAND_COLORS.muted);
+  [low, (low + high) / 2, high].forEach(value => {
+    doc.text(String(Math.round(value)), MARGIN, yFor(value) - 3, { width: axisWidth - 4, align: 'right', lineBreak: false });
+  });
+  doc.moveTo(plotX, yFor(referenceValue)).lineTo(plotX + plotWidth, yFor(referenceValue))
+    .dash(3, { space: 3 }).strokeColor(BRAND_COLORS.gray).stroke().undash();
+
+  timeSeries.categories.forEach((category, i) => {
+    doc.text(toPdfText(category), xFor(i) - 30, top + plotHeight + 4, { width: 60, align: 'center', lineBreak: false });
+  });
+
+  // One polyline per series; missing waves break the line
+  timeSeries.series.forEach((series, s) => {
+    const color = SERIES_COLORS[s % SERIES_COLORS.length];
+    let drawing = false;
+    series.values.forEach((value, i) => {
+      if (value === null) {
+        drawing = false;
+        return;
+      }
+      if (drawing) doc.lineTo(xFor(i), yFor(value));
+      else doc.moveTo(xFor(i), yFor(value));
+      drawing = true;
+    });
+    doc.lineWidth(1.5).strokeColor(color).stroke();
+
+    series.values.forEach((value, i) => {
+      if (value !== null) doc.circle(xFor(i), yFor(value), 2).fill(color);
+    });
+  });
+
+  // Legend
+  let legendY = top + plotHeight + 20;
+  timeSeries.series.forEach((series, s) => {
+    doc.rect(plotX, legendY + 1, 8, 8).fill(SERIES_COLORS[s % SERIES_COLORS.length]);
+    doc.font(FONTS.regular).fontSize(8).fillColor(BRAND_COLORS.text)
+      .text(toPdfText(series.label), plotX + 12, legendY, { width: plotWidth - 12, lineBreak: false });
+    legendY += 12;
+  });
+
+  doc.x = MARGIN;
+  doc.y = legendY + 10;
+}
+
+function renderScatterChart(doc: Doc, visualization: VisualizationData): void {
+  const scatter = visualization.scatter;
+  if (!scatter || scatter.points.length === 0) return;
+
+  const plotHeight = 220;
+  renderChartTitle(doc, visualization, plotHeight + 40);
+
+  const axisWidth = 30;
+  const plotX = MARGIN + axisWidth;
+  const plotWidth = contentWidth(doc) - axisWidth - 10;
+  const top = doc.y;
+
+  const indexes = scatter.points.map(p => p.index);
+  const low = Math.min(scatter.indexThreshold, ...indexes) - 10;
+  const high = Math.max(scatter.indexThreshold, ...indexes) + 10;
+  const maxSample = Math.max(...scatter.points.map(p => p.sample));
+
+  const xFor = (reach: number) => plotX + (reach / 100) * plotWidth;
+  const yFor = (index: number) => top + plotHeight - ((index - low) / (high - low)) * plotHeight;
+
+  // Axes and labels
+  doc.lineWidth(0.5).strokeColor(BRAND_COLORS.border)
+    .moveTo(plotX, top).lineTo(plotX, top + plotHeight).lineTo(plotX + plotWidth, top + plotHeight).stroke();
+  doc.font(FONTS.regular).fontSize(7).fillColor(BRAND_COLORS.muted);
+  [low, (low + high) / 2, high].forEach(value => {
+    doc.text(String(Math.round(value)), MARGIN, yFor(value) - 3, { width: axisWidth - 4, align: 'right', lineBreak: false });
+  });
+  [0, 25, 50, 75, 100].forEach(reach => {
+    doc.text(`${reach}%`, xFor(reach) - 15, top + plotHeight + 4, { width: 30, align: 'center', lineBreak: false });
+  });
+
+  // Quadrant lines
+  doc.moveTo(xFor(scatter.reachThreshold), top).lineTo(xFor(scatter.reachThreshold), top + plotHeight)
+    .moveTo(plotX, yFor(scatter.indexThreshold)).lineTo(plotX + plotWidth, yFor(scatter.indexThreshold))
+    .dash(3, { space: 3 }).strokeColor(BRAND_COLORS.gray).stroke().undash();
+
+  // Bubbles, area proportional to sample
+  scatter.points.forEach(point => {
+    const radius = 2 + 6 * Math.sqrt(point.sample / maxSample);
+    doc.circle(xFor(point.reach), yFor(point.index), radius)
+      .fillOpacity(0.6).fill(QUADRANT_COLORS[getReachIndexQuadrant(point.reach, point.index, scatter)]);
+  });
+  doc.fillOpacity(1);
+
+  doc.x = MARGIN;
+  doc.y = top + plotHeight + 24;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function startSection(doc: Doc, title: string, toc: TocEntry[]): void {
+  ensureSpace(doc, 120);
+  doc.moveDown(0.8);
+  toc.push({ title, page: currentPage(doc) });
+  doc.outline.addItem(toPdfText(title));
+
+  doc.font(FONTS.bold).fontSize(16).fillColor(BRAND_COLORS.blue)
+    .text(toPdfText(title), MARGIN, doc.y, { width: contentWidth(doc) });
+  doc.moveDown(0.4);
+}
+
+/**
+ * Start a new page unless `height` points still fit on the current one
+ */
+function ensureSpace(doc: Doc, height: number): void {
+  if (doc.y + height > pageBottom(doc)) {
+    doc.addPage();
+  }
+}
+
+function currentPage(doc: Doc): number {
+  const range = doc.bufferedPageRange();
+  return range.start + range.count - 1;
+}
+
+function contentWidth(doc: Doc): number {
+  return doc.page.width - doc.page.margins.left - doc.page.margins.right;
+}
+
+function pageBottom(doc: Doc): number {
+  return doc.page.height - doc.page.margins.bottom;
+}
+
+function stripMarkdown(text: string): string {
+  return text.replace(/\*\*/g, '').replace(/^\*(.*)\*$/, '$1');
+}
+
+/**
+ * The built-in PDF fonts only cover WinAnsi; map the symbols the formatter
+ * uses and drop anything else they cannot draw.
+ */
+function toPdfText(text: string): string {
+  return text
+    .replace(/≥/g, '>=')
+    .replace(/≤/g, '<=')
+    .replace(/→/g, '->')
+    .replace(/[^\x00-\xFF–—‘’“”•…€™]/g, '');
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' });
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { buildAnalysisDeck } from './pptx-export';
+import { CrosstabAnalyzer } from './crosstab-analyzer';
+import { TemplateAnalysisEngine } from './analysis-templates';
+import { generateVisualizations } from '../api/chat/visualizations';
+import { makeCrosstab } from '../test/fixtures';
+import type { AnalysisReport } from './types';
+
+function buildReport(): AnalysisReport {
+  const crosstab = makeCrosstab({ markets: ['gb', 'de'], audiences: ['Gen Z', 'Millennials'] });
+  const analysis = new CrosstabAnalyzer().analyze(crosstab);
+  const templateEngine = new TemplateAnalysisEngine();
+
+  return {
+    crosstab,
+    analysis,
+    templates: Object.fromEntries(
+      templateEngine.selectTemplates(crosstab).map(template => [template.name, templateEngine.applyTemplate(template, crosstab, analysis)])
+    ),
+    visualizations: generateVisualizations(analysis, crosstab),
+    generatedAt: new Date('2024-06-01T00:00:00Z'),
+  };
+}
+
+// Slide parts named in the .pptx archive (each name appears in a local and a central header)
+function slideNames(deck: Buffer): Set<string> {
+  return new Set(deck.toString('latin1').match(/ppt\/slides\/slide\d+\.xml/g));
+}
+
+describe('buildAnalysisDeck', () => {
+  it('writes a .pptx archive', async () => {
+    const deck = await buildAnalysisDeck(buildReport());
+
+    expect(deck.subarray(0, 2).toString('latin1')).toBe('PK');
+    expect(deck.toString('latin1')).toContain('ppt/presentation.xml');
+  });
+
+  it('adds title, insight, chart, key metric and recommendation slides', async () => {
+    const report = buildReport();
+    const deck = await buildAnalysisDeck(report);
+
+    const templatesWithMetrics = Object.values(report.templates).filter(t => t.keyMetrics.length > 0).length;
+    const expected = 2 + report.analysis.insights.length + report.visualizations.length + templatesWithMetrics;
+    expect(slideNames(deck).size).toBe(expected);
+  });
+});
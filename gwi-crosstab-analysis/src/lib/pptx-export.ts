@@ -0,0 +1,320 @@
+import pptxgen from 'pptxgenjs';
+import type { AnalysisReport, Insight, KeyMetric, VisualizationData } from './types';
+import { BRAND_COLORS, QUADRANT_COLORS, getIndexColor, getHeatmapColor } from './brand';
+import { getReachIndexQuadrant, type ReachIndexQuadrant } from './reach-index';
+
+// pptxgenjs ships CommonJS with `exports.default`; Node's ESM loader hands that
+// over as `{ default }`, while bundlers unwrap it
+const PptxGenJS = unwrapDefault<typeof pptxgen>(pptxgen);
+type PptxGenJS = pptxgen;
+
+function unwrapDefault<T>(module: T | { default: T }): T {
+  return isWrappedDefault(module) ? module.default : module;
+}
+
+function isWrappedDefault<T>(module: T | { default: T }): module is { default: T } {
+  return typeof module === 'object' && module !== null && 'default' in module;
+}
+
+// pptxgenjs expects hex colours without the '#'
+const toPptxColor = (color: string) => color.slice(1).toUpperCase();
+
+const COLORS = Object.fromEntries(
+  Object.entries(BRAND_COLORS).map(([name, color]) => [name, toPptxColor(color)])
+) as Record<keyof typeof BRAND_COLORS, string>;
+
+const FONT = 'Arial';
+const SLIDE_WIDTH = 13.33;   // LAYOUT_WIDE, inches
+const CONTENT_WIDTH = SLIDE_WIDTH - 1;
+
+const SIGNIFICANCE_COLORS: Record<Insight['significance'], string> = {
+  high: COLORS.blue,
+  medium: COLORS.lightBlue,
+  low: COLORS.gray,
+};
+
+const QUADRANT_SERIES: { quadrant: ReachIndexQuadrant; name: string; color: string }[] = [
+  { quadrant: 'core', name: 'High reach, high index', color: toPptxColor(QUADRANT_COLORS.core) },
+  { quadrant: 'niche', name: 'Niche', color: toPptxColor(QUADRANT_COLORS.niche) },
+  { quadrant: 'mainstream', name: 'Mainstream', color: toPptxColor(QUADRANT_COLORS.mainstream) },
+  { quadrant: 'low-priority', name: 'Low reach, low index', color: toPptxColor(QUADRANT_COLORS['low-priority']) },
+];
+
+const METRIC_COLORS: Record<NonNullable<KeyMetric['significance']>, string> = {
+  positive: COLORS.green,
+  negative: COLORS.red,
+  neutral: COLORS.muted,
+};
+
+// ============================================================================
+// DECK BUILDER
+// ============================================================================
+
+/**
+ * Render an analysis as a PowerPoint deck:
+ * title, one slide per insight, charts, template key metrics, recommendations.
+ *
+ * @returns The .pptx file contents
+ */
+export async function buildAnalysisDeck(report: AnalysisReport): Promise<Buffer> {
+  const pptx = new PptxGenJS();
+  pptx.layout = 'LAYOUT_WIDE';
+  pptx.title = report.crosstab.name;
+  pptx.subject = 'GWI crosstab analysis';
+
+  addTitleSlide(pptx, report);
+  report.analysis.insights.forEach(insight => addInsightSlide(pptx, insight));
+  report.visualizations.forEach(visualization => addChartSlide(pptx, visualization));
+  Object.entries(report.templates).forEach(([name, template]) => {
+    if (template.keyMetrics.length > 0) {
+      addKeyMetricsSlide(pptx, name, template.summary, template.keyMetrics);
+    }
+  });
+  addRecommendationsSlide(pptx, report);
+
+  const output = await pptx.write({ outputType: 'nodebuffer' });
+  return output as Buffer;
+}
+
+// ============================================================================
+// SLIDES
+// ============================================================================
+
+function addTitleSlide(pptx: PptxGenJS, report: AnalysisReport): void {
+  const { crosstab } = report;
+  const slide = pptx.addSlide();
+
+  slide.addShape(pptx.ShapeType.rect, { x: 0, y: 0, w: SLIDE_WIDTH, h: 0.25, fill: { color: COLORS.blue } });
+  slide.addText(crosstab.name, {
+    x: 0.5, y: 2.2, w: CONTENT_WIDTH, h: 1.2,
+    fontFace: FONT, fontSize: 36, bold: true, color: COLORS.text,
+  });
+
+  const details = [
+    crosstab.bases && crosstab.bases.length > 0 ? `Audience: ${crosstab.bases.map(b => b.name).join(', ')}` : null,
+    crosstab.country_codes.length > 0 ? `Markets: ${crosstab.country_codes.join(', ')}` : null,
+    crosstab.wave_codes.length > 0 ? `Waves: ${crosstab.wave_codes.join(', ')}` : null,
+    `${crosstab.rows.length} rows × ${crosstab.columns.length} columns`,
+  ].filter((line): line is string => line !== null);
+
+  slide.addText(details.join('\n'), {
+    x: 0.5, y: 3.5, w: CONTENT_WIDTH, h: 1.6,
+    fontFace: FONT, fontSize: 16, color: COLORS.muted, valign: 'top',
+  });
+
+  slide.addText(
+    `Generated ${report.generatedAt.toLocaleDateString('en-GB')} · ${report.analysis.config.preset} thresholds · Crosstab last updated ${new Date(crosstab.updated_at).toLocaleDateString('en-GB')}`,
+    { x: 0.5, y: 6.6, w: CONTENT_WIDTH, h: 0.4, fontFace: FONT, fontSize: 11, color: COLORS.gray }
+  );
+}
+
+function addInsightSlide(pptx: PptxGenJS, insight: Insight): void {
+  const slide = pptx.addSlide();
+  addSlideTitle(slide, insight.title);
+
+  slide.addText(`${insight.significance.toUpperCase()} SIGNIFICANCE`, {
+    x: 0.5, y: 1.25, w: 3, h: 0.35,
+    fontFace: FONT, fontSize: 11, bold: true, color: COLORS.white,
+    fill: { color: SIGNIFICANCE_COLORS[insight.significance] }, align: 'center',
+  });
+
+  slide.addText(insight.description, {
+    x: 0.5, y: 1.9, w: CONTENT_WIDTH, h: 4.8,
+    fontFace: FONT, fontSize: 20, color: COLORS.text, valign: 'top',
+  });
+}
+
+function addChartSlide(pptx: PptxGenJS, visualization: VisualizationData): void {
+  const slide = pptx.addSlide();
+  addSlideTitle(slide, visualization.title, visualization.subtitle);
+
+  const area = { x: 0.5, y: 1.6, w: CONTENT_WIDTH, h: 5.5 };
+
+  switch (visualization.type) {
+    case 'bar':
+    case 'horizontalBar': {
+      // PowerPoint draws horizontal bars bottom-up, so reverse to keep the first item on top
+      const points = visualization.type === 'horizontalBar' ? [...visualization.data].reverse() : visualization.data;
+      const referenceValue = visualization.config?.referenceValue ?? 100;
+      slide.addChart(pptx.ChartType.bar, [{
+        name: visualization.config?.xAxisLabel || 'Index',
+        labels: points.map(p => p.label),
+        values: points.map(p => p.value),
+      }], {
+        ...area,
+        barDir: visualization.type === 'horizontalBar' ? 'bar' : 'col',
+        chartColors: points.map(p => toPptxColor(getIndexColor(p.value, referenceValue))),
+        showValue: true,
+        dataLabelFontSize: 10,
+        catAxisLabelFontSize: 11,
+        valAxisLabelFontSize: 10,
+        valAxisTitle: visualization.config?.xAxisLabel,
+        showValAxisTitle: !!visualization.config?.xAxisLabel,
+      });
+      break;
+    }
+
+    case 'line': {
+      const timeSeries = visualization.timeSeries;
+      if (!timeSeries) break;
+      slide.addChart(pptx.ChartType.line, timeSeries.series.map(series => ({
+        name: series.label,
+        labels: timeSeries.categories,
+        // Missing waves are written as blank cells and drawn as gaps
+        values: series.values as number[],
+      })), {
+        ...area,
+        displayBlanksAs: 'gap',
+        lineDataSymbol: 'circle',
+        lineDataSymbolSize: 6,
+        showLegend: true,
+        legendPos: 'b',
+        catAxisLabelFontSize: 11,
+        valAxisLabelFontSize: 10,
+        valAxisTitle: visualization.config?.yAxisLabel,
+        showValAxisTitle: !!visualization.config?.yAxisLabel,
+      });
+      break;
+    }
+
+    case 'heatmap': {
+      const heatmap = visualization.heatmap;
+      if (!heatmap) break;
+      const referenceValue = heatmap.referenceValue ?? visualization.config?.referenceValue ?? 100;
+      const header: pptxgen.TableCell[] = [
+        { text: visualization.config?.yAxisLabel || '', options: { bold: true, color: COLORS.muted } },
+        ...heatmap.columns.map(column => ({ text: column, options: { bold: true, align: 'center' as const } })),
+      ];
+      const body: pptxgen.TableCell[][] = heatmap.rows.map((row, rowIndex) => [
+        { text: row },
+        ...heatmap.values[rowIndex].map(value => ({
+          text: value === null ? '–' : String(Math.round(value)),
+          options: { align: 'center' as const, fill: { color: toPptxColor(getHeatmapColor(value, referenceValue)) } },
+        })),
+      ]);
+      slide.addTable([header, ...body], {
+        ...area,
+        h: undefined,
+        fontFace: FONT,
+        fontSize: 9,
+        color: COLORS.text,
+        colW: [3.5, ...heatmap.columns.map(() => (CONTENT_WIDTH - 3.5) / heatmap.columns.length)],
+        border: { type: 'solid', pt: 1, color: COLORS.white },
+        autoPage: true,
+      });
+      break;
+    }
+
+    case 'scatter': {
+      const scatter = visualization.scatter;
+      if (!scatter) break;
+      // One series per quadrant so each gets its own colour; points outside it are blank
+      const quadrants = QUADRANT_SERIES.filter(q => scatter.points.some(p => getReachIndexQuadrant(p.reach, p.index, scatter) === q.quadrant));
+      slide.addChart(pptx.ChartType.scatter, [
+        { name: 'Reach', values: scatter.points.map(p => p.reach) },
+        ...quadrants.map(q => ({
+          name: q.name,
+          values: scatter.points.map(p => (getReachIndexQuadrant(p.reach, p.index, scatter) === q.quadrant ? p.index : null)) as number[],
+        })),
+      ], {
+        ...area,
+        chartColors: quadrants.map(q => q.color),
+        lineSize: 0,
+        lineDataSymbol: 'circle',
+        lineDataSymbolSize: 8,
+        showLegend: true,
+        legendPos: 'b',
+        valAxisTitle: visualization.config?.xAxisLabel,
+        showValAxisTitle: !!visualization.config?.xAxisLabel,
+        catAxisTitle: visualization.config?.yAxisLabel,
+        showCatAxisTitle: !!visualization.config?.yAxisLabel,
+        valAxisLabelFontSize: 10,
+        catAxisLabelFontSize: 10,
+      });
+      break;
+    }
+
+    case 'table':
+    case 'groupedBar':
+      // Only produced for chat responses, never part of a single-crosstab report
+      break;
+  }
+}
+
+function addKeyMetricsSlide(pptx: PptxGenJS, templateName: string, summary: string, metrics: KeyMetric[]): void {
+  const slide = pptx.addSlide();
+  addSlideTitle(slide, templateName, summary);
+
+  const rows: pptxgen.TableCell[][] = [
+    [
+      { text: 'Metric', options: { bold: true } },
+      { text: 'Value', options: { bold: true, align: 'right' } },
+      { text: 'Context', options: { bold: true } },
+    ],
+    ...metrics.map(metric => [
+      { text: metric.label },
+      {
+        text: String(metric.value),
+        options: {
+          bold: true,
+          align: 'right' as const,
+          color: METRIC_COLORS[metric.significance || 'neutral'],
+        },
+      },
+      { text: metric.context || '', options: { color: COLORS.muted } },
+    ]),
+  ];
+
+  slide.addTable(rows, {
+    x: 0.5, y: 1.6, w: CONTENT_WIDTH,
+    fontFace: FONT,
+    fontSize: 12,
+    color: COLORS.text,
+    colW: [4, 2, CONTENT_WIDTH - 6],
+    border: { type: 'solid', pt: 0.5, color: COLORS.border },
+    autoPage: true,
+  });
+}
+
+function addRecommendationsSlide(pptx: PptxGenJS, report: AnalysisReport): void {
+  const slide = pptx.addSlide();
+  addSlideTitle(slide, 'Recommendations');
+
+  const bullets: pptxgen.TextProps[] = report.analysis.recommendations.slice(0, 6).map(rec => ({
+    text: `${rec.title}${rec.market ? ` (${rec.market})` : ''}: ${rec.description}`,
+    options: { bullet: true, breakLine: true },
+  }));
+
+  // Fill remaining space with template recommendations not already covered
+  Object.values(report.templates)
+    .flatMap(template => template.recommendations)
+    .slice(0, Math.max(0, 8 - bullets.length))
+    .forEach(text => bullets.push({ text, options: { bullet: true, breakLine: true } }));
+
+  if (bullets.length === 0) {
+    bullets.push({ text: 'No recommendations met the configured thresholds for this crosstab.' });
+  }
+
+  slide.addText(bullets, {
+    x: 0.5, y: 1.4, w: CONTENT_WIDTH, h: 5.6,
+    fontFace: FONT, fontSize: 16, color: COLORS.text, valign: 'top', paraSpaceAfter: 8,
+  });
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function addSlideTitle(slide: pptxgen.Slide, title: string, subtitle?: string): void {
+  slide.addText(title, {
+    x: 0.5, y: 0.35, w: CONTENT_WIDTH, h: 0.7,
+    fontFace: FONT, fontSize: 26, bold: true, color: COLORS.text,
+  });
+
+  if (subtitle) {
+    slide.addText(subtitle, {
+      x: 0.5, y: 1.0, w: CONTENT_WIDTH, h: 0.5,
+      fontFace: FONT, fontSize: 13, color: COLORS.muted,
+    });
+  }
+}
@@ -0,0 +1,74 @@
+import type { Crosstab, AnalysisConfig, ScatterData, ScatterPoint } from './types';
+import { getRowName, getColumnName } from './types';
+import { getRowLocation, getLatestWave } from './market-comparison';
+
+export type ReachIndexQuadrant = 'core' | 'niche' | 'mainstream' | 'low-priority';
+
+// ============================================================================
+// REACH VS. INDEX
+// ============================================================================
+
+/**
+ * Build the reach (audience %) vs. index scatter.
+ *
+ * Quadrant lines sit at the high-reach and over-index thresholds of the
+ * analysis config, so presets move them. Only the latest wave is plotted and
+ * cells below the sample floor are left out. When there are more cells than
+ * `limit`, the largest samples are kept.
+ */
+export function buildReachIndexScatter(crosstab: Crosstab, config: AnalysisConfig, limit: number = 150): ScatterData {
+  const wave = getLatestWave(crosstab);
+  const multiAudience = crosstab.columns.length > 1;
+  const multiMarket = crosstab.country_codes.length > 1;
+
+  const points: ScatterPoint[] = (crosstab.data || [])
+    .filter(row => (!wave || !row.wave || row.wave === wave) && row.metrics.positive_sample >= config.minSample)
+    .sort((a, b) => b.metrics.positive_sample - a.metrics.positive_sample)
+    .slice(0, limit)
+    .map(row => {
+      const rowName = getRowName(row.datapoint, crosstab.rows);
+      const audienceName = getColumnName(row.audience, crosstab.columns);
+      const location = getRowLocation(row, crosstab);
+
+      const label = [
+        rowName,
+        multiAudience ? audienceName : undefined,
+        multiMarket ? location?.toUpperCase() : undefined,
+      ].filter(Boolean).join(' - ');
+
+      const scope = [
+        multiAudience ? `among ${audienceName}` : undefined,
+        multiMarket && location ? `in ${location.toUpperCase()}` : undefined,
+      ].filter(Boolean).join(' ');
+
+      return {
+        label,
+        reach: Math.round(row.metrics.audience_percentage * 10) / 10,
+        index: Math.round(row.metrics.audience_index),
+        sample: row.metrics.positive_sample,
+        datapoint: row.datapoint,
+        audience: row.audience,
+        location,
+        significant: row.significance?.significant,
+        prompt: `Tell me more about "${rowName}"${scope ? ` ${scope}` : ''} from the ${crosstab.name} crosstab (reach ${Math.round(row.metrics.audience_percentage)}%, index ${Math.round(row.metrics.audience_index)})`,
+      };
+    });
+
+  return {
+    points,
+    reachThreshold: config.highReach,
+    indexThreshold: config.overIndex,
+  };
+}
+
+/**
+ * Which quadrant of the scatter a point falls in
+ */
+export function getReachIndexQuadrant(reach: number, index: number, scatter: Pick<ScatterData, 'reachThreshold' | 'indexThreshold'>): ReachIndexQuadrant {
+  const highReach = reach >= scatter.reachThreshold;
+  const highIndex = index >= scatter.indexThreshold;
+  if (highReach && highIndex) return 'core';
+  if (highIndex) return 'niche';
+  if (highReach) return 'mainstream';
+  return 'low-priority';
+}
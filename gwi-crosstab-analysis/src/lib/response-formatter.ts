@@ -1,15 +1,18 @@
-import type { Crosstab, Analysis, IndexedItem, Insight, Recommendation } from './types';
+import type { Crosstab, Analysis, IndexedItem, Insight, Recommendation, AnalysisConfig, MarketComparison, TrendAnalysis, CrosstabComparison, AudienceOverlap, DataQueryResult } from './types';
 import { findMatchingRow } from './types';
+import { getMarketData } from './market-comparison';
+import { buildExpressionLabeler, describeDefinition } from './audience-expression';
+import { describeDataQuery } from './data-query';
 
 export class ResponseFormatter {
-  formatAnalysis(crosstab: Crosstab, analysis: Analysis): string {
+  formatAnalysis(crosstab: Crosstab, analysis: Analysis, config: AnalysisConfig = analysis.config): string {
     let output = '';
 
     // Header
     output += `# Analysis: ${crosstab.name}\n\n`;
 
     // Metadata
-    output += this.formatMetadata(crosstab, analysis);
+    output += this.formatMetadata(crosstab, analysis, config);
 
     // Key Findings
     output += `## Key Findings\n\n`;
@@ -22,7 +25,19 @@ export class ResponseFormatter {
     // Market Breakdown (if applicable)
     if (crosstab.country_codes.length > 1) {
       output += `\n## Market Breakdown\n\n`;
-      output += this.formatMarketBreakdown(crosstab, analysis);
+      output += this.formatMarketBreakdown(crosstab, analysis, config);
+    }
+
+    // Trends (if time series data)
+    if (analysis.trends) {
+      output += `\n## Trends Across Waves\n\n`;
+      output += this.formatTrends(analysis.trends);
+    }
+
+    // Audience differences (if several column audiences)
+    if (analysis.audienceOverlap) {
+      output += `\n## What Makes Each Audience Unique\n\n`;
+      output += this.formatAudienceOverlap(analysis.audienceOverlap);
     }
 
     // Recommendations
@@ -32,16 +47,39 @@ export class ResponseFormatter {
     return output;
   }
 
-  private formatMetadata(crosstab: Crosstab, analysis: Analysis): string {
+  private formatMetadata(crosstab: Crosstab, analysis: Analysis, config: AnalysisConfig): string {
     const totalSample = crosstab.data!.reduce((sum, d) =>
       sum + d.metrics.positive_sample, 0
     );
 
+    const { significance } = analysis.statistics;
+    const correctionLabels = {
+      'benjamini-hochberg': 'Benjamini–Hochberg',
+      'bonferroni': 'Bonferroni',
+      'none': 'no',
+    };
+    const significanceLine = significance.correction === 'none'
+      ? `${significance.significantCells} of ${significance.testedCells} tested (${Math.round(significance.confidenceLevel * 100)}% confidence, uncorrected)`
+      : `${significance.significantCells} of ${significance.testedCells} tested survive ${correctionLabels[significance.correction]} correction (${significance.rawSignificantCells} before correction, ${Math.round(significance.confidenceLevel * 100)}% confidence)`;
+
+    // Spell out what the base and audiences select when their names alone don't
+    const labeler = buildExpressionLabeler(crosstab);
+    const base = crosstab.bases?.[0];
+    const baseDefinition = base && describeDefinition(base, labeler);
+    const audienceLines = crosstab.columns
+      .map(column => {
+        const definition = describeDefinition(column, labeler);
+        return definition ? `**Audience "${column.name}"**: ${definition}\n` : '';
+      })
+      .join('');
+
     return `**Time Period**: ${crosstab.wave_codes.join(', ')}
 **Markets**: ${crosstab.country_codes.map(c => c.toUpperCase()).join(', ')}
-**Base**: ${crosstab.bases?.[0]?.name || 'All Internet Users'}
-**Total Sample**: ${totalSample.toLocaleString()} respondents
+**Base**: ${base?.name || 'All Internet Users'}${baseDefinition ? ` (${baseDefinition})` : ''}
+${audienceLines}**Total Sample**: ${totalSample.toLocaleString()} respondents
 **Data Points**: ${analysis.structure.dataPoints.length}
+**Significant Cells**: ${significanceLine}
+**Methodology**: ${config.preset} (sample floor n=${config.minSample}, over-index ≥${config.overIndex}, under-index ≤${config.underIndex})
 
 ---
 
@@ -71,19 +109,46 @@ export class ResponseFormatter {
     ).join('\n');
   }
 
-  private formatMarketBreakdown(crosstab: Crosstab, _analysis: Analysis): string {
-    const markets = crosstab.country_codes;
-    let output = '';
+  /**
+   * Render a market comparison matrix as a markdown table (index per market plus spread)
+   *
+   * @param limit - Maximum number of rows, taken in order of spread
+   */
+  formatMarketComparison(comparison: MarketComparison, limit: number = 10): string {
+    if (comparison.rows.length === 0) {
+      return '*Insufficient sample size to compare markets.*\n';
+    }
 
-    markets.forEach(market => {
-      const marketData = crosstab.data!.filter(d =>
-        d.segment === market || (!d.segment && markets.length === 1)
-      );
+    const markets = comparison.markets;
+    let output = `| Behavior | ${markets.map(m => m.toUpperCase()).join(' | ')} | Spread |\n`;
+    output += `|---|${markets.map(() => '---:').join('|')}|---:|\n`;
 
-      if (marketData.length === 0) return;
+    comparison.rows.slice(0, limit).forEach(row => {
+      const cells = markets.map(m => {
+        const cell = row.cells[m];
+        if (!cell) return '–';
+        return m === row.highMarket ? `**${cell.index}**` : `${cell.index}`;
+      });
+      output += `| ${row.label} | ${cells.join(' | ')} | ${row.spread} |\n`;
+    });
 
-      const topForMarket = marketData
-        .filter(d => d.metrics.positive_sample >= 50)
+    if (comparison.wave) {
+      output += `\n*Index values for ${comparison.wave}. Bold marks the highest-indexing market; – = sample below the floor.*\n`;
+    }
+
+    return output;
+  }
+
+  private formatMarketBreakdown(crosstab: Crosstab, analysis: Analysis, config: AnalysisConfig): string {
+    if (!analysis.markets) {
+      return '*Market-level data was not returned for this crosstab.*\n';
+    }
+
+    let output = this.formatMarketComparison(analysis.markets) + '\n';
+
+    analysis.markets.markets.forEach(market => {
+      const topForMarket = getMarketData(crosstab, market, analysis.markets!.wave)
+        .filter(d => d.metrics.positive_sample >= config.minSample)
         .sort((a, b) => b.metrics.audience_index - a.metrics.audience_index)
         .slice(0, 5);
 
@@ -106,6 +171,187 @@ export class ResponseFormatter {
     return output;
   }
 
+  /**
+   * Render significant trend series with slope, change and shape
+   */
+  formatTrends(trends: TrendAnalysis, limit: number = 10): string {
+    if (trends.significant.length === 0) {
+      return `*No significant changes across ${trends.waves.length} waves.*\n`;
+    }
+
+    const patternLabels = {
+      steady: 'Steady',
+      accelerating: 'Accelerating',
+      decelerating: 'Decelerating',
+      reversal: 'Reversal',
+    };
+
+    let output = `| Behavior | ${trends.waves.join(' | ')} | Slope/wave | Change | Pattern |\n`;
+    output += `|---|${trends.waves.map(() => '---:').join('|')}|---:|---:|---|\n`;
+
+    trends.significant.slice(0, limit).forEach(t => {
+      const values = t.points.map(p => p.index ?? '–');
+      const sign = (n: number) => (n > 0 ? '+' : '');
+      const pattern = t.pattern === 'reversal' && t.reversalWave
+        ? `Reversal (${t.reversalWave})`
+        : patternLabels[t.pattern];
+      output += `| ${t.label} | ${values.join(' | ')} | ${sign(t.slope)}${t.slope.toFixed(1)} | ${sign(t.change)}${Math.round(t.change)} | ${pattern} |\n`;
+    });
+
+    if (trends.significant.length > limit) {
+      output += `\n*Showing ${limit} of ${trends.significant.length} significant trends.*\n`;
+    }
+
+    return output;
+  }
+
+  /**
+   * Render estimated audience sizes, how alike the audiences are, and what
+   * sets each one apart from the others
+   *
+   * @param limit - Maximum number of distinctive datapoints per audience
+   */
+  formatAudienceOverlap(overlap: AudienceOverlap, limit: number = 5): string {
+    const labels = new Map(overlap.profiles.map(p => [p.audience, p.label]));
+
+    let output = `| Audience | Est. Size | Share | vs. Largest |\n`;
+    output += `|---|---:|---:|---:|\n`;
+    overlap.profiles.forEach(p => {
+      output += `| ${p.label} | ${p.size.toLocaleString()} | ${p.share}% | ${p.relativeSize} |\n`;
+    });
+    output += `\n*Sizes are estimated from positive size ÷ audience %${overlap.wave ? ` for ${overlap.wave}` : ''}.*\n\n`;
+
+    if (overlap.similarities.length > 0) {
+      const [closest] = overlap.similarities;
+      const furthest = overlap.similarities[overlap.similarities.length - 1];
+      output += `**Most alike**: ${labels.get(closest.audiences[0])} and ${labels.get(closest.audiences[1])} (profile correlation ${closest.correlation.toFixed(2)} across ${closest.datapoints} datapoints)\n`;
+      if (overlap.similarities.length > 1) {
+        output += `**Least alike**: ${labels.get(furthest.audiences[0])} and ${labels.get(furthest.audiences[1])} (${furthest.correlation.toFixed(2)})\n`;
+      }
+      output += `\n*Highly correlated audiences likely overlap; the crosstab cannot measure duplication directly.*\n\n`;
+    }
+
+    overlap.profiles.forEach(p => {
+      output += `### What makes ${p.label} unique\n\n`;
+
+      if (p.distinctive.length === 0 && p.lessLikely.length === 0) {
+        output += '*No datapoints differ significantly from the other audiences.*\n\n';
+        return;
+      }
+
+      p.distinctive.slice(0, limit).forEach(d => {
+        output += `- **${d.label}**: ${d.percentage}% vs. ${d.othersPercentage}% of the other audiences (index ${d.relativeIndex})\n`;
+      });
+      if (p.lessLikely.length > 0) {
+        output += `- *Less likely*: ${p.lessLikely.slice(0, 3).map(d => `${d.label} (${d.relativeIndex})`).join(', ')}\n`;
+      }
+      output += '\n';
+    });
+
+    output += `*Index = audience % ÷ the other audiences' pooled % × 100; significant differences only.*\n`;
+
+    return output;
+  }
+
+  /**
+   * Render a comparison of two or more crosstabs: what was compared, the
+   * matched rows with index and reach deltas, and rows unique to each crosstab
+   *
+   * @param limit - Maximum number of matched rows, taken in order of difference
+   */
+  formatCrosstabComparison(comparison: CrosstabComparison, limit: number = 15): string {
+    const [reference, ...others] = comparison.crosstabs;
+    const sign = (n: number) => (n > 0 ? '+' : '');
+
+    let output = `## Crosstab Comparison\n\n`;
+    comparison.crosstabs.forEach((c, i) => {
+      const scope = [c.audience, c.location?.toUpperCase(), c.wave].filter(Boolean).join(', ');
+      output += `${i + 1}. **${c.name}**${i === 0 ? ' (reference)' : ''} - ${scope}\n`;
+    });
+    output += '\n';
+
+    if (!comparison.wave && comparison.crosstabs.some(c => c.wave)) {
+      output += `*These crosstabs share no wave, so each is read from its own latest wave and differences may reflect the change in fieldwork period.*\n\n`;
+    }
+
+    if (comparison.rows.length === 0) {
+      output += '*No datapoints are shared by these crosstabs with enough sample to compare.*\n';
+    } else {
+      output += `**${comparison.rows.length}** shared datapoints; **${comparison.significantDifferences}** differ significantly in reach.\n\n`;
+      output += `### Biggest Differences\n\n`;
+
+      const deltaHeaders = others.map(c => `Δ Index ${c.name} | Δ Reach ${c.name}`);
+      output += `| Behavior | ${comparison.crosstabs.map(c => `${c.name} Index`).join(' | ')} | ${deltaHeaders.join(' | ')} |\n`;
+      output += `|---|${comparison.crosstabs.map(() => '---:').join('|')}|${others.map(() => '---:|---:').join('|')}|\n`;
+
+      comparison.rows.slice(0, limit).forEach(row => {
+        const deltas = row.deltas.map(d => {
+          const index = `${sign(d.indexDelta)}${d.indexDelta}`;
+          return `${d.significant ? `**${index}**` : index} | ${sign(d.reachDelta)}${d.reachDelta.toFixed(1)}pt`;
+        });
+        output += `| ${row.label} | ${row.cells.map(c => c.index).join(' | ')} | ${deltas.join(' | ')} |\n`;
+      });
+
+      output += `\n*Deltas are against ${reference.name}. Bold marks a significant difference in audience %.*\n`;
+    }
+
+    const unique = comparison.unique.filter(u => u.labels.length > 0);
+    if (unique.length > 0) {
+      output += `\n### Only In One Crosstab\n\n`;
+      unique.forEach(u => {
+        const name = comparison.crosstabs.find(c => c.id === u.crosstabId)?.name ?? u.crosstabId;
+        output += `- **${name}**: ${u.labels.slice(0, 8).join(', ')}${u.labels.length > 8 ? ` and ${u.labels.length - 8} more` : ''}\n`;
+      });
+    }
+
+    return output;
+  }
+
+  /**
+   * Render a data query result: the filters applied, how many cells matched
+   * and a table of the first matches. Markets, waves and audiences get a
+   * column only when the matches span more than one.
+   *
+   * @param limit - Maximum number of rows in the table
+   */
+  formatDataQueryResult(crosstab: Crosstab, result: DataQueryResult, limit: number = 20): string {
+    let output = `**Filters:** ${describeDataQuery(result.query, crosstab)}\n\n`;
+
+    if (result.query.slice?.unmatched.length) {
+      output += `*Not in this crosstab: ${result.query.slice.unmatched.join(', ')}*\n\n`;
+    }
+
+    if (result.matched === 0) {
+      output += `No cells match these filters (out of ${result.total} with enough sample). Try loosening a threshold or clearing the filters.\n`;
+      return output;
+    }
+
+    output += `**${result.matched}** of ${result.total} cells match`;
+    output += result.rows.length < result.matched ? `, showing the first ${result.rows.length}.\n\n` : '.\n\n';
+
+    const rows = result.rows.slice(0, limit);
+    const spans = (values: (string | undefined)[]) => new Set(values).size > 1;
+    const columns = [
+      { header: 'Audience', show: spans(result.rows.map(r => r.audience)), value: (r: typeof rows[number]) => r.audienceLabel },
+      { header: 'Market', show: spans(result.rows.map(r => r.location)), value: (r: typeof rows[number]) => r.location?.toUpperCase() ?? '–' },
+      { header: 'Wave', show: spans(result.rows.map(r => r.wave)), value: (r: typeof rows[number]) => r.wave ?? '–' },
+    ].filter(c => c.show);
+
+    output += `| # | Behavior | ${columns.map(c => `${c.header} | `).join('')}Index | Reach | Sample |\n`;
+    output += `|---:|---|${columns.map(() => '---|').join('')}---:|---:|---:|\n`;
+    rows.forEach((row, i) => {
+      const index = Math.round(row.metrics.audience_index);
+      output += `| ${i + 1} | ${row.label} | ${columns.map(c => `${c.value(row)} | `).join('')}${row.significant ? `**${index}**` : index} | ${row.metrics.audience_percentage.toFixed(1)}% | ${row.metrics.positive_sample} |\n`;
+    });
+
+    if (result.rows.length > rows.length) {
+      output += `\n*${result.rows.length - rows.length} more in the table below.*\n`;
+    }
+    output += `\n*Bold marks a significant index. Cells below the sample floor (n < ${result.minSample}) are left out.*\n`;
+
+    return output;
+  }
+
   private formatRecommendations(recommendations: Recommendation[]): string {
     if (recommendations.length === 0) {
       return '*No specific recommendations generated.*\n';
@@ -0,0 +1,273 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { ChatMessage, ChatSession, ChatSessionSummary } from './types';
+
+// Oldest messages are dropped beyond this, so long conversations stay bounded
+const MAX_SESSION_MESSAGES = 200;
+const DEFAULT_TITLE = 'New conversation';
+
+// ============================================================================
+// STORE INTERFACE
+// ============================================================================
+
+/**
+ * Server-owned chat sessions, keyed by session ID.
+ * Each session belongs to one owner and carries its own Spark chat_id and
+ * selected crosstab, so concurrent users of one server never share
+ * conversation state. `get` returns a copy; changes to a stored session go
+ * through `update`, which applies them one at a time per session so
+ * overlapping requests never drop each other's messages.
+ */
+export interface SessionStore {
+  list(ownerId: string): Promise<ChatSessionSummary[]>;
+  get(sessionId: string): Promise<ChatSession | null>;
+  save(session: ChatSession): Promise<void>;
+  update(sessionId: string, change: (session: ChatSession) => void): Promise<ChatSession | null>;
+  delete(sessionId: string): Promise<boolean>;
+}
+
+// ============================================================================
+// SESSION HELPERS
+// ============================================================================
+
+export function createSession(ownerId: string, title?: string, crosstabId: string | null = null): ChatSession {
+  const now = new Date();
+  return {
+    id: randomUUID(),
+    ownerId,
+    title: title?.trim() || DEFAULT_TITLE,
+    messages: [],
+    crosstabId,
+    sparkChatId: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Append messages to a session, naming it after the first user message
+ */
+export function appendMessages(session: ChatSession, ...messages: ChatMessage[]): void {
+  session.messages.push(...messages);
+  if (session.messages.length > MAX_SESSION_MESSAGES) {
+    session.messages.splice(0, session.messages.length - MAX_SESSION_MESSAGES);
+  }
+
+  if (session.title === DEFAULT_TITLE) {
+    const firstUserMessage = messages.find(m => m.role === 'user');
+    if (firstUserMessage) {
+      session.title = truncateTitle(firstUserMessage.content);
+    }
+  }
+
+  session.updatedAt = new Date();
+}
+
+export function toSessionSummary(session: ChatSession): ChatSessionSummary {
+  return {
+    id: session.id,
+    title: session.title,
+    crosstabId: session.crosstabId,
+    messageCount: session.messages.length,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+  };
+}
+
+function truncateTitle(text: string, maxLength: number = 60): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > maxLength ? singleLine.substring(0, maxLength - 3) + '...' : singleLine;
+}
+
+/**
+ * Runs the tasks queued under one key one after another; different keys run concurrently
+ */
+class KeyedQueue {
+  private tails = new Map<string, Promise<unknown>>();
+
+  run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.tails.set(key, next);
+
+    // Forget the key once its last task settles
+    next.catch(() => undefined).then(() => {
+      if (this.tails.get(key) === next) this.tails.delete(key);
+    });
+    return next;
+  }
+}
+
+function byMostRecent(a: ChatSessionSummary, b: ChatSessionSummary): number {
+  return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
+}
+
+// ============================================================================
+// BACKENDS
+// ============================================================================
+
+/**
+ * In-process store. Least recently updated sessions are evicted beyond `maxSessions`.
+ */
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, ChatSession>();
+  private writes = new KeyedQueue();
+
+  constructor(private maxSessions: number = 500) {}
+
+  async list(ownerId: string): Promise<ChatSessionSummary[]> {
+    return [...this.sessions.values()]
+      .filter(session => session.ownerId === ownerId)
+      .map(toSessionSummary)
+      .sort(byMostRecent);
+  }
+
+  async get(sessionId: string): Promise<ChatSession | null> {
+    const session = this.sessions.get(sessionId);
+    return session ? structuredClone(session) : null;
+  }
+
+  async save(session: ChatSession): Promise<void> {
+    await this.writes.run(session.id, async () => this.store(structuredClone(session)));
+  }
+
+  async update(sessionId: string, change: (session: ChatSession) => void): Promise<ChatSession | null> {
+    return this.writes.run(sessionId, async () => {
+      const stored = this.sessions.get(sessionId);
+      if (!stored) return null;
+
+      const session = structuredClone(stored);
+      change(session);
+      this.store(session);
+      return structuredClone(session);
+    });
+  }
+
+  private store(session: ChatSession): void {
+    // Re-insert so the most recently saved session is evicted last
+    this.sessions.delete(session.id);
+    this.sessions.set(session.id, session);
+
+    while (this.sessions.size > this.maxSessions) {
+      const oldest = this.sessions.keys().next().value;
+      if (oldest === undefined) break;
+      this.sessions.delete(oldest);
+    }
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    return this.sessions.delete(sessionId);
+  }
+}
+
+/**
+ * One JSON file per session, so conversations survive server restarts.
+ */
+export class FileSessionStore implements SessionStore {
+  // Serialises writes within this process; run one server per directory
+  private writes = new KeyedQueue();
+
+  constructor(private directory: string) {}
+
+  private filePath(sessionId: string): string {
+    return path.join(this.directory, `${sessionId.replace(/[^\w-]/g, '_')}.json`);
+  }
+
+  async list(ownerId: string): Promise<ChatSessionSummary[]> {
+    const files = await fs.readdir(this.directory).catch(() => [] as string[]);
+    const sessions = await Promise.all(
+      files
+        .filter(f => f.endsWith('.json'))
+        .map(f => this.get(path.basename(f, '.json')))
+    );
+
+    return sessions
+      .filter((s): s is ChatSession => s !== null && s.ownerId === ownerId)
+      .map(toSessionSummary)
+      .sort(byMostRecent);
+  }
+
+  async get(sessionId: string): Promise<ChatSession | null> {
+    try {
+      const stored = JSON.parse(await fs.readFile(this.filePath(sessionId), 'utf-8'));
+      return reviveSession(stored);
+    } catch {
+      // Missing or unreadable sessions are treated as not found
+      return null;
+    }
+  }
+
+  async save(session: ChatSession): Promise<void> {
+    await this.writes.run(session.id, () => this.write(session));
+  }
+
+  async update(sessionId: string, change: (session: ChatSession) => void): Promise<ChatSession | null> {
+    return this.writes.run(sessionId, async () => {
+      const session = await this.get(sessionId);
+      if (!session) return null;
+
+      change(session);
+      await this.write(session);
+      return session;
+    });
+  }
+
+  private async write(session: ChatSession): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write to a temp file first so a crash never leaves a truncated session
+    const target = this.filePath(session.id);
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(session));
+    await fs.rename(temp, target);
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    try {
+      await fs.rm(this.filePath(sessionId));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Restore Date fields after a JSON round trip
+ */
+function reviveSession(stored: ChatSession): ChatSession {
+  return {
+    ...stored,
+    // Sessions stored before owners existed belong to no one
+    ownerId: stored.ownerId ?? '',
+    messages: (stored.messages || []).map(m => ({ ...m, timestamp: new Date(m.timestamp) })),
+    crosstabId: stored.crosstabId ?? null,
+    sparkChatId: stored.sparkChatId ?? null,
+    createdAt: new Date(stored.createdAt),
+    updatedAt: new Date(stored.updatedAt),
+  };
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * Create the session backend selected by environment variables:
+ * - SESSION_STORE: "memory" (default) or "file"
+ * - SESSION_STORE_DIR: directory for the file backend (default ".cache/sessions")
+ */
+export function createSessionStore(): SessionStore {
+  const backend = (process.env.SESSION_STORE || 'memory').toLowerCase();
+
+  switch (backend) {
+    case 'file':
+      return new FileSessionStore(process.env.SESSION_STORE_DIR || path.join('.cache', 'sessions'));
+    case 'memory':
+      return new MemorySessionStore();
+    default:
+      console.warn(`Unknown SESSION_STORE backend "${backend}", falling back to memory`);
+      return new MemorySessionStore();
+  }
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { adjustPValues, criticalZ, indexChangeZTest, testCellSignificance, twoProportionZTest } from './significance';
+import type { CrosstabMetrics } from './types';
+
+function metrics(overrides: Partial<CrosstabMetrics>): CrosstabMetrics {
+  return {
+    positive_sample: 200,
+    positive_size: 1_000_000,
+    audience_percentage: 40,
+    datapoint_percentage: 25,
+    audience_index: 160,
+    ...overrides,
+  };
+}
+
+describe('criticalZ', () => {
+  it('matches the two-sided normal quantiles', () => {
+    expect(criticalZ(0.9)).toBeCloseTo(1.645, 3);
+    expect(criticalZ(0.95)).toBeCloseTo(1.96, 3);
+    expect(criticalZ(0.99)).toBeCloseTo(2.576, 3);
+  });
+
+  it('rejects confidence levels outside (0, 1)', () => {
+    expect(() => criticalZ(0)).toThrow();
+    expect(() => criticalZ(1)).toThrow();
+    expect(() => criticalZ(95)).toThrow();
+  });
+});
+
+describe('twoProportionZTest', () => {
+  it('gives z = 0, p = 1 when there is no variance', () => {
+    expect(twoProportionZTest(0, 100, 0, 100)).toEqual({ zScore: 0, pValue: 1 });
+  });
+
+  it('matches a worked pooled z-test', () => {
+    // Pooled p = 0.5, SE = sqrt(0.25 * 2 / 100) = 0.0707
+    const { zScore, pValue } = twoProportionZTest(0.55, 100, 0.45, 100);
+
+    expect(zScore).toBeCloseTo(1.414, 3);
+    expect(pValue).toBeCloseTo(0.157, 3);
+  });
+});
+
+describe('testCellSignificance', () => {
+  it('flags a large gap on a large sample', () => {
+    const result = testCellSignificance(metrics({ audience_sample: 2000, base_sample: 20000 }), 0.95)!;
+
+    expect(result.significant).toBe(true);
+    expect(result.difference).toBeCloseTo(15);
+    expect(result.qValue).toBe(result.pValue);
+    expect(result.confidenceInterval[0]).toBeGreaterThan(0);
+    expect(result.confidenceInterval[1]).toBeGreaterThan(result.confidenceInterval[0]);
+  });
+
+  it('does not flag the same gap on a small sample', () => {
+    const result = testCellSignificance(metrics({ positive_sample: 4, audience_percentage: 40 }), 0.95)!;
+
+    expect(result.significant).toBe(false);
+    expect(result.confidenceInterval[0]).toBeLessThan(0);
+  });
+
+  it('derives the audience sample from the positive sample when it is missing', () => {
+    // 200 respondents at 40% means an audience of 500, tested against a base assumed as large
+    const derived = testCellSignificance(metrics({}), 0.95)!;
+    const explicit = testCellSignificance(metrics({ audience_sample: 500, base_sample: 500 }), 0.95)!;
+
+    expect(derived.zScore).toBeCloseTo(explicit.zScore, 10);
+  });
+
+  it('skips cells without a usable sample', () => {
+    expect(testCellSignificance(metrics({ audience_percentage: 0 }), 0.95)).toBeUndefined();
+    expect(testCellSignificance(metrics({ audience_percentage: 140 }), 0.95)).toBeUndefined();
+  });
+});
+
+describe('indexChangeZTest', () => {
+  it('detects an index change even when the audience % is unchanged', () => {
+    const before = metrics({ audience_sample: 5000, base_sample: 50_000 });
+    const after = metrics({ audience_sample: 5000, base_sample: 50_000, datapoint_percentage: 20, audience_index: 200 });
+
+    const { zScore, pValue } = indexChangeZTest(before, after);
+
+    expect(zScore).toBeCloseTo(40 / Math.sqrt(9.216 + 15.2), 3);
+    expect(pValue).toBeLessThan(0.001);
+  });
+
+  it('is symmetric in the direction of the change', () => {
+    const before = metrics({});
+    const after = metrics({ audience_percentage: 30, audience_index: 120 });
+
+    expect(indexChangeZTest(after, before).zScore).toBeCloseTo(-indexChangeZTest(before, after).zScore, 10);
+  });
+
+  it('returns z = 0, p = 1 when a wave has zero reach', () => {
+    expect(indexChangeZTest(metrics({}), metrics({ audience_percentage: 0, audience_index: 0 }))).toEqual({ zScore: 0, pValue: 1 });
+  });
+});
+
+describe('adjustPValues', () => {
+  const pValues = [0.01, 0.04, 0.03, 0.005];
+
+  it('leaves p-values alone for "none"', () => {
+    expect(adjustPValues(pValues, 'none')).toEqual(pValues);
+  });
+
+  it('multiplies by the family size for Bonferroni, capped at 1', () => {
+    expect(adjustPValues([0.01, 0.3], 'bonferroni')).toEqual([0.02, 0.6]);
+    expect(adjustPValues([0.6, 0.01], 'bonferroni')[0]).toBe(1);
+  });
+
+  it('computes Benjamini-Hochberg q-values in input order', () => {
+    // Ranked: 0.005 (1), 0.01 (2), 0.03 (3), 0.04 (4) -> 0.02, 0.02, 0.04, 0.04
+    const adjusted = adjustPValues(pValues, 'benjamini-hochberg');
+
+    [0.02, 0.04, 0.04, 0.02].forEach((q, i) => expect(adjusted[i]).toBeCloseTo(q, 10));
+  });
+
+  it('keeps Benjamini-Hochberg q-values monotone in the p-values', () => {
+    const adjusted = adjustPValues([0.001, 0.002, 0.2, 0.03, 0.5], 'benjamini-hochberg');
+    const byP = [0, 1, 3, 2, 4].map(i => adjusted[i]);
+
+    byP.slice(1).forEach((q, i) => expect(q).toBeGreaterThanOrEqual(byP[i]));
+    expect(Math.max(...adjusted)).toBeLessThanOrEqual(1);
+  });
+
+  it('returns an empty family unchanged', () => {
+    expect(adjustPValues([], 'benjamini-hochberg')).toEqual([]);
+  });
+});
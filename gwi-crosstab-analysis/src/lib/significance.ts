@@ -0,0 +1,207 @@
+import type { CrosstabMetrics, CellSignificance, MultipleComparisonMethod } from './types';
+
+// ============================================================================
+// DISTRIBUTION HELPERS
+// ============================================================================
+
+/**
+ * Standard normal cumulative distribution function.
+ * Uses the Abramowitz & Stegun 7.1.26 approximation of erf (max error ~1.5e-7).
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation).
+ */
+export function inverseNormalCdf(p: number): number {
+  if (p <= 0 || p >= 1) {
+    throw new Error(`Probability must be between 0 and 1 (exclusive), got ${p}`);
+  }
+
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.383577518672690e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+           ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+
+  if (p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+            ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+         (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Critical z value for a two-sided test at the given confidence level (e.g. 0.95 -> 1.96).
+ */
+export function criticalZ(confidenceLevel: number): number {
+  if (!(confidenceLevel > 0 && confidenceLevel < 1)) {
+    throw new Error(`Confidence level must be between 0 and 1 (exclusive), got ${confidenceLevel}`);
+  }
+  return inverseNormalCdf(1 - (1 - confidenceLevel) / 2);
+}
+
+// ============================================================================
+// CELL SIGNIFICANCE
+// ============================================================================
+
+/**
+ * Pooled two-proportion z-test.
+ * Proportions are fractions (0-1); a zero standard error yields z = 0, p = 1.
+ */
+export function twoProportionZTest(
+  p1: number,
+  n1: number,
+  p2: number,
+  n2: number
+): { zScore: number; pValue: number } {
+  const pooled = (p1 * n1 + p2 * n2) / (n1 + n2);
+  const pooledSe = Math.sqrt(pooled * (1 - pooled) * (1 / n1 + 1 / n2));
+
+  if (!(pooledSe > 0)) return { zScore: 0, pValue: 1 };
+
+  const zScore = (p1 - p2) / pooledSe;
+  return { zScore, pValue: 2 * (1 - normalCdf(Math.abs(zScore))) };
+}
+
+/**
+ * Unweighted sample of a cell's column audience: `audience_sample` when the
+ * Bulk Query returned it, otherwise derived from the positive sample and the
+ * audience percentage. Returns 0 when neither is usable.
+ */
+export function audienceSampleSize(metrics: CrosstabMetrics): number {
+  if (metrics.audience_sample && metrics.audience_sample > 0) return metrics.audience_sample;
+  const p = metrics.audience_percentage / 100;
+  return p > 0 ? metrics.positive_sample / p : 0;
+}
+
+/**
+ * z-test of the change in a cell's index between two independent waves.
+ *
+ * The index is audience % / datapoint % × 100; its standard error uses the
+ * delta method on that ratio, with the same sample sizes as
+ * testCellSignificance(). A change with no usable standard error yields z = 0, p = 1.
+ */
+export function indexChangeZTest(
+  before: CrosstabMetrics,
+  after: CrosstabMetrics
+): { zScore: number; pValue: number } {
+  const se = Math.sqrt(indexVariance(before) + indexVariance(after));
+  if (!(se > 0) || !Number.isFinite(se)) return { zScore: 0, pValue: 1 };
+
+  const zScore = (after.audience_index - before.audience_index) / se;
+  return { zScore, pValue: 2 * (1 - normalCdf(Math.abs(zScore))) };
+}
+
+// Delta-method variance of a cell's index; Infinity when a proportion is zero
+function indexVariance(metrics: CrosstabMetrics): number {
+  const p1 = metrics.audience_percentage / 100;
+  const p2 = metrics.datapoint_percentage / 100;
+  const n1 = audienceSampleSize(metrics);
+  const n2 = metrics.base_sample && metrics.base_sample > 0 ? metrics.base_sample : n1;
+
+  if (!(p1 > 0) || !(p2 > 0) || !(n1 > 0)) return Infinity;
+  return metrics.audience_index ** 2 * ((1 - p1) / (n1 * p1) + (1 - p2) / (n2 * p2));
+}
+
+/**
+ * Two-proportion z-test of a cell's audience percentage against its
+ * datapoint (base) percentage.
+ *
+ * Sample sizes come from `audience_sample` / `base_sample` when the Bulk Query
+ * returned them. Otherwise the audience sample is derived from the cell's
+ * positive sample and audience percentage, and the base is assumed to be no
+ * larger than the audience - a conservative choice, since the base always
+ * contains the audience.
+ *
+ * The returned q-value equals the raw p-value; call adjustPValues() across
+ * every tested cell to apply multiple-comparison correction.
+ *
+ * @returns undefined when the cell has no usable sample (e.g. zero reach)
+ */
+export function testCellSignificance(
+  metrics: CrosstabMetrics,
+  confidenceLevel: number
+): CellSignificance | undefined {
+  const p1 = metrics.audience_percentage / 100;
+  const p2 = metrics.datapoint_percentage / 100;
+
+  const n1 = audienceSampleSize(metrics);
+  const n2 = metrics.base_sample && metrics.base_sample > 0
+    ? metrics.base_sample
+    : n1;
+
+  if (n1 <= 0 || n2 <= 0 || p1 < 0 || p1 > 1 || p2 < 0 || p2 > 1) {
+    return undefined;
+  }
+
+  const zCrit = criticalZ(confidenceLevel);
+  const difference = (p1 - p2) * 100;
+
+  // Unpooled standard error for the confidence interval of the difference
+  const se = Math.sqrt(p1 * (1 - p1) / n1 + p2 * (1 - p2) / n2) * 100;
+
+  const { zScore, pValue } = twoProportionZTest(p1, n1, p2, n2);
+
+  return {
+    zScore,
+    pValue,
+    qValue: pValue,
+    significant: pValue < 1 - confidenceLevel,
+    difference,
+    confidenceInterval: [difference - zCrit * se, difference + zCrit * se],
+  };
+}
+
+// ============================================================================
+// MULTIPLE COMPARISON CORRECTION
+// ============================================================================
+
+/**
+ * Adjust a family of p-values for multiple comparisons.
+ * - bonferroni: p * m, controls the family-wise error rate
+ * - benjamini-hochberg: step-up q-values, controls the false discovery rate
+ *
+ * @returns Adjusted values in the same order as the input, capped at 1
+ */
+export function adjustPValues(pValues: number[], method: MultipleComparisonMethod): number[] {
+  const m = pValues.length;
+  if (m === 0 || method === 'none') return [...pValues];
+
+  if (method === 'bonferroni') {
+    return pValues.map(p => Math.min(1, p * m));
+  }
+
+  // Benjamini-Hochberg: q(i) = min over j >= i of p(j) * m / j, ranked ascending
+  const order = pValues
+    .map((p, i) => ({ p, i }))
+    .sort((a, b) => a.p - b.p);
+
+  const adjusted = new Array<number>(m);
+  let running = 1;
+  for (let rank = m; rank >= 1; rank--) {
+    const { p, i } = order[rank - 1];
+    running = Math.min(running, (p * m) / rank);
+    adjusted[i] = Math.min(1, running);
+  }
+
+  return adjusted;
+}
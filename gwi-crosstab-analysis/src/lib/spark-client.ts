@@ -79,9 +79,12 @@ export interface InsightDetail {
   }>;
 }
 
+/**
+ * Stateless client: conversation continuity is the caller's responsibility.
+ * Pass the `chatId` from a previous response as `chat_id` to continue it.
+ */
 export class SparkAPIClient {
   private apiKey: string;
-  private currentChatId: string | null = null;
   private requestCounter: number = 0;
 
   // Try alpha server for MCP endpoint
@@ -189,7 +192,6 @@ export class SparkAPIClient {
         arguments: {
           prompt,
           ...(options?.chat_id ? { chat_id: options.chat_id } : {}),
-          ...(this.currentChatId && !options?.chat_id ? { chat_id: this.currentChatId } : {}),
           ...(options?.docked_audiences ? { docked_audiences: options.docked_audiences } : {}),
         },
       },
@@ -201,11 +203,6 @@ export class SparkAPIClient {
     const contentText = response.result.content.map(c => c.text).join('\n');
     const parsed = this.parseChatGWIResponse(contentText);
 
-    // Store chat_id for conversation continuity
-    if (parsed.chatId) {
-      this.currentChatId = parsed.chatId;
-    }
-
     // Format the response for display
     const formattedText = this.formatResponse(parsed);
 
@@ -538,7 +535,8 @@ export class SparkAPIClient {
       markets: string[];
       waves: string[];
       audience?: string;
-    }
+    },
+    options?: SparkQueryOptions
   ): Promise<SparkResponse> {
     let contextualPrompt = prompt;
 
@@ -550,14 +548,7 @@ export class SparkAPIClient {
         `\n\nQuestion: ${prompt}`;
     }
 
-    return this.query(contextualPrompt);
-  }
-
-  /**
-   * Start a new conversation (clear chat_id)
-   */
-  clearConversation(): void {
-    this.currentChatId = null;
+    return this.query(contextualPrompt, options);
   }
 
   /**
@@ -0,0 +1,164 @@
+import { readFileSync } from 'fs';
+import type {
+  Crosstab,
+  RowDefinition,
+  Taxonomy,
+  TaxonomyCategory,
+  TaxonomyGroup,
+  TaxonomyMatch
+} from './types';
+import { findMatchingRow } from './types';
+import { getDatapointQuestion, getQuestionCode } from './audience-expression';
+import defaultTaxonomy from './taxonomy.json';
+
+const TAXONOMY_CATEGORIES: TaxonomyCategory[] = ['demographics', 'media', 'interests', 'purchase', 'attitudes', 'brands'];
+
+let activeTaxonomy: Taxonomy | null = null;
+
+// Compiled keyword pattern per taxonomy group (null when it has no keywords)
+const keywordPatterns = new WeakMap<TaxonomyGroup, RegExp | null>();
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+/**
+ * Validate a raw taxonomy (e.g. parsed JSON)
+ *
+ * @throws Error listing every problem found
+ */
+export function parseTaxonomy(raw: unknown): Taxonomy {
+  const problems: string[] = [];
+  const isStringArray = (value: unknown) => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+  const checkGroup = (group: unknown, path: string) => {
+    if (!group || typeof group !== 'object') {
+      problems.push(`${path} must be an object`);
+      return;
+    }
+    const { label, questions, keywords } = group as Record<string, unknown>;
+    if (typeof label !== 'string') problems.push(`${path}.label must be a string`);
+    if (!isStringArray(questions)) problems.push(`${path}.questions must be an array of question codes`);
+    if (!isStringArray(keywords)) problems.push(`${path}.keywords must be an array of strings`);
+  };
+
+  const taxonomy = raw as Taxonomy;
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Invalid taxonomy: must be an object');
+  }
+  if (typeof taxonomy.version !== 'number') problems.push('version must be a number');
+
+  if (!taxonomy.categories || typeof taxonomy.categories !== 'object') {
+    problems.push('categories must be an object');
+  } else {
+    Object.entries(taxonomy.categories).forEach(([name, definition]) => {
+      if (!TAXONOMY_CATEGORIES.includes(name as TaxonomyCategory)) {
+        problems.push(`Unknown category "${name}". Available: ${TAXONOMY_CATEGORIES.join(', ')}`);
+        return;
+      }
+      checkGroup(definition, `categories.${name}`);
+      Object.entries(definition?.subcategories ?? {}).forEach(([sub, group]) =>
+        checkGroup(group, `categories.${name}.subcategories.${sub}`)
+      );
+    });
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid taxonomy: ${problems.join('; ')}`);
+  }
+  return taxonomy;
+}
+
+/**
+ * Read and validate a taxonomy JSON file
+ */
+export function loadTaxonomy(filePath: string): Taxonomy {
+  return parseTaxonomy(JSON.parse(readFileSync(filePath, 'utf-8')));
+}
+
+/**
+ * The taxonomy in use: set by setTaxonomy(), otherwise the file named by
+ * TAXONOMY_FILE, otherwise the bundled taxonomy.json
+ */
+export function getTaxonomy(): Taxonomy {
+  if (!activeTaxonomy) {
+    const file = typeof process !== 'undefined' ? process.env.TAXONOMY_FILE : undefined;
+    activeTaxonomy = file ? loadTaxonomy(file) : parseTaxonomy(defaultTaxonomy);
+  }
+  return activeTaxonomy;
+}
+
+/**
+ * Replace the taxonomy used by the templates and chat responses
+ */
+export function setTaxonomy(taxonomy: Taxonomy): void {
+  activeTaxonomy = parseTaxonomy(taxonomy);
+}
+
+// ============================================================================
+// CATEGORIZATION
+// ============================================================================
+
+/**
+ * Categorize a row by its question code, falling back to keywords in its name.
+ * A question code match always beats a keyword match.
+ */
+export function categorize(
+  input: { question?: string; name: string },
+  taxonomy: Taxonomy = getTaxonomy()
+): TaxonomyMatch | undefined {
+  const categories = Object.entries(taxonomy.categories) as [TaxonomyCategory, NonNullable<Taxonomy['categories'][TaxonomyCategory]>][];
+
+  if (input.question) {
+    for (const [category, definition] of categories) {
+      const sub = Object.entries(definition.subcategories ?? {}).find(([, group]) => group.questions.includes(input.question!));
+      if (sub) return { category, subcategory: sub[0], matchedBy: 'question' };
+      if (definition.questions.includes(input.question)) {
+        return { category, subcategory: findSubcategoryByKeyword(definition.subcategories, input.name), matchedBy: 'question' };
+      }
+    }
+  }
+
+  for (const [category, definition] of categories) {
+    const subcategory = findSubcategoryByKeyword(definition.subcategories, input.name);
+    if (subcategory || matchesKeywords(definition, input.name)) {
+      return { category, subcategory, matchedBy: 'keyword' };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Categorize a row definition
+ */
+export function categorizeRow(row: RowDefinition, taxonomy?: Taxonomy): TaxonomyMatch | undefined {
+  return categorize({ question: getQuestionCode(row), name: row.name }, taxonomy);
+}
+
+/**
+ * Categorize a data row's datapoint through its row definition
+ */
+export function categorizeDatapoint(datapoint: string, crosstab: Crosstab, taxonomy?: Taxonomy): TaxonomyMatch | undefined {
+  const row = findMatchingRow(datapoint, crosstab.rows);
+  return categorize({ question: getDatapointQuestion(datapoint, crosstab), name: row?.name ?? datapoint }, taxonomy);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function findSubcategoryByKeyword(subcategories: Record<string, TaxonomyGroup> | undefined, name: string): string | undefined {
+  return Object.entries(subcategories ?? {}).find(([, group]) => matchesKeywords(group, name))?.[0];
+}
+
+/**
+ * Keywords match at the start of a word, so "shop" matches "Shopping" but "tv" does not match "ATV"
+ */
+function matchesKeywords(group: TaxonomyGroup, name: string): boolean {
+  if (!keywordPatterns.has(group)) {
+    const escaped = group.keywords.map(k => k.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    keywordPatterns.set(group, escaped.length > 0 ? new RegExp(`(^|[^a-z0-9])(${escaped.join('|')})`, 'i') : null);
+  }
+  return keywordPatterns.get(group)?.test(name) ?? false;
+}
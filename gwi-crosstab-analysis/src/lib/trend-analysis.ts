@@ -0,0 +1,245 @@
+import type {
+  Crosstab,
+  CrosstabDataRow,
+  AnalysisConfig,
+  TrendAnalysis,
+  TrendSeries,
+  TrendPoint,
+  TrendPattern,
+  TimeSeriesData
+} from './types';
+import { getRowName, getColumnName } from './types';
+import { adjustPValues, indexChangeZTest } from './significance';
+import { getRowLocation } from './market-comparison';
+
+// ============================================================================
+// REGRESSION HELPERS
+// ============================================================================
+
+interface ObservedPoint {
+  x: number;       // Position of the wave in wave_codes
+  wave: string;
+  value: number;   // Index
+  row: CrosstabDataRow;
+}
+
+/**
+ * Ordinary least squares fit of value against wave position
+ */
+function linearFit(points: ObservedPoint[]): { slope: number; intercept: number; rSquared: number } {
+  const n = points.length;
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + p.value, 0) / n;
+
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  points.forEach(p => {
+    sxx += (p.x - meanX) ** 2;
+    sxy += (p.x - meanX) * (p.value - meanY);
+    syy += (p.value - meanY) ** 2;
+  });
+
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const intercept = meanY - slope * meanX;
+  const rSquared = sxx > 0 && syy > 0 ? (sxy * sxy) / (sxx * syy) : 0;
+
+  return { slope, intercept, rSquared };
+}
+
+/**
+ * Find the wave of the most recent turning point, ignoring moves smaller
+ * than the threshold (a zig-zag filter).
+ */
+function findReversal(points: ObservedPoint[], threshold: number): string | undefined {
+  let direction = 0;
+  let high = points[0];
+  let low = points[0];
+  let extreme = points[0];
+  let reversal: string | undefined;
+
+  for (const p of points.slice(1)) {
+    if (direction === 0) {
+      if (p.value > high.value) high = p;
+      if (p.value < low.value) low = p;
+      if (p.value - low.value >= threshold) {
+        direction = 1;
+        extreme = p;
+      } else if (high.value - p.value >= threshold) {
+        direction = -1;
+        extreme = p;
+      }
+    } else if (direction === 1) {
+      if (p.value > extreme.value) {
+        extreme = p;
+      } else if (extreme.value - p.value >= threshold) {
+        reversal = extreme.wave;
+        direction = -1;
+        extreme = p;
+      }
+    } else {
+      if (p.value < extreme.value) {
+        extreme = p;
+      } else if (p.value - extreme.value >= threshold) {
+        reversal = extreme.wave;
+        direction = 1;
+        extreme = p;
+      }
+    }
+  }
+
+  return reversal;
+}
+
+// ============================================================================
+// TREND ANALYSIS
+// ============================================================================
+
+/**
+ * Build a time series for every datapoint × audience × market across all
+ * waves in `wave_codes`, then estimate slope, test the first-to-last change
+ * against the cells' sample sizes and classify the shape of the series.
+ *
+ * Cells below the sample floor are left as gaps. Change p-values are adjusted
+ * across all series with the configured multiple-comparison method.
+ *
+ * @returns undefined when the data covers fewer than two waves
+ */
+export function buildTrendAnalysis(crosstab: Crosstab, config: AnalysisConfig): TrendAnalysis | undefined {
+  const waves = crosstab.wave_codes;
+  const data = crosstab.data || [];
+
+  const wavePosition = new Map(waves.map((w, i) => [w, i]));
+  const wavesInData = new Set(data.map(row => row.wave).filter(w => w && wavePosition.has(w)));
+  if (wavesInData.size < 2) return undefined;
+
+  const showAudience = crosstab.columns.length > 1;
+  const showLocation = crosstab.country_codes.length > 1;
+
+  // Group rows into series
+  const grouped = new Map<string, CrosstabDataRow[]>();
+  data.forEach(row => {
+    if (!row.wave || !wavePosition.has(row.wave)) return;
+    const key = `${row.datapoint}::${row.audience}::${getRowLocation(row, crosstab) || ''}`;
+    if (!grouped.has(key)) grouped.set(key, []);
+    grouped.get(key)!.push(row);
+  });
+
+  const series: TrendSeries[] = [];
+
+  grouped.forEach(rows => {
+    const first = rows[0];
+    const location = getRowLocation(first, crosstab);
+
+    const observed: ObservedPoint[] = rows
+      .filter(row => row.metrics.positive_sample >= config.minSample)
+      .map(row => ({
+        x: wavePosition.get(row.wave!)!,
+        wave: row.wave!,
+        value: row.metrics.audience_index,
+        row
+      }))
+      .sort((a, b) => a.x - b.x);
+
+    if (observed.length < 2) return;
+
+    const points: TrendPoint[] = waves.map(wave => {
+      const point = observed.find(p => p.wave === wave);
+      return {
+        wave,
+        index: point ? Math.round(point.value) : null,
+        percentage: point ? Math.round(point.row.metrics.audience_percentage) : null,
+        sample: point ? point.row.metrics.positive_sample : null
+      };
+    });
+
+    const { slope, intercept, rSquared } = linearFit(observed);
+    const start = observed[0];
+    const end = observed[observed.length - 1];
+
+    // Is the index in the last wave different from the first, given the samples?
+    // The same series drives the direction and the reversals
+    const { zScore, pValue } = indexChangeZTest(start.row.metrics, end.row.metrics);
+
+    // Compare the slope of the later half of the series with the earlier half
+    let acceleration = 0;
+    if (observed.length >= 3) {
+      const half = Math.ceil(observed.length / 2);
+      const early = linearFit(observed.slice(0, half)).slope;
+      const late = linearFit(observed.slice(observed.length - half)).slope;
+      acceleration = late - early;
+    }
+
+    const reversalWave = findReversal(observed, config.minTrendChange);
+    const halfSpan = Math.ceil(observed.length / 2) - 1;
+
+    let pattern: TrendPattern = 'steady';
+    if (reversalWave) {
+      pattern = 'reversal';
+    } else if (observed.length >= 3 && Math.abs(acceleration) * halfSpan >= config.minTrendChange) {
+      pattern = Math.sign(acceleration) === Math.sign(slope) ? 'accelerating' : 'decelerating';
+    }
+
+    const rowName = getRowName(first.datapoint, crosstab.rows);
+    const label = [
+      rowName,
+      showAudience ? getColumnName(first.audience, crosstab.columns) : undefined,
+      showLocation ? location?.toUpperCase() : undefined
+    ].filter(Boolean).join(' - ');
+
+    series.push({
+      datapoint: first.datapoint,
+      audience: first.audience,
+      location,
+      label,
+      points,
+      slope,
+      intercept,
+      rSquared,
+      change: end.value - start.value,
+      percentageChange: end.row.metrics.audience_percentage - start.row.metrics.audience_percentage,
+      zScore,
+      pValue,
+      qValue: pValue,
+      significant: false,
+      direction: 'stable',
+      acceleration,
+      pattern,
+      reversalWave
+    });
+  });
+
+  const qValues = adjustPValues(series.map(s => s.pValue), config.multipleComparison);
+  const alpha = 1 - config.confidenceLevel;
+
+  series.forEach((s, i) => {
+    s.qValue = qValues[i];
+    s.significant = qValues[i] < alpha;
+    if (s.significant && Math.abs(s.change) >= config.minTrendChange) {
+      s.direction = s.change > 0 ? 'increasing' : 'decreasing';
+    }
+  });
+
+  series.sort((a, b) => Math.abs(b.slope) - Math.abs(a.slope));
+
+  return {
+    waves,
+    series,
+    significant: series.filter(s => s.direction !== 'stable'),
+    reversals: series.filter(s => s.pattern === 'reversal'),
+    accelerating: series.filter(s => s.pattern === 'accelerating' && s.direction !== 'stable')
+  };
+}
+
+/**
+ * Convert trend series into line chart data for the frontend
+ */
+export function toTrendTimeSeries(series: TrendSeries[], waves: string[]): TimeSeriesData {
+  return {
+    categories: waves,
+    series: series.map(s => ({
+      label: s.label,
+      values: s.points.map(p => p.index)
+    }))
+  };
+}
@@ -6,35 +6,78 @@ export interface CrosstabMetrics {
   audience_percentage: number;
   datapoint_percentage: number;
   audience_index: number;
+  audience_sample?: number;  // Unweighted sample of the column audience, when returned
+  base_sample?: number;      // Unweighted sample of the base, when returned
+}
+
+// Result of testing a cell's audience % against its datapoint (base) %
+export interface CellSignificance {
+  zScore: number;
+  pValue: number;
+  qValue: number;        // p-value adjusted for multiple comparisons across the crosstab
+  significant: boolean;  // Decided on the adjusted q-value
+  difference: number;  // audience % minus datapoint %, in percentage points
+  confidenceInterval: [number, number];
 }
 
 export interface CrosstabDataRow {
   audience: string;
   datapoint: string;
-  segment?: string;
+  segment?: string;   // Column (audience) name
+  location?: string;  // Market code, e.g. "gb"
   wave?: string;
   metrics: CrosstabMetrics;
+  significance?: CellSignificance;
+}
+
+// GWI audience expressions: and/or trees whose leaves select datapoints of one question.
+// Definitions carry them exactly as the API returned them (they are sent back in
+// the Bulk Query), so read them through parseExpression() rather than directly.
+
+export interface QuestionExpression {
+  question: string;       // Question code, e.g. "q42011"
+  datapoints: string[];   // Datapoint codes, e.g. ["q42011_3"]; matching any one counts
+  suffixes?: number[];    // Answer suffixes (e.g. frequency) the datapoints are limited to
+  min_count?: number;     // Match at least this many of the datapoints (default 1)
+  not?: boolean;
+}
+
+export interface AndExpression {
+  and: AudienceExpression[];
+  not?: boolean;
+}
+
+export interface OrExpression {
+  or: AudienceExpression[];
+  not?: boolean;
+}
+
+export type AudienceExpression = QuestionExpression | AndExpression | OrExpression;
+
+export interface ExpressionIssue {
+  path: string;       // Location in the expression, e.g. "and[1].datapoints"
+  message: string;
 }
 
 export interface RowDefinition {
   id: string;
   name: string;
   full_name?: string;
-  expression?: unknown;
+  expression?: AudienceExpression;
 }
 
 export interface ColumnDefinition {
   id: string;
   name: string;
   full_name?: string;
-  expression?: unknown;
+  expression?: AudienceExpression;
 }
 
 export interface BaseDefinition {
   id: string;
   name: string;
   full_name?: string;
-  expression?: unknown;
+  expression?: AudienceExpression;
 }
 
 export interface Crosstab {
@@ -49,6 +92,15 @@ export interface Crosstab {
   created_at: string;
   updated_at: string;
   data?: CrosstabDataRow[];
+  queryStats?: BulkQueryStats;
+}
+
+// Parse diagnostics for the Bulk Query response stream
+export interface BulkQueryStats {
+  records: number;    // Records received, valid or not
+  rows: number;       // Records turned into data rows
+  malformed: number;  // Records skipped because they could not be parsed
+  errors: { record: number; message: string; sample: string }[];
 }
 
 export interface CrosstabSummary {
@@ -60,11 +112,49 @@ export interface CrosstabSummary {
   folder_id?: string;
 }
 
+// ============================================================================
+// ANALYSIS CONFIGURATION
+// ============================================================================
+
+export type AnalysisPresetName = 'standard' | 'strict' | 'exploratory';
+
+export type MultipleComparisonMethod = 'benjamini-hochberg' | 'bonferroni' | 'none';
+
+/**
+ * Methodology thresholds used by the analyzer, templates and formatter.
+ * Index values are relative to 100 (= base average); reach values are percentages.
+ */
+export interface AnalysisConfig {
+  preset: AnalysisPresetName | 'custom';
+  minSample: number;             // Sample floor for a cell to be reported
+  confidenceLevel: number;       // Two-sided confidence level for cell significance tests
+  multipleComparison: MultipleComparisonMethod;  // False discovery control across cells
+  overIndex: number;             // At or above = over-indexed
+  underIndex: number;            // At or below = under-indexed
+  strongAffinity: number;        // Above = strong affinity
+  strongNegative: number;        // Below = strong negative affinity
+  distinctiveIndex: number;      // Above = distinctive for one market/competitor/platform
+  nicheIndex: number;            // At or above (with low reach) = niche opportunity
+  nicheMaxReach: number;         // Below = low reach for niche opportunities
+  highReach: number;             // At or above = high reach
+  highConfidenceSample: number;  // At or above = high confidence finding
+  baselineLower: number;         // Index range treated as "no differentiation"
+  baselineUpper: number;
+  marketSpread: number;          // Index spread across markets treated as significant
+  minTrendChange: number;        // Smallest index change reported as a trend
+  trendChange: number;           // Index change treated as a notable trend
+  strongTrendChange: number;     // Index change treated as a high-volatility trend
+}
+
 export interface Analysis {
+  config: AnalysisConfig;
   structure: StructureAnalysis;
   statistics: StatisticsAnalysis;
   insights: Insight[];
   recommendations: Recommendation[];
+  markets?: MarketComparison;  // Present when the data is split by more than one market
+  trends?: TrendAnalysis;      // Present when the data spans more than one wave
+  audienceOverlap?: AudienceOverlap;  // Present when the data has more than one column audience
 }
 
 export interface StructureAnalysis {
@@ -85,18 +175,221 @@ export interface StatisticsAnalysis {
   overIndexed: IndexedItem[];
   underIndexed: IndexedItem[];
   statistically_significant: CrosstabDataRow[];
+  significance: SignificanceSummary;
   averages: {
     mean_index: number;
     mean_sample: number;
   };
 }
 
+export interface SignificanceSummary {
+  confidenceLevel: number;
+  correction: MultipleComparisonMethod;
+  testedCells: number;
+  rawSignificantCells: number;  // Before multiple-comparison correction
+  significantCells: number;     // Surviving correction
+}
+
 export interface IndexedItem {
   label: string;
-  index: number;
+  datapoint: string;          // Row datapoint ID
+  audience: string;           // Column audience ID
+  index: number;              // Rounded for display; raw values are in metrics
   percentage: number;
   sample: number;
   segment?: string;
+  location?: string;
+  significant?: boolean;
+  pValue?: number;
+  qValue?: number;
+  confidenceInterval?: [number, number];
+  category?: TaxonomyCategory;   // From the taxonomy, by question code or row name
+  subcategory?: string;
+  metrics: CrosstabMetrics;      // The data row's metrics, unrounded
+}
+
+// ============================================================================
+// TAXONOMY TYPES
+// ============================================================================
+
+export type TaxonomyCategory = 'demographics' | 'media' | 'interests' | 'purchase' | 'attitudes' | 'brands';
+
+export interface TaxonomyGroup {
+  label: string;
+  questions: string[];   // GWI question codes, matched exactly
+  keywords: string[];    // Matched case-insensitively at the start of a word in row names
+}
+
+export interface TaxonomyCategoryDefinition extends TaxonomyGroup {
+  subcategories?: Record<string, TaxonomyGroup>;   // e.g. media → social
+}
+
+export interface Taxonomy {
+  version: number;
+  // Earlier categories win when several match a row name
+  categories: Partial<Record<TaxonomyCategory, TaxonomyCategoryDefinition>>;
+}
+
+export interface TaxonomyMatch {
+  category: TaxonomyCategory;
+  subcategory?: string;
+  matchedBy: 'question' | 'keyword';
+}
+
+// ============================================================================
+// MARKET COMPARISON TYPES
+// ============================================================================
+
+export interface MarketCell {
+  index: number;
+  percentage: number;
+  sample: number;
+  significant?: boolean;
+}
+
+export interface MarketComparisonRow {
+  datapoint: string;
+  audience: string;
+  label: string;
+  cells: Record<string, MarketCell | undefined>;  // Keyed by market code
+  spread: number;        // Highest minus lowest index across markets
+  highMarket?: string;
+  lowMarket?: string;
+}
+
+export interface MarketComparison {
+  markets: string[];
+  wave?: string;                       // Wave compared when the crosstab has several
+  rows: MarketComparisonRow[];         // Sorted by spread, largest first
+  variations: MarketComparisonRow[];   // Rows whose spread exceeds config.marketSpread
+}
+
+// ============================================================================
+// AUDIENCE OVERLAP TYPES
+// ============================================================================
+
+// A datapoint where one column audience differs from the other columns pooled
+export interface AudienceDifferentiator {
+  datapoint: string;
+  label: string;
+  percentage: number;         // Audience % of this column
+  othersPercentage: number;   // Audience % of the other columns pooled
+  relativeIndex: number;      // percentage / othersPercentage × 100
+  index: number;              // Index of this column against the base
+  sample: number;
+  pValue: number;
+  qValue: number;
+  significant: boolean;
+}
+
+export interface AudienceProfile {
+  audience: string;           // Column ID
+  label: string;
+  size: number;               // Estimated weighted universe (positive_size / audience %)
+  share: number;              // % of the combined size of all columns
+  relativeSize: number;       // Size vs. the largest column, 100 = as large
+  distinctive: AudienceDifferentiator[];   // Over-indexing vs. the other columns, highest first
+  lessLikely: AudienceDifferentiator[];    // Under-indexing vs. the other columns, lowest first
+}
+
+// How alike two column audiences behave; a proxy for overlap, not a measured duplication
+export interface AudienceSimilarity {
+  audiences: [string, string];  // Column IDs
+  correlation: number;          // Pearson correlation of their indexes across datapoints
+  datapoints: number;           // Datapoints both columns report above the sample floor
+}
+
+export interface AudienceOverlap {
+  wave?: string;
+  profiles: AudienceProfile[];         // In column order
+  similarities: AudienceSimilarity[];  // Most alike pair first
+}
+
+// ============================================================================
+// CROSSTAB COMPARISON TYPES
+// ============================================================================
+
+// The slice of a crosstab that was compared: one audience, market and wave
+export interface ComparedCrosstab {
+  id: string;
+  name: string;
+  audience: string;     // Column name
+  location?: string;
+  wave?: string;
+}
+
+export interface CrosstabComparisonCell {
+  index: number;
+  percentage: number;
+  sample: number;
+}
+
+// Difference of one crosstab against the reference (first) crosstab
+export interface CrosstabComparisonDelta {
+  indexDelta: number;   // This crosstab minus the reference
+  reachDelta: number;   // Audience % points, this crosstab minus the reference
+  zScore: number;       // Two-proportion test of the two audience %s
+  pValue: number;
+  qValue: number;       // Adjusted across all matched rows
+  significant: boolean;
+}
+
+export interface CrosstabComparisonRow {
+  rowId: string;        // Row definition ID shared by the crosstabs
+  label: string;
+  cells: CrosstabComparisonCell[];       // One per crosstab, in comparison order
+  deltas: CrosstabComparisonDelta[];     // One per crosstab after the first
+}
+
+export interface CrosstabComparison {
+  crosstabs: ComparedCrosstab[];         // First is the reference
+  wave?: string;                         // Wave all crosstabs were read from; unset when they share none
+  rows: CrosstabComparisonRow[];         // Sorted by largest absolute index delta
+  unique: { crosstabId: string; labels: string[] }[];  // Rows only one crosstab reports
+  significantDifferences: number;
+}
+
+// ============================================================================
+// TREND ANALYSIS TYPES
+// ============================================================================
+
+export interface TrendPoint {
+  wave: string;
+  index: number | null;       // null = missing or below the sample floor
+  percentage: number | null;
+  sample: number | null;
+}
+
+export type TrendDirection = 'increasing' | 'decreasing' | 'stable';
+export type TrendPattern = 'steady' | 'accelerating' | 'decelerating' | 'reversal';
+
+export interface TrendSeries {
+  datapoint: string;
+  audience: string;
+  location?: string;
+  label: string;
+  points: TrendPoint[];       // One per wave, in wave_codes order
+  slope: number;              // OLS index points per wave
+  intercept: number;
+  rSquared: number;
+  change: number;             // Index change from first to last observed wave
+  percentageChange: number;   // Audience % change from first to last observed wave, in points
+  zScore: number;             // Test of first vs last index
+  pValue: number;
+  qValue: number;             // Adjusted across all series
+  significant: boolean;
+  direction: TrendDirection;
+  acceleration: number;       // Late-half slope minus early-half slope (index points per wave)
+  pattern: TrendPattern;
+  reversalWave?: string;      // Wave at which the most recent reversal turned
+}
+
+export interface TrendAnalysis {
+  waves: string[];
+  series: TrendSeries[];       // Sorted by absolute slope, largest first
+  significant: TrendSeries[];  // Significant and at least config.minTrendChange points of change
+  reversals: TrendSeries[];
+  accelerating: TrendSeries[];
 }
 
 export interface Insight {
@@ -148,13 +441,155 @@ export interface ChatMessage {
   suggestedActions?: SuggestedAction[];
 }
 
+// ============================================================================
+// CHAT RESPONSE & STREAMING TYPES
+// ============================================================================
+
+export type ChatStage = 'fetching' | 'analyzing' | 'formatting' | 'querying';
+
+// Body returned by POST /api/chat, and the final payload of the stream
+export interface ChatResponse {
+  sessionId: string;
+  response: string;
+  analysisType: string;
+  crosstabId: string | null;
+  crosstabs: Array<{ id: string; name: string }> | null;
+  visualizations: VisualizationData[] | null;
+  suggestedActions: SuggestedAction[] | null;
+  preset: AnalysisPresetName | 'custom';
+  timestamp: string;
+}
+
+// Server-Sent Events emitted by POST /api/chat/stream, keyed by event name
+export interface ChatStreamEvents {
+  stage: { stage: ChatStage; message: string };  // Progress while the reply is built
+  done: ChatResponse;                            // The complete reply
+  error: { error: string; message: string };
+}
+
 export interface ChatSession {
   id: string;
+  ownerId: string;              // Client or user the session belongs to; only they can list or open it
+  title: string;
   messages: ChatMessage[];
+  crosstabId: string | null;    // Crosstab selected for the conversation
+  sparkChatId: string | null;   // Spark chat_id, so follow-ups continue the same Spark conversation
+  dataQuery?: DataQueryContext; // Last data query, refined by "only …" follow-ups
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Listing entry for GET /api/sessions
+export interface ChatSessionSummary {
+  id: string;
+  title: string;
+  crosstabId: string | null;
+  messageCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// INTENT TYPES
+// ============================================================================
+
+export type IntentType =
+  | 'list_crosstabs'
+  | 'analyze_crosstab'
+  | 'search_and_analyze'
+  | 'compare_crosstabs'
+  | 'spark_query'
+  | 'help'
+  | 'unknown'
+  | 'prompt_library'
+  | 'show_more_crosstabs'
+  | 'filter_data';
+
+// Numeric filters mentioned in a message, e.g. "index above 150"
+export interface IntentThresholds {
+  minIndex?: number;
+  maxIndex?: number;
+  minReach?: number;    // Audience %
+  maxReach?: number;
+  minSample?: number;
+}
+
+// Entities as written in the message; resolving them against a crosstab happens later
+export interface IntentEntities {
+  crosstabNames?: string[];
+  markets?: string[];
+  waves?: string[];
+  thresholds?: IntentThresholds;
+}
+
+export interface Intent {
+  type: IntentType;
+  confidence: number;          // 0-1
+  source: 'rules' | 'model';   // Which classifier produced it
+  entities: IntentEntities;
+  searchTerm?: string;
+  crosstabId?: string;
+  promptCategory?: PromptMetadata['promptCategory'];
+  offset?: number;
+  crosstabIds?: string[];      // Crosstabs named by ID for a comparison
+  compareTerms?: string[];     // Crosstab names to search for a comparison; 'this' = the selected one
+}
+
+export interface IntentContext {
+  crosstabId?: string | null;  // Crosstab selected for the conversation
+  promptMetadata?: PromptMetadata;
+  hasDataQuery?: boolean;      // A data query is open, so "only …" follow-ups refine it
+}
+
+export interface IntentClassifier {
+  readonly name: string;
+  classify(message: string, context: IntentContext): Promise<Intent>;
+}
+
+// ============================================================================
+// SLICE TYPES
+// ============================================================================
+
+// The part of a crosstab a chat message asks about; an empty list means all of them
+export interface CrosstabSlice {
+  markets: string[];     // country_codes, spelled as the crosstab spells them
+  waves: string[];       // wave_codes
+  columns: string[];     // Column (audience) IDs
+  unmatched: string[];   // Markets and waves named in the message that the crosstab does not have
+}
+
+// ============================================================================
+// DATA QUERY TYPES
+// ============================================================================
+
+export type QueryMetric = 'index' | 'reach' | 'sample';
+
+// Filters over a crosstab's cells, parsed from e.g. "bottom 10 social platforms in the US".
+// Only what the message mentioned is set, so a follow-up can refine the previous query.
+export interface DataQuery {
+  thresholds?: IntentThresholds;
+  categories?: { category: TaxonomyCategory; subcategory?: string }[];
+  significantOnly?: boolean;
+  slice?: CrosstabSlice;
+  order?: 'top' | 'bottom';   // Default: top
+  sortBy?: QueryMetric;       // Default: index
+  limit?: number;
+}
+
+export interface DataQueryResult {
+  query: DataQuery;
+  rows: TableRow[];   // Matching cells, sorted and limited
+  matched: number;    // Matching cells before the limit
+  total: number;      // Cells above the sample floor that were searched
+  minSample: number;  // Sample floor the cells were held to
+}
+
+// The query a conversation's next follow-up builds on
+export interface DataQueryContext {
+  crosstabId: string;
+  query: DataQuery;
+}
+
 // ============================================================================
 // VISUALIZATION TYPES
 // ============================================================================
@@ -173,12 +608,81 @@ export interface BarChartDataPoint {
   color?: string;
 }
 
+export interface TimeSeriesData {
+  categories: string[];  // x-axis, e.g. wave codes
+  series: { label: string; values: (number | null)[] }[];
+}
+
+// Side-by-side bars: one bar per series in each category
+export interface GroupedBarData {
+  categories: string[];
+  series: { label: string; values: (number | null)[] }[];
+}
+
+export interface HeatmapCell {
+  metrics: CrosstabMetrics;
+  masked: boolean;        // Below the sample floor; its value is null
+  significant?: boolean;
+}
+
+export interface HeatmapData {
+  rows: string[];
+  columns: string[];
+  values: (number | null)[][];  // values[row][column]; null = insufficient sample
+  cells?: (HeatmapCell | null)[][];  // Same shape as values; null = no data for the cell
+  minSample?: number;     // Sample floor the masking was applied with
+  referenceValue?: number;
+}
+
+export interface ScatterPoint {
+  label: string;
+  reach: number;    // Audience %, x-axis
+  index: number;    // y-axis
+  sample: number;   // Bubble size
+  datapoint: string;
+  audience: string;
+  location?: string;
+  significant?: boolean;
+  prompt: string;   // Sent to the chat when the point is clicked
+}
+
+export interface ScatterData {
+  points: ScatterPoint[];
+  reachThreshold: number;  // Vertical quadrant line
+  indexThreshold: number;  // Horizontal quadrant line
+}
+
+// One crosstab cell in the full data grid
+export interface TableRow {
+  datapoint: string;
+  label: string;          // Row name resolved through getRowName
+  audience: string;
+  audienceLabel: string;  // Column name resolved through getColumnName
+  location?: string;
+  wave?: string;
+  metrics: CrosstabMetrics;
+  significant?: boolean;
+  lowSample: boolean;     // Below the sample floor
+}
+
+export interface TableData {
+  rows: TableRow[];
+  minSample: number;
+  markets: string[];
+  waves: string[];
+}
+
 export interface VisualizationData {
   id: string;
-  type: 'bar' | 'horizontalBar' | 'line' | 'heatmap' | 'table';
+  type: 'bar' | 'horizontalBar' | 'groupedBar' | 'line' | 'heatmap' | 'table' | 'scatter';
   title: string;
   subtitle?: string;
   data: BarChartDataPoint[];
+  heatmap?: HeatmapData;  // Used by type 'heatmap'
+  timeSeries?: TimeSeriesData;  // Used by type 'line'
+  groups?: GroupedBarData;  // Used by type 'groupedBar'
+  table?: TableData;  // Used by type 'table'
+  scatter?: ScatterData;  // Used by type 'scatter'
   config?: {
     xAxisLabel?: string;
     yAxisLabel?: string;
@@ -200,13 +704,27 @@ export interface SuggestedAction {
   prompt: string;  // The message to send when clicked
   icon?: 'chart' | 'target' | 'compare' | 'export' | 'filter' | 'trend';
   category?: 'analysis' | 'visualization' | 'export' | 'drill-down';
+  href?: string;   // Download link; the action opens this instead of sending `prompt`
+}
+
+// ============================================================================
+// EXPORT TYPES
+// ============================================================================
+
+// Everything an exporter needs to render an analysis deliverable
+export interface AnalysisReport {
+  crosstab: Crosstab;
+  analysis: Analysis;
+  templates: Record<string, TemplateAnalysis>;  // Keyed by template name
+  visualizations: VisualizationData[];
+  generatedAt: Date;
 }
 
 export interface AnalysisTemplate {
   name: string;
   description: string;
   applicableWhen: (crosstab: Crosstab) => boolean;
-  analyze: (crosstab: Crosstab, analysis: Analysis) => TemplateAnalysis;
+  analyze: (crosstab: Crosstab, analysis: Analysis, config: AnalysisConfig) => TemplateAnalysis;
 }
 
 // ============================================================================
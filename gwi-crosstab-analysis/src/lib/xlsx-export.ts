@@ -0,0 +1,257 @@
+import ExcelJS from 'exceljs';
+import type { AnalysisReport, CrosstabDataRow, CrosstabMetrics, IndexedItem, TemplateAnalysis } from './types';
+import { getRowName, getColumnName } from './types';
+import { BRAND_COLORS } from './brand';
+
+// exceljs expects opaque ARGB colours
+const toArgb = (color: string) => `FF${color.slice(1).toUpperCase()}`;
+
+const COLORS = {
+  blue: toArgb(BRAND_COLORS.blue),
+  red: toArgb(BRAND_COLORS.red),
+  white: toArgb(BRAND_COLORS.white),
+  header: toArgb(BRAND_COLORS.border),
+};
+
+// Metric columns written for every audience in the data grid
+const GRID_METRICS: { key: keyof CrosstabMetrics; header: string; numFmt: string }[] = [
+  { key: 'positive_sample', header: 'Sample', numFmt: '#,##0' },
+  { key: 'positive_size', header: 'Size', numFmt: '#,##0' },
+  { key: 'audience_percentage', header: 'Audience %', numFmt: '0.0' },
+  { key: 'datapoint_percentage', header: 'Datapoint %', numFmt: '0.0' },
+  { key: 'audience_index', header: 'Index', numFmt: '0' },
+];
+
+// Excel forbids these in sheet names, which are also capped at 31 characters
+const INVALID_SHEET_CHARS = /[\\/*?:[\]]/g;
+
+// ============================================================================
+// WORKBOOK BUILDER
+// ============================================================================
+
+/**
+ * Render an analysis as an Excel workbook for checking the numbers:
+ * metadata, the raw data grid, over/under-indexed items and one sheet per template.
+ *
+ * @returns The .xlsx file contents
+ */
+export async function buildAnalysisWorkbook(report: AnalysisReport): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'GWI Crosstab Analysis';
+  workbook.created = report.generatedAt;
+  workbook.title = report.crosstab.name;
+
+  addMetadataSheet(workbook, report);
+  addDataSheet(workbook, report);
+  addIndexedItemsSheet(workbook, 'Over-Indexed', report.analysis.statistics.overIndexed);
+  addIndexedItemsSheet(workbook, 'Under-Indexed', report.analysis.statistics.underIndexed);
+  Object.entries(report.templates).forEach(([name, template]) => addTemplateSheet(workbook, name, template));
+
+  const output = await workbook.xlsx.writeBuffer();
+  return Buffer.from(output);
+}
+
+// ============================================================================
+// SHEETS
+// ============================================================================
+
+function addMetadataSheet(workbook: ExcelJS.Workbook, report: AnalysisReport): void {
+  const { crosstab, analysis } = report;
+  const sheet = workbook.addWorksheet('Metadata');
+  sheet.columns = [{ width: 28 }, { width: 80 }];
+
+  const significance = analysis.statistics.significance;
+  const rows: [string, string | number][] = [
+    ['Crosstab', crosstab.name],
+    ['Crosstab ID', crosstab.uuid || crosstab.id],
+    ['Base', (crosstab.bases || []).map(b => b.name).join(', ') || 'All respondents'],
+    ['Markets', crosstab.country_codes.join(', ')],
+    ['Waves', crosstab.wave_codes.join(', ')],
+    ['Rows', crosstab.rows.length],
+    ['Columns', crosstab.columns.length],
+    ['Data cells', crosstab.data?.length || 0],
+    ['Created', crosstab.created_at],
+    ['Last updated', crosstab.updated_at],
+    ['Analysis preset', analysis.config.preset],
+    ['Minimum sample', analysis.config.minSample],
+    ['Confidence level', analysis.config.confidenceLevel],
+    ['Multiple comparison correction', significance.correction],
+    ['Significant cells', `${significance.significantCells} of ${significance.testedCells} tested`],
+    ['Generated', report.generatedAt.toISOString()],
+  ];
+
+  rows.forEach(row => sheet.addRow(row));
+  sheet.getColumn(1).font = { bold: true };
+  sheet.getColumn(2).alignment = { horizontal: 'left', wrapText: true };
+}
+
+/**
+ * One row per datapoint (and market/wave), with the five metrics repeated per audience
+ */
+function addDataSheet(workbook: ExcelJS.Workbook, report: AnalysisReport): void {
+  const { crosstab } = report;
+  const sheet = workbook.addWorksheet('Data', { views: [{ state: 'frozen', xSplit: 3, ySplit: 2 }] });
+  const data = crosstab.data || [];
+
+  // Audiences and grid rows in the order they first appear in the data
+  const audiences: string[] = [];
+  const gridRows = new Map<string, { datapoint: string; location: string; wave: string; cells: Map<string, CrosstabDataRow> }>();
+
+  data.forEach(row => {
+    if (!audiences.includes(row.audience)) audiences.push(row.audience);
+
+    const location = row.location || '';
+    const wave = row.wave || '';
+    const key = `${row.datapoint}|${location}|${wave}`;
+    if (!gridRows.has(key)) {
+      gridRows.set(key, { datapoint: row.datapoint, location, wave, cells: new Map() });
+    }
+    gridRows.get(key)!.cells.set(row.audience, row);
+  });
+
+  // Two header rows: audience names spanning their metric columns, then metric names
+  const leading = ['Row', 'Market', 'Wave'];
+  const audienceHeader = [...leading, ...audiences.flatMap(audience => [
+    getColumnName(audience, crosstab.columns),
+    ...GRID_METRICS.slice(1).map(() => ''),
+  ])];
+  const metricHeader = [...leading, ...audiences.flatMap(() => GRID_METRICS.map(m => m.header))];
+  sheet.addRow(audienceHeader);
+  sheet.addRow(metricHeader);
+
+  audiences.forEach((_, i) => {
+    const start = leading.length + i * GRID_METRICS.length + 1;
+    sheet.mergeCells(1, start, 1, start + GRID_METRICS.length - 1);
+  });
+  leading.forEach((_, i) => sheet.mergeCells(1, i + 1, 2, i + 1));
+  styleHeaderRow(sheet.getRow(1));
+  styleHeaderRow(sheet.getRow(2));
+  sheet.getRow(1).alignment = { horizontal: 'center', vertical: 'middle' };
+
+  gridRows.forEach(gridRow => {
+    sheet.addRow([
+      getRowName(gridRow.datapoint, crosstab.rows),
+      gridRow.location,
+      gridRow.wave,
+      ...audiences.flatMap(audience => {
+        const cell = gridRow.cells.get(audience);
+        return GRID_METRICS.map(metric => cell?.metrics[metric.key] ?? null);
+      }),
+    ]);
+  });
+
+  sheet.getColumn(1).width = 40;
+  sheet.getColumn(2).width = 10;
+  sheet.getColumn(3).width = 12;
+  audiences.forEach((_, i) => {
+    GRID_METRICS.forEach((metric, m) => {
+      const column = sheet.getColumn(leading.length + i * GRID_METRICS.length + m + 1);
+      column.numFmt = metric.numFmt;
+      column.width = 12;
+    });
+  });
+
+  // Red → white → blue colour scale on every index column, centred on 100
+  if (gridRows.size > 0) {
+    const lastRow = gridRows.size + 2;
+    const indexOffset = GRID_METRICS.findIndex(m => m.key === 'audience_index');
+    audiences.forEach((_, i) => {
+      const letter = sheet.getColumn(leading.length + i * GRID_METRICS.length + indexOffset + 1).letter;
+      addIndexColorScale(sheet, `${letter}3:${letter}${lastRow}`);
+    });
+  }
+}
+
+function addIndexedItemsSheet(workbook: ExcelJS.Workbook, name: string, items: IndexedItem[]): void {
+  const sheet = workbook.addWorksheet(name, { views: [{ state: 'frozen', ySplit: 1 }] });
+  sheet.columns = [
+    { header: 'Datapoint', key: 'label', width: 50 },
+    { header: 'Audience', key: 'segment', width: 24 },
+    { header: 'Market', key: 'location', width: 10 },
+    { header: 'Index', key: 'index', width: 10, style: { numFmt: '0' } },
+    { header: 'Audience %', key: 'percentage', width: 12, style: { numFmt: '0.0' } },
+    { header: 'Sample', key: 'sample', width: 10, style: { numFmt: '#,##0' } },
+    { header: 'Significant', key: 'significant', width: 12 },
+    { header: 'p-value', key: 'pValue', width: 10, style: { numFmt: '0.0000' } },
+    { header: 'q-value', key: 'qValue', width: 10, style: { numFmt: '0.0000' } },
+  ];
+  styleHeaderRow(sheet.getRow(1));
+
+  items.forEach(item => sheet.addRow({
+    label: item.label,
+    segment: item.segment ?? '',
+    location: item.location ?? '',
+    index: item.index,
+    percentage: item.percentage,
+    sample: item.sample,
+    significant: item.significant === undefined ? '' : item.significant ? 'Yes' : 'No',
+    pValue: item.pValue ?? null,
+    qValue: item.qValue ?? null,
+  }));
+
+  if (items.length > 0) {
+    addIndexColorScale(sheet, `D2:D${items.length + 1}`);
+    sheet.autoFilter = { from: 'A1', to: `I${items.length + 1}` };
+  }
+}
+
+function addTemplateSheet(workbook: ExcelJS.Workbook, name: string, template: TemplateAnalysis): void {
+  const sheet = workbook.addWorksheet(toSheetName(name));
+  sheet.columns = [{ width: 40 }, { width: 20 }, { width: 70 }];
+
+  const title = sheet.addRow([name]);
+  title.font = { bold: true, size: 14 };
+  sheet.addRow([template.summary]).alignment = { wrapText: true, vertical: 'top' };
+  sheet.mergeCells(sheet.rowCount, 1, sheet.rowCount, 3);
+  sheet.addRow([]);
+
+  if (template.keyMetrics.length > 0) {
+    styleHeaderRow(sheet.addRow(['Key metric', 'Value', 'Context']));
+    template.keyMetrics.forEach(metric => {
+      const row = sheet.addRow([metric.label, metric.value, metric.context ?? '']);
+      if (metric.significance === 'positive') row.getCell(2).font = { color: { argb: COLORS.blue } };
+      if (metric.significance === 'negative') row.getCell(2).font = { color: { argb: COLORS.red } };
+    });
+    sheet.addRow([]);
+  }
+
+  const addList = (heading: string, lines: string[]) => {
+    if (lines.length === 0) return;
+    styleHeaderRow(sheet.addRow([heading]));
+    lines.forEach(line => {
+      sheet.addRow([line]).alignment = { wrapText: true };
+      sheet.mergeCells(sheet.rowCount, 1, sheet.rowCount, 3);
+    });
+    sheet.addRow([]);
+  };
+
+  addList('Insights', template.insights);
+  addList('Recommendations', template.recommendations);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function styleHeaderRow(row: ExcelJS.Row): void {
+  row.font = { bold: true };
+  row.eachCell(cell => {
+    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: COLORS.header } };
+  });
+}
+
+function addIndexColorScale(sheet: ExcelJS.Worksheet, ref: string): void {
+  sheet.addConditionalFormatting({
+    ref,
+    rules: [{
+      type: 'colorScale',
+      priority: 1,
+      cfvo: [{ type: 'min' }, { type: 'num', value: 100 }, { type: 'max' }],
+      color: [{ argb: COLORS.red }, { argb: COLORS.white }, { argb: COLORS.blue }],
+    }],
+  });
+}
+
+function toSheetName(name: string): string {
+  return name.replace(INVALID_SHEET_CHARS, ' ').substring(0, 31).trim();
+}
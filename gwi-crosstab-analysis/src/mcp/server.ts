@@ -0,0 +1,158 @@
+import type express from 'express';
+import dotenv from 'dotenv';
+import { timingSafeEqual } from 'crypto';
+import { createMcpExpressApp } from '@modelcontextprotocol/sdk/server/express.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { CrosstabAnalysisOrchestrator } from '../lib/orchestrator';
+import { CrosstabAnalyzer } from '../lib/crosstab-analyzer';
+import { TemplateAnalysisEngine } from '../lib/analysis-templates';
+import { ResponseFormatter } from '../lib/response-formatter';
+import { createAnalysisMcpServer, type AnalysisServices } from './tools';
+
+// Run as an MCP server:
+//   tsx src/mcp/server.ts          stdio (for assistants that launch the server)
+//   tsx src/mcp/server.ts --http   Streamable HTTP on MCP_HOST:MCP_PORT (default 127.0.0.1:3002) at /mcp
+// MCP_TRANSPORT=http selects HTTP as well. Binding beyond localhost requires
+// MCP_AUTH_TOKEN, and MCP_ALLOWED_HOSTS lists the host names clients may use.
+
+dotenv.config();
+
+const transport = process.argv.includes('--http') ? 'http' : (process.env.MCP_TRANSPORT || 'stdio').toLowerCase();
+
+// On stdio, stdout carries the protocol, so the client's console logging goes to stderr
+if (transport === 'stdio') {
+  console.log = console.error;
+  console.info = console.error;
+}
+
+const API_KEY = process.env.GWI_API_KEY;
+if (!API_KEY) {
+  console.error('GWI_API_KEY is required to run the MCP server');
+  process.exit(1);
+}
+
+const services: AnalysisServices = {
+  orchestrator: new CrosstabAnalysisOrchestrator(API_KEY),
+  analyzer: new CrosstabAnalyzer(),
+  templateEngine: new TemplateAnalysisEngine(),
+  formatter: new ResponseFormatter(),
+};
+
+async function startStdio(): Promise<void> {
+  const server = createAnalysisMcpServer(services);
+  await server.connect(new StdioServerTransport());
+  console.error('MCP server running on stdio');
+}
+
+const LOCAL_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+
+/**
+ * Reject requests without `Authorization: Bearer <token>`
+ */
+function requireBearerToken(token: string): express.RequestHandler {
+  const expected = Buffer.from(token);
+
+  return (req, res, next) => {
+    const [scheme, value] = (req.get('authorization') || '').split(' ');
+    const given = Buffer.from(value || '');
+
+    if (scheme?.toLowerCase() !== 'bearer' || given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      res.status(401).set('WWW-Authenticate', 'Bearer').json({
+        jsonrpc: '2.0',
+        error: { code: -32001, message: 'Unauthorized' },
+        id: null,
+      });
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Stateless Streamable HTTP: every POST gets its own server and transport,
+ * so concurrent clients never share request state.
+ *
+ * Listens on localhost unless MCP_HOST says otherwise. Host headers are
+ * checked against MCP_ALLOWED_HOSTS (localhost names by default) so a web page
+ * cannot reach the server through DNS rebinding, and MCP_AUTH_TOKEN, required
+ * once the server is exposed, gates every request.
+ */
+function startHttp(): void {
+  const host = process.env.MCP_HOST || '127.0.0.1';
+  const port = Number(process.env.MCP_PORT) || 3002;
+  const token = process.env.MCP_AUTH_TOKEN;
+  const allowedHosts = (process.env.MCP_ALLOWED_HOSTS || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+
+  const isLocal = LOCAL_HOSTS.includes(host);
+  if (!isLocal && !token) {
+    console.error(`MCP_AUTH_TOKEN is required to serve MCP on ${host}`);
+    process.exit(1);
+  }
+
+  const app = createMcpExpressApp({
+    host,
+    allowedHosts: allowedHosts.length > 0 ? allowedHosts : ['localhost', '127.0.0.1', '[::1]'],
+  });
+  if (token) {
+    app.use('/mcp', requireBearerToken(token));
+  }
+
+  app.post('/mcp', async (req, res) => {
+    const server = createAnalysisMcpServer(services);
+    const httpTransport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+
+    res.on('close', () => {
+      httpTransport.close();
+      server.close();
+    });
+
+    try {
+      await server.connect(httpTransport);
+      await httpTransport.handleRequest(req, res, req.body);
+    } catch (error) {
+      console.error('MCP request error:', error);
+      if (!res.headersSent) {
+        res.status(500).json({
+          jsonrpc: '2.0',
+          error: { code: -32603, message: 'Internal server error' },
+          id: null,
+        });
+      }
+    }
+  });
+
+  // Sessions and server-initiated streams are not supported in stateless mode
+  const methodNotAllowed = (_req: express.Request, res: express.Response) => {
+    res.status(405).json({
+      jsonrpc: '2.0',
+      error: { code: -32000, message: 'Method not allowed' },
+      id: null,
+    });
+  };
+  app.get('/mcp', methodNotAllowed);
+  app.delete('/mcp', methodNotAllowed);
+
+  app.get('/health', (_req, res) => {
+    res.json({ status: 'ok', timestamp: new Date().toISOString() });
+  });
+
+  app.listen(port, host, () => {
+    console.log(`MCP server running on http://${host.includes(':') ? `[${host}]` : host}:${port}/mcp${token ? ' (bearer token required)' : ''}`);
+  });
+}
+
+if (transport === 'http') {
+  startHttp();
+} else if (transport === 'stdio') {
+  startStdio().catch(error => {
+    console.error('Failed to start MCP server:', error);
+    process.exit(1);
+  });
+} else {
+  console.error(`Unknown MCP_TRANSPORT "${transport}". Use stdio or http.`);
+  process.exit(1);
+}
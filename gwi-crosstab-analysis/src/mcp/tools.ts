@@ -0,0 +1,185 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { CrosstabAnalysisOrchestrator } from '../lib/orchestrator';
+import { CrosstabAnalyzer } from '../lib/crosstab-analyzer';
+import { TemplateAnalysisEngine } from '../lib/analysis-templates';
+import { ResponseFormatter } from '../lib/response-formatter';
+import { ANALYSIS_PRESETS, resolveAnalysisConfig } from '../lib/analysis-config';
+import { buildMarketComparison } from '../lib/market-comparison';
+import { compareCrosstabs } from '../lib/crosstab-comparison';
+import { buildExpressionLabeler, describeDefinition } from '../lib/audience-expression';
+import type { AnalysisPresetName } from '../lib/types';
+
+export interface AnalysisServices {
+  orchestrator: CrosstabAnalysisOrchestrator;
+  analyzer: CrosstabAnalyzer;
+  templateEngine: TemplateAnalysisEngine;
+  formatter: ResponseFormatter;
+}
+
+const PRESET_NAMES = Object.keys(ANALYSIS_PRESETS) as [AnalysisPresetName, ...AnalysisPresetName[]];
+
+const crosstabIdSchema = z.string().min(1).describe('Crosstab UUID, as returned by list_crosstabs');
+const presetSchema = z.enum(PRESET_NAMES).optional()
+  .describe('Analysis methodology preset (sample floor, index thresholds, significance); defaults to standard');
+
+// ============================================================================
+// RESULTS
+// ============================================================================
+
+function text(content: string): CallToolResult {
+  return { content: [{ type: 'text', text: content }] };
+}
+
+function json(value: unknown): CallToolResult {
+  return text(JSON.stringify(value, null, 2));
+}
+
+/**
+ * Run a tool body, turning thrown errors into an MCP error result the
+ * assistant can read instead of a protocol-level failure
+ */
+async function run(label: string, body: () => Promise<CallToolResult>): Promise<CallToolResult> {
+  try {
+    return await body();
+  } catch (error) {
+    console.error(`MCP ${label} error:`, error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return { content: [{ type: 'text', text: `Failed to ${label}: ${message}` }], isError: true };
+  }
+}
+
+// ============================================================================
+// SERVER
+// ============================================================================
+
+/**
+ * Create an MCP server exposing the crosstab analysis tools.
+ * Transport-agnostic: connect it to stdio or Streamable HTTP.
+ */
+export function createAnalysisMcpServer(services: AnalysisServices): McpServer {
+  const { orchestrator, analyzer, templateEngine, formatter } = services;
+
+  const server = new McpServer({ name: 'gwi-crosstab-analysis', version: '1.0.0' });
+
+  server.registerTool('list_crosstabs', {
+    title: 'List crosstabs',
+    description: 'List the saved GWI crosstabs, optionally filtered by a name search',
+    inputSchema: {
+      search: z.string().optional().describe('Only return crosstabs whose name contains this text'),
+    },
+    annotations: { readOnlyHint: true },
+  }, async ({ search }) => run('list crosstabs', async () => text(await orchestrator.listCrosstabs(search))));
+
+  server.registerTool('get_crosstab', {
+    title: 'Get crosstab',
+    description: 'Describe a crosstab: its rows, audience columns and base (with what each selects), markets, waves and how many data cells it has',
+    inputSchema: { crosstabId: crosstabIdSchema },
+    annotations: { readOnlyHint: true },
+  }, async ({ crosstabId }) => run('get crosstab', async () => {
+    const crosstab = await orchestrator.client.getCrosstab(crosstabId, true);
+    const labeler = buildExpressionLabeler(crosstab);
+    const describe = (d: { id: string; name: string }) => ({
+      id: d.id,
+      name: d.name,
+      definition: describeDefinition(d, labeler),
+    });
+
+    return json({
+      id: crosstab.uuid || crosstab.id,
+      name: crosstab.name,
+      markets: crosstab.country_codes,
+      waves: crosstab.wave_codes,
+      base: crosstab.bases?.map(describe),
+      columns: crosstab.columns.map(describe),
+      rows: crosstab.rows.map(describe),
+      dataCells: crosstab.data?.length ?? 0,
+      updatedAt: crosstab.updated_at,
+    });
+  }));
+
+  server.registerTool('analyze_crosstab', {
+    title: 'Analyze crosstab',
+    description: 'Run the statistical analysis of a crosstab: top and bottom indexes with significance, insights, market breakdown, trends, audience differences and recommendations',
+    inputSchema: {
+      crosstabId: crosstabIdSchema,
+      preset: presetSchema,
+      format: z.enum(['markdown', 'json']).default('markdown')
+        .describe('markdown for a readable report, json for the structured analysis'),
+    },
+    annotations: { readOnlyHint: true },
+  }, async ({ crosstabId, preset, format }) => run('analyze crosstab', async () => {
+    const config = resolveAnalysisConfig(preset);
+    const crosstab = await orchestrator.client.getCrosstab(crosstabId, true);
+    const analysis = analyzer.analyze(crosstab, config);
+
+    return format === 'json'
+      ? json({ crosstabId, crosstabName: crosstab.name, analysis })
+      : text(formatter.formatAnalysis(crosstab, analysis));
+  }));
+
+  server.registerTool('apply_template', {
+    title: 'Apply analysis template',
+    description: 'Run specialized analysis templates (Audience Profiling, Market Comparison, Trend Analysis, Competitive Comparison, Media & Platform Analysis) on a crosstab. Without a template name, every applicable template runs.',
+    inputSchema: {
+      crosstabId: crosstabIdSchema,
+      template: z.string().optional().describe('Template name, e.g. "Audience Profiling"'),
+      preset: presetSchema,
+    },
+    annotations: { readOnlyHint: true },
+  }, async ({ crosstabId, template, preset }) => run('apply template', async () => {
+    const config = resolveAnalysisConfig(preset);
+    // Validate the name before fetching anything
+    const requested = template ? templateEngine.findTemplates([template]) : undefined;
+
+    const crosstab = await orchestrator.client.getCrosstab(crosstabId, true);
+    const analysis = analyzer.analyze(crosstab, config);
+    const templates = requested ?? templateEngine.selectTemplates(crosstab);
+
+    if (templates.length === 0) {
+      return text(`No templates apply to "${crosstab.name}".`);
+    }
+
+    return text(templates
+      .map(t => templateEngine.formatTemplateAnalysis(t.name, templateEngine.applyTemplate(t, crosstab, analysis, config)))
+      .join('\n---\n\n'));
+  }));
+
+  server.registerTool('compare_markets', {
+    title: 'Compare markets',
+    description: 'Compare index values across the markets of a multi-market crosstab, largest spread first',
+    inputSchema: {
+      crosstabId: crosstabIdSchema,
+      preset: presetSchema,
+      limit: z.number().int().min(1).max(100).default(15).describe('Maximum number of datapoints'),
+    },
+    annotations: { readOnlyHint: true },
+  }, async ({ crosstabId, preset, limit }) => run('compare markets', async () => {
+    const config = resolveAnalysisConfig(preset);
+    const crosstab = await orchestrator.client.getCrosstab(crosstabId, true);
+    analyzer.annotateSignificance(crosstab, config);
+
+    const comparison = buildMarketComparison(crosstab, config);
+    if (!comparison) {
+      return text(`"${crosstab.name}" does not have data for at least two markets.`);
+    }
+    return text(`## Market Comparison: ${crosstab.name}\n\n${formatter.formatMarketComparison(comparison, limit)}`);
+  }));
+
+  server.registerTool('compare_crosstabs', {
+    title: 'Compare crosstabs',
+    description: 'Compare two or more crosstabs datapoint by datapoint: index and reach deltas against the first, significance of each difference, and datapoints only one crosstab has',
+    inputSchema: {
+      crosstabIds: z.array(crosstabIdSchema).min(2).describe('Crosstab UUIDs; the first is the reference'),
+      preset: presetSchema,
+    },
+    annotations: { readOnlyHint: true },
+  }, async ({ crosstabIds, preset }) => run('compare crosstabs', async () => {
+    const config = resolveAnalysisConfig(preset);
+    const crosstabs = await Promise.all(crosstabIds.map(id => orchestrator.client.getCrosstab(id, true)));
+    return text(formatter.formatCrosstabComparison(compareCrosstabs(crosstabs, config)));
+  }));
+
+  return server;
+}
@@ -0,0 +1,109 @@
+import { CrosstabAnalyzer } from '../lib/crosstab-analyzer';
+import { TemplateAnalysisEngine } from '../lib/analysis-templates';
+import { ResponseFormatter } from '../lib/response-formatter';
+import { RuleBasedIntentClassifier } from '../lib/intent-classifier';
+import { resolveAnalysisConfig } from '../lib/analysis-config';
+import { createSession } from '../lib/session-store';
+import type { CrosstabAnalysisOrchestrator } from '../lib/orchestrator';
+import type { SparkAPIClient, SparkQueryOptions, SparkResponse } from '../lib/spark-client';
+import type { ChatSession, ChatStage, Crosstab, PromptMetadata } from '../lib/types';
+import { createChatIntentRegistry } from '../api/chat/intents';
+import type { IntentRegistry } from '../api/chat/registry';
+import type { ChatServices, IntentResult } from '../api/chat/types';
+import { makeCrosstab } from './fixtures';
+
+// What the stubbed clients were asked for
+export interface StubCalls {
+  getCrosstab: string[];
+  searchCrosstabs: string[];
+  listCrosstabs: number;
+  spark: { prompt: string; options?: SparkQueryOptions }[];
+}
+
+/**
+ * Chat services backed by in-memory crosstabs instead of the GWI APIs.
+ * Crosstabs are found by ID and searched by name; Spark echoes the prompt.
+ */
+export function createStubServices(options: { crosstabs?: Crosstab[]; gwi?: boolean; spark?: boolean } = {}): { services: ChatServices; calls: StubCalls } {
+  const crosstabs = options.crosstabs ?? [makeCrosstab()];
+  const calls: StubCalls = { getCrosstab: [], searchCrosstabs: [], listCrosstabs: 0, spark: [] };
+
+  const client = {
+    async getCrosstab(id: string) {
+      calls.getCrosstab.push(id);
+      const crosstab = crosstabs.find(c => c.id === id || c.uuid === id);
+      if (!crosstab) throw new Error(`Crosstab ${id} not found (404)`);
+      return structuredClone(crosstab);
+    },
+    async listCrosstabs() {
+      calls.listCrosstabs++;
+      return crosstabs.map(({ data: _data, ...summary }) => summary);
+    },
+    async searchCrosstabs(term: string) {
+      calls.searchCrosstabs.push(term);
+      return crosstabs
+        .filter(c => c.name.toLowerCase().includes(term.toLowerCase()))
+        .map(({ data: _data, ...summary }) => summary);
+    },
+  };
+
+  const sparkClient = {
+    async query(prompt: string, queryOptions?: SparkQueryOptions): Promise<SparkResponse> {
+      calls.spark.push({ prompt, options: queryOptions });
+      return {
+        message: prompt,
+        insights: [],
+        chatId: 'spark-chat-1',
+        sources: {} as SparkResponse['sources'],
+        formattedText: `Spark answer to: ${prompt}`,
+      };
+    },
+  };
+
+  return {
+    services: {
+      orchestrator: options.gwi === false ? null : { client } as unknown as CrosstabAnalysisOrchestrator,
+      sparkClient: options.spark === false ? null : sparkClient as unknown as SparkAPIClient,
+      analyzer: new CrosstabAnalyzer(),
+      templateEngine: new TemplateAnalysisEngine(),
+      formatter: new ResponseFormatter(),
+    },
+    calls,
+  };
+}
+
+export interface ChatTurn {
+  handler: string | undefined;    // Name of the handler the registry picked
+  result: IntentResult;
+  stages: ChatStage[];
+}
+
+/**
+ * Classify a message with the rules and dispatch it through the chat's intent registry
+ */
+export async function sendChatMessage(
+  services: ChatServices,
+  message: string,
+  options: { crosstabId?: string | null; promptMetadata?: PromptMetadata; wantsChart?: boolean; session?: ChatSession; registry?: IntentRegistry } = {}
+): Promise<ChatTurn> {
+  const registry = options.registry ?? createChatIntentRegistry();
+  const session = options.session ?? createSession('test-owner');
+  const crosstabId = options.crosstabId ?? null;
+
+  const intent = await new RuleBasedIntentClassifier().classify(message, {
+    crosstabId,
+    promptMetadata: options.promptMetadata,
+    hasDataQuery: !!crosstabId && session.dataQuery?.crosstabId === crosstabId,
+  });
+  const request = { message, intent, crosstabId, promptMetadata: options.promptMetadata, wantsChart: options.wantsChart ?? false };
+
+  const stages: ChatStage[] = [];
+  const result = await registry.dispatch(request, {
+    services,
+    config: resolveAnalysisConfig(),
+    session,
+    onStage: stage => stages.push(stage),
+  });
+
+  return { handler: registry.resolve(request)?.handler.name, result, stages };
+}
@@ -0,0 +1,63 @@
+import type { Crosstab, CrosstabDataRow } from '../lib/types';
+
+const ROW_NAMES = ['TikTok', 'Instagram', 'Netflix', 'Amazon shopping', 'Travel', 'Fitness', 'Podcasts', 'TV'];
+
+/**
+ * A deterministic crosstab for tests: every row × audience × market × wave
+ * gets a cell, with percentages drawn from a seeded generator
+ */
+export function makeCrosstab(options: { markets?: string[]; waves?: string[]; audiences?: string[]; rows?: number } = {}): Crosstab {
+  const markets = options.markets ?? ['gb'];
+  const waves = options.waves ?? ['q1_2024'];
+  const audiences = options.audiences ?? ['Gen Z'];
+  const rows = Array.from({ length: options.rows ?? ROW_NAMES.length }, (_, i) => ({
+    id: `q42011_${i + 1}`,
+    name: ROW_NAMES[i % ROW_NAMES.length] + (i >= ROW_NAMES.length ? ` ${i + 1}` : ''),
+  }));
+  const columns = audiences.map((name, i) => ({ id: `aud${i + 1}`, name }));
+
+  let seed = 7;
+  const random = () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647;
+  };
+
+  const data: CrosstabDataRow[] = [];
+  for (const location of markets) {
+    for (const wave of waves) {
+      for (const row of rows) {
+        for (const column of columns) {
+          const base = 10 + random() * 50;
+          const audience = Math.min(95, base * (0.4 + random() * 1.6));
+          data.push({
+            datapoint: row.id,
+            audience: column.id,
+            segment: column.name,
+            location,
+            wave,
+            metrics: {
+              positive_sample: Math.round(50 + random() * 500),
+              positive_size: Math.round(random() * 1e6),
+              audience_percentage: audience,
+              datapoint_percentage: base,
+              audience_index: (audience / base) * 100,
+            },
+          });
+        }
+      }
+    }
+  }
+
+  return {
+    id: 'crosstab-1',
+    uuid: 'crosstab-1',
+    name: 'Social media by generation',
+    rows,
+    columns,
+    country_codes: markets,
+    wave_codes: waves,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    data,
+  };
+}